@@ -1,6 +1,16 @@
 /// <reference path="../three.d.ts" />
 var Chameleon;
 (function (Chameleon) {
+    function strokeSampleFromPointerEvent(event) {
+        return {
+            // Mice and touch screens report a constant pressure, which should not shrink the brush
+            pressure: event.pointerType === 'pen' ? event.pressure : 1,
+            tiltX: event.tiltX || 0,
+            tiltY: event.tiltY || 0,
+            timeStamp: event.timeStamp
+        };
+    }
+    Chameleon.strokeSampleFromPointerEvent = strokeSampleFromPointerEvent;
     function mousePositionInCanvas(event, canvasBox) {
         return new THREE.Vector2(event.pageX - canvasBox.left, event.pageY - canvasBox.top);
     }
@@ -19,10 +29,39 @@ var Chameleon;
         return Math.random() * (max - min) + min;
     }
     Chameleon.getRandomFloat = getRandomFloat;
-    function angleBetween(point1, point2) {
-        return Math.atan2(point2.x - point1.x, point2.y - point1.y);
+    /**
+     * Draws the triangle of the image at source onto the triangle at target, stretching it with an affine transform.
+     * Both triangles are given in pixels as [x0, y0, x1, y1, x2, y2]. The target triangle is grown by about a pixel,
+     * so that no seams show between neighbouring triangles.
+     */
+    function drawTriangle(context, image, source, target) {
+        var centerX = (target[0] + target[2] + target[4]) / 3, centerY = (target[1] + target[3] + target[5]) / 3;
+        context.save();
+        context.beginPath();
+        for (var i = 0; i < 3; i += 1) {
+            var dx = target[i * 2] - centerX, dy = target[i * 2 + 1] - centerY;
+            var length = Math.sqrt(dx * dx + dy * dy) || 1;
+            context.lineTo(target[i * 2] + dx / length, target[i * 2 + 1] + dy / length);
+        }
+        context.closePath();
+        context.clip();
+        var u1x = source[2] - source[0], u1y = source[3] - source[1], u2x = source[4] - source[0], u2y = source[5] - source[1], v1x = target[2] - target[0], v1y = target[3] - target[1], v2x = target[4] - target[0], v2y = target[5] - target[1];
+        var det = u1x * u2y - u2x * u1y;
+        if (Math.abs(det) < 1e-6) {
+            // The source triangle is a single point (e.g. a patch of one pixel), so fill the target with that pixel
+            var x = Math.min(Math.max(Math.floor(source[0]), 0), image.width - 1), y = Math.min(Math.max(Math.floor(source[1]), 0), image.height - 1);
+            var minX = Math.min(target[0], target[2], target[4]) - 2, minY = Math.min(target[1], target[3], target[5]) - 2, maxX = Math.max(target[0], target[2], target[4]) + 2, maxY = Math.max(target[1], target[3], target[5]) + 2;
+            context.drawImage(image, x, y, 1, 1, minX, minY, maxX - minX, maxY - minY);
+        }
+        else {
+            // The linear part maps the source edges onto the target edges
+            var a = (v1x * u2y - v2x * u1y) / det, b = (v1y * u2y - v2y * u1y) / det, c = (v2x * u1x - v1x * u2x) / det, d = (v2y * u1x - v1y * u2x) / det;
+            context.transform(a, b, c, d, target[0] - a * source[0] - c * source[1], target[1] - b * source[0] - d * source[1]);
+            context.drawImage(image, 0, 0);
+        }
+        context.restore();
     }
-    Chameleon.angleBetween = angleBetween;
+    Chameleon.drawTriangle = drawTriangle;
 })(Chameleon || (Chameleon = {}));
 /// <reference path="./common.ts" />
 var __extends = this.__extends || function (d, b) {
@@ -216,8 +255,628 @@ var Chameleon;
 })(Chameleon || (Chameleon = {}));
 /// <reference path="./common.ts" />
 var Chameleon;
+(function (Chameleon) {
+    /**
+     * Values for PaintLayer.blendMode, which are the compositing operations supported by canvas 2D contexts
+     */
+    Chameleon.BLEND_MODES = [
+        'source-over',
+        'multiply',
+        'screen',
+        'overlay',
+        'darken',
+        'lighten',
+        'color-dodge',
+        'color-burn',
+        'hard-light',
+        'soft-light',
+        'difference',
+        'exclusion',
+        'hue',
+        'saturation',
+        'color',
+        'luminosity'
+    ];
+    /**
+     * A named layer of paint. Like the viewing texture, it holds for each face the material with its patch and the UVs
+     * into that patch. The viewing texture shows the composite of all visible layers.
+     */
+    var PaintLayer = (function () {
+        function PaintLayer(name, nFaces, initialMaterial) {
+            this.name = name;
+            this.visible = true;
+            this.locked = false;
+            this.opacity = 1;
+            this.blendMode = 'source-over';
+            this.material = new THREE.MeshFaceMaterial(); // The material of each face
+            this.renderMaterial = new THREE.MeshFaceMaterial(); // Kept up to date by TextureManager
+            this.uvs = [];
+            for (var i = 0; i < nFaces; i += 1) {
+                this.material.materials.push(initialMaterial);
+                this.uvs.push([
+                    new THREE.Vector2(0.5, 0.5),
+                    new THREE.Vector2(0.5, 0.5),
+                    new THREE.Vector2(0.5, 0.5)
+                ]);
+            }
+        }
+        Object.defineProperty(PaintLayer.prototype, "isPlain", {
+            /**
+             * Whether the layer shows as is, i.e. visible, fully opaque and not blended
+             */
+            get: function () {
+                return this.visible && this.opacity === 1 && this.blendMode === 'source-over';
+            },
+            enumerable: true,
+            configurable: true
+        });
+        PaintLayer.prototype.setProperties = function (properties) {
+            if (properties.name !== undefined) {
+                this.name = properties.name;
+            }
+            if (properties.visible !== undefined) {
+                this.visible = properties.visible;
+            }
+            if (properties.locked !== undefined) {
+                this.locked = properties.locked;
+            }
+            if (properties.opacity !== undefined) {
+                this.opacity = Math.min(Math.max(properties.opacity, 0), 1);
+            }
+            if (properties.blendMode !== undefined) {
+                console.assert(Chameleon.BLEND_MODES.indexOf(properties.blendMode) >= 0);
+                this.blendMode = properties.blendMode;
+            }
+        };
+        return PaintLayer;
+    })();
+    Chameleon.PaintLayer = PaintLayer;
+})(Chameleon || (Chameleon = {}));
+/// <reference path="./common.ts" />
+/// <reference path="./layers.ts" />
+var Chameleon;
+(function (Chameleon) {
+    /**
+     * The state of a set of faces in a paint layer: for each face, the material holding its patch and the UVs into it
+     */
+    var FacePatchSnapshot = (function () {
+        function FacePatchSnapshot(nFaces) {
+            this.materials = new Array(nFaces);
+            this.uvs = new Float32Array(nFaces * 6);
+        }
+        return FacePatchSnapshot;
+    })();
+    Chameleon.FacePatchSnapshot = FacePatchSnapshot;
+    /**
+     * A reversible change to a paint layer. Only the faces touched by the change are stored.
+     */
+    var PatchEdit = (function () {
+        function PatchEdit(layer, faceIndices, before, after) {
+            this.layer = layer;
+            this.faceIndices = faceIndices;
+            this.before = before;
+            this.after = after;
+        }
+        return PatchEdit;
+    })();
+    Chameleon.PatchEdit = PatchEdit;
+    /**
+     * Bounded undo/redo stacks of patch edits. Each step is a list of edits that are undone and redone together.
+     */
+    var EditHistory = (function () {
+        function EditHistory(limit) {
+            this.limit = limit;
+            this._undoStack = [];
+            this._redoStack = [];
+            this._group = null; // Collects the edits pushed between beginGroup and endGroup
+        }
+        Object.defineProperty(EditHistory.prototype, "canUndo", {
+            get: function () {
+                return this._undoStack.length > 0;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(EditHistory.prototype, "canRedo", {
+            get: function () {
+                return this._redoStack.length > 0;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        EditHistory.prototype.push = function (edits) {
+            if (this._group) {
+                this._group = this._group.concat(edits);
+                return;
+            }
+            this._undoStack.push(edits);
+            if (this._undoStack.length > this.limit) {
+                this._undoStack.shift();
+            }
+            this._redoStack = [];
+        };
+        /**
+         * Makes the edits pushed until endGroup a single step
+         */
+        EditHistory.prototype.beginGroup = function () {
+            console.assert(this._group === null);
+            this._group = [];
+        };
+        EditHistory.prototype.endGroup = function () {
+            var edits = this._group;
+            this._group = null;
+            if (edits.length > 0) {
+                this.push(edits);
+            }
+        };
+        EditHistory.prototype.undo = function () {
+            var edits = this._undoStack.pop();
+            if (edits) {
+                this._redoStack.push(edits);
+            }
+            return edits;
+        };
+        EditHistory.prototype.redo = function () {
+            var edits = this._redoStack.pop();
+            if (edits) {
+                this._undoStack.push(edits);
+            }
+            return edits;
+        };
+        /**
+         * Visits every edit that can be undone or redone, including those of a group that has not ended yet
+         */
+        EditHistory.prototype.forEachEdit = function (callback) {
+            var steps = this._undoStack.concat(this._redoStack);
+            if (this._group) {
+                steps.push(this._group);
+            }
+            steps.forEach(function (edits) { return edits.forEach(callback); });
+        };
+        EditHistory.prototype.clear = function () {
+            this._undoStack = [];
+            this._redoStack = [];
+        };
+        return EditHistory;
+    })();
+    Chameleon.EditHistory = EditHistory;
+})(Chameleon || (Chameleon = {}));
+/// <reference path="./common.ts" />
+var Chameleon;
+(function (Chameleon) {
+    var CHUNK_SIZE = 20000;
+    /**
+     * Finds the faces that share an edge with each face. Vertices closer than epsilon along every axis are treated as
+     * the same vertex, so that adjacency is not broken where the model duplicates vertices (e.g. along UV seams).
+     *
+     * Vertices are welded by hashing their positions into a grid of epsilon-sized cells, and faces are matched through
+     * a map of welded edges, so this takes near-linear time. The work is split into chunks run with setTimeout, so that
+     * the page stays responsive on large models.
+     *
+     * @param onProgress called after each chunk with the fraction of work done
+     * @param onComplete called with the indices of adjacent faces for each face
+     * @returns a function that cancels the remaining work
+     */
+    function buildFaceAdjacency(geometry, epsilon, onProgress, onComplete) {
+        var vertices = geometry.vertices, faces = geometry.faces;
+        var totalWork = vertices.length + faces.length * 2;
+        var weldedIndices = new Uint32Array(vertices.length);
+        var cells = Object.create(null);
+        var nWelded = 0;
+        var weldVertex = function (vertexIndex) {
+            var vertex = vertices[vertexIndex];
+            var cx = Math.floor(vertex.x / epsilon), cy = Math.floor(vertex.y / epsilon), cz = Math.floor(vertex.z / epsilon);
+            for (var dx = -1; dx <= 1; dx += 1) {
+                for (var dy = -1; dy <= 1; dy += 1) {
+                    for (var dz = -1; dz <= 1; dz += 1) {
+                        var cell = cells[(cx + dx) + ',' + (cy + dy) + ',' + (cz + dz)];
+                        if (!cell) {
+                            continue;
+                        }
+                        for (var i = 0; i < cell.length; i += 1) {
+                            var other = vertices[cell[i]];
+                            if (Math.abs(vertex.x - other.x) < epsilon && Math.abs(vertex.y - other.y) < epsilon && Math.abs(vertex.z - other.z) < epsilon) {
+                                weldedIndices[vertexIndex] = weldedIndices[cell[i]];
+                                return;
+                            }
+                        }
+                    }
+                }
+            }
+            var key = cx + ',' + cy + ',' + cz;
+            if (!cells[key]) {
+                cells[key] = [];
+            }
+            cells[key].push(vertexIndex);
+            weldedIndices[vertexIndex] = nWelded;
+            nWelded += 1;
+        };
+        var edgeFaces = Object.create(null);
+        var addEdge = function (v1, v2, faceIndex) {
+            if (v1 === v2) {
+                return; // Degenerate edge
+            }
+            var key = v1 < v2 ? v1 + '_' + v2 : v2 + '_' + v1;
+            if (!edgeFaces[key]) {
+                edgeFaces[key] = [];
+            }
+            edgeFaces[key].push(faceIndex);
+        };
+        var adjacentFaces = new Array(faces.length);
+        var linkFaces = function (faceIndex) {
+            var face = faces[faceIndex];
+            var a = weldedIndices[face.a], b = weldedIndices[face.b], c = weldedIndices[face.c];
+            var keys = [
+                a < b ? a + '_' + b : b + '_' + a,
+                b < c ? b + '_' + c : c + '_' + b,
+                c < a ? c + '_' + a : a + '_' + c
+            ];
+            var neighbours = [];
+            for (var i = 0; i < keys.length; i += 1) {
+                var sharing = edgeFaces[keys[i]];
+                if (!sharing) {
+                    continue;
+                }
+                for (var j = 0; j < sharing.length; j += 1) {
+                    if (sharing[j] !== faceIndex && neighbours.indexOf(sharing[j]) < 0) {
+                        neighbours.push(sharing[j]);
+                    }
+                }
+            }
+            adjacentFaces[faceIndex] = neighbours;
+        };
+        // Each step processes one vertex or face, in three passes: welding vertices, collecting edges, linking faces
+        var step = 0;
+        var timeoutId = null;
+        var runChunk = function () {
+            var chunkEnd = Math.min(step + CHUNK_SIZE, totalWork);
+            for (; step < chunkEnd; step += 1) {
+                if (step < vertices.length) {
+                    weldVertex(step);
+                }
+                else if (step < vertices.length + faces.length) {
+                    var faceIndex = step - vertices.length;
+                    var face = faces[faceIndex];
+                    addEdge(weldedIndices[face.a], weldedIndices[face.b], faceIndex);
+                    addEdge(weldedIndices[face.b], weldedIndices[face.c], faceIndex);
+                    addEdge(weldedIndices[face.c], weldedIndices[face.a], faceIndex);
+                }
+                else {
+                    linkFaces(step - vertices.length - faces.length);
+                }
+            }
+            if (onProgress) {
+                onProgress(totalWork > 0 ? step / totalWork : 1);
+            }
+            if (step < totalWork) {
+                timeoutId = setTimeout(runChunk, 0);
+            }
+            else {
+                timeoutId = null;
+                onComplete(adjacentFaces.map(function (neighbours) { return new Uint32Array(neighbours); }));
+            }
+        };
+        timeoutId = setTimeout(runChunk, 0);
+        return function () {
+            if (timeoutId !== null) {
+                clearTimeout(timeoutId);
+                timeoutId = null;
+            }
+        };
+    }
+    Chameleon.buildFaceAdjacency = buildFaceAdjacency;
+})(Chameleon || (Chameleon = {}));
+/// <reference path="./common.ts" />
+var Chameleon;
+(function (Chameleon) {
+    function containsRect(outer, inner) {
+        return inner.x >= outer.x && inner.y >= outer.y && inner.x + inner.width <= outer.x + outer.width && inner.y + inner.height <= outer.y + outer.height;
+    }
+    /**
+     * Packs rectangles into a square bin with the MaxRects algorithm, which keeps track of all maximal free rectangles
+     * and puts each rectangle where it leaves the shortest side of a free rectangle (Best Short Side Fit)
+     */
+    var MaxRectsBin = (function () {
+        function MaxRectsBin(size) {
+            this.size = size;
+            this._freeRects = [{ x: 0, y: 0, width: size, height: size }];
+        }
+        /**
+         * @returns null if the rectangle does not fit
+         */
+        MaxRectsBin.prototype.insert = function (width, height, allowRotation) {
+            var best = null;
+            var bestShortSide = Infinity, bestLongSide = Infinity;
+            var tryFit = function (freeRect, w, h, isRotated) {
+                if (w > freeRect.width || h > freeRect.height) {
+                    return;
+                }
+                var shortSide = Math.min(freeRect.width - w, freeRect.height - h);
+                var longSide = Math.max(freeRect.width - w, freeRect.height - h);
+                if (shortSide < bestShortSide || (shortSide === bestShortSide && longSide < bestLongSide)) {
+                    best = { x: freeRect.x, y: freeRect.y, isRotated: isRotated };
+                    bestShortSide = shortSide;
+                    bestLongSide = longSide;
+                }
+            };
+            this._freeRects.forEach(function (freeRect) {
+                tryFit(freeRect, width, height, false);
+                if (allowRotation && width !== height) {
+                    tryFit(freeRect, height, width, true);
+                }
+            });
+            if (best) {
+                this._splitFreeRects({
+                    x: best.x,
+                    y: best.y,
+                    width: best.isRotated ? height : width,
+                    height: best.isRotated ? width : height
+                });
+            }
+            return best;
+        };
+        // Replaces each free rectangle that overlaps the used one by the free rectangles around it
+        MaxRectsBin.prototype._splitFreeRects = function (used) {
+            var newFreeRects = [];
+            this._freeRects.forEach(function (free) {
+                if (used.x >= free.x + free.width || used.x + used.width <= free.x || used.y >= free.y + free.height || used.y + used.height <= free.y) {
+                    newFreeRects.push(free);
+                    return;
+                }
+                if (used.x > free.x) {
+                    newFreeRects.push({ x: free.x, y: free.y, width: used.x - free.x, height: free.height });
+                }
+                if (used.x + used.width < free.x + free.width) {
+                    newFreeRects.push({
+                        x: used.x + used.width,
+                        y: free.y,
+                        width: free.x + free.width - used.x - used.width,
+                        height: free.height
+                    });
+                }
+                if (used.y > free.y) {
+                    newFreeRects.push({ x: free.x, y: free.y, width: free.width, height: used.y - free.y });
+                }
+                if (used.y + used.height < free.y + free.height) {
+                    newFreeRects.push({
+                        x: free.x,
+                        y: used.y + used.height,
+                        width: free.width,
+                        height: free.y + free.height - used.y - used.height
+                    });
+                }
+            });
+            // Only maximal free rectangles are kept
+            this._freeRects = newFreeRects.filter(function (rect, i) {
+                for (var j = 0; j < newFreeRects.length; j += 1) {
+                    if (j !== i && containsRect(newFreeRects[j], rect) && (!containsRect(rect, newFreeRects[j]) || j < i)) {
+                        return false;
+                    }
+                }
+                return true;
+            });
+        };
+        return MaxRectsBin;
+    })();
+    /**
+     * Packs rectangles into the smallest square atlas it can find, growing it until every rectangle is placed
+     *
+     * @param allowRotation whether rectangles may be turned by 90 degrees to fit better
+     */
+    function packRects(sizes, allowRotation) {
+        if (allowRotation === void 0) { allowRotation = true; }
+        var totalArea = 0, minSize = 1;
+        sizes.forEach(function (rectSize) {
+            totalArea += rectSize.width * rectSize.height;
+            // Rotating does not help a rectangle fit into a square
+            minSize = Math.max(minSize, rectSize.width, rectSize.height);
+        });
+        // Large rectangles go first, while there is still room for them
+        var order = sizes.map(function (rectSize, i) { return i; });
+        order.sort(function (l, r) { return Math.max(sizes[r].width, sizes[r].height) - Math.max(sizes[l].width, sizes[l].height) || sizes[r].width * sizes[r].height - sizes[l].width * sizes[l].height; });
+        var size = Math.max(Math.ceil(Math.sqrt(totalArea)), minSize);
+        while (true) {
+            var bin = new MaxRectsBin(size);
+            var rects = new Array(sizes.length);
+            var isPacked = order.every(function (i) {
+                rects[i] = bin.insert(sizes[i].width, sizes[i].height, allowRotation);
+                return rects[i] !== null;
+            });
+            if (isPacked) {
+                return { size: size, rects: rects, efficiency: totalArea / (size * size) };
+            }
+            size = Math.max(size + 1, Math.ceil(size * 1.05));
+        }
+    }
+    Chameleon.packRects = packRects;
+    /**
+     * Packs rectangles into a square atlas row by row, tallest first. It wastes more room than packRects, but takes
+     * little more than sorting time, so it suits many rectangles.
+     */
+    function packRectsOnShelves(sizes) {
+        var totalArea = 0, width = 1;
+        sizes.forEach(function (rectSize) {
+            totalArea += rectSize.width * rectSize.height;
+            width = Math.max(width, rectSize.width);
+        });
+        // Rows are not filled completely, so they are made a bit wider than a tight square would be
+        width = Math.max(width, Math.ceil(Math.sqrt(totalArea * 1.2)));
+        var order = sizes.map(function (rectSize, i) { return i; });
+        order.sort(function (l, r) { return sizes[r].height - sizes[l].height; });
+        var rects = new Array(sizes.length);
+        var x = 0, shelfY = 0, shelfHeight = 0;
+        order.forEach(function (i) {
+            if (x + sizes[i].width > width) {
+                x = 0;
+                shelfY += shelfHeight;
+                shelfHeight = 0;
+            }
+            rects[i] = { x: x, y: shelfY, isRotated: false };
+            x += sizes[i].width;
+            shelfHeight = Math.max(shelfHeight, sizes[i].height);
+        });
+        var size = Math.max(width, shelfY + shelfHeight);
+        return { size: size, rects: rects, efficiency: totalArea / (size * size) };
+    }
+    Chameleon.packRectsOnShelves = packRectsOnShelves;
+    /**
+     * Packs rectangles into as few pages as it can, each page up to pageSize x pageSize. Every page is cropped to the
+     * rectangles on it, and a rectangle larger than a page gets a page of its own.
+     */
+    function packRectsIntoPages(sizes, pageSize) {
+        var order = sizes.map(function (rectSize, i) { return i; });
+        order.sort(function (l, r) { return sizes[r].width * sizes[r].height - sizes[l].width * sizes[l].height; });
+        var bins = [];
+        var pages = [];
+        var rects = new Array(sizes.length);
+        order.forEach(function (i) {
+            var width = sizes[i].width, height = sizes[i].height;
+            for (var page = 0; page < bins.length; page += 1) {
+                // Pages of their own are not shared
+                var rect = (bins[page].size === pageSize) ? bins[page].insert(width, height, false) : null;
+                if (rect) {
+                    break;
+                }
+            }
+            if (page === bins.length) {
+                bins.push(new MaxRectsBin(Math.max(pageSize, width, height)));
+                pages.push({ width: 0, height: 0 });
+                rect = bins[page].insert(width, height, false);
+            }
+            rects[i] = { page: page, x: rect.x, y: rect.y };
+            pages[page].width = Math.max(pages[page].width, rect.x + width);
+            pages[page].height = Math.max(pages[page].height, rect.y + height);
+        });
+        return { pages: pages, rects: rects };
+    }
+    Chameleon.packRectsIntoPages = packRectsIntoPages;
+})(Chameleon || (Chameleon = {}));
+/// <reference path="./common.ts" />
+var Chameleon;
+(function (Chameleon) {
+    /**
+     * Writes a model in OBJ format
+     *
+     * @param uvs UVs of each face
+     * @param faceGroups objects and groups to divide the faces into, or null to write a single anonymous object
+     * @param mtlFileName material library that holds the material named materialName, which is used for all faces
+     */
+    function exportObj(geometry, uvs, faceGroups, mtlFileName, materialName) {
+        var lines = ['mtllib ' + mtlFileName];
+        geometry.vertices.forEach(function (vertex) { return lines.push('v ' + vertex.x + ' ' + vertex.y + ' ' + vertex.z); });
+        uvs.forEach(function (faceUvs) { return faceUvs.forEach(function (uv) { return lines.push('vt ' + uv.x + ' ' + uv.y); }); });
+        geometry.faces.forEach(function (face) {
+            for (var j = 0; j < 3; j += 1) {
+                var normal = face.vertexNormals[j] || face.normal;
+                lines.push('vn ' + normal.x + ' ' + normal.y + ' ' + normal.z);
+            }
+        });
+        var groupStartingAt = {};
+        (faceGroups || []).forEach(function (faceGroup) { return groupStartingAt[faceGroup.start] = faceGroup; });
+        var objectName = null, groupName = '';
+        geometry.faces.forEach(function (face, faceIndex) {
+            var faceGroup = groupStartingAt[faceIndex];
+            if (faceGroup) {
+                if (faceGroup.objectName !== objectName) {
+                    objectName = faceGroup.objectName;
+                    groupName = '';
+                    lines.push('o ' + (objectName || 'object'));
+                }
+                // Faces outside any group that follow a group go into the default group
+                if (faceGroup.groupName !== groupName) {
+                    groupName = faceGroup.groupName;
+                    lines.push('g ' + (groupName || 'default'));
+                }
+            }
+            if (faceIndex === 0 || faceGroup) {
+                lines.push('usemtl ' + materialName);
+            }
+            // Texture coordinates and normals are written per face vertex, in the same order as the faces
+            var j = faceIndex * 3 + 1;
+            lines.push('f ' + (face.a + 1) + '/' + j + '/' + j + ' ' + (face.b + 1) + '/' + (j + 1) + '/' + (j + 1) + ' ' + (face.c + 1) + '/' + (j + 2) + '/' + (j + 2));
+        });
+        return lines.join('\n') + '\n';
+    }
+    Chameleon.exportObj = exportObj;
+    /**
+     * Writes a material library with a single material, whose diffuse color comes from a texture image
+     */
+    function exportMtl(materialName, textureFileName) {
+        return [
+            'newmtl ' + materialName,
+            'Ka 1 1 1',
+            'Kd 1 1 1',
+            'Ks 0 0 0',
+            'd 1',
+            'illum 1',
+            'map_Kd ' + textureFileName
+        ].join('\n') + '\n';
+    }
+    Chameleon.exportMtl = exportMtl;
+})(Chameleon || (Chameleon = {}));
+/// <reference path="./common.ts" />
+/// <reference path="./layers.ts" />
+/// <reference path="./history.ts" />
+/// <reference path="./adjacency.ts" />
+/// <reference path="./rect-packer.ts" />
+/// <reference path="./obj-exporter.ts" />
+var Chameleon;
 (function (Chameleon) {
     var EPSILON = 1e-3;
+    /**
+     * A Lambert material that looks up its map by the screen position of each fragment, rather than by interpolated UVs.
+     * Interpolating screen-space UVs across a face gives a distorted image under perspective projection.
+     */
+    function createScreenSpaceMaterial(map, screenToUv) {
+        var lambert = THREE.ShaderLib['lambert'];
+        var uniforms = THREE.UniformsUtils.clone(lambert.uniforms);
+        uniforms.map.value = map;
+        // Maps normalized device coordinates to UVs of the map: uv = ndc * screenToUv.xy + screenToUv.zw
+        uniforms.screenToUv = { type: 'v4', value: screenToUv };
+        var vertexShader = lambert.vertexShader;
+        vertexShader = 'varying vec4 vScreenPosition;\n' + vertexShader.substr(0, vertexShader.lastIndexOf('}')) + 'vScreenPosition = gl_Position;\n}';
+        var fragmentShader = 'uniform vec4 screenToUv;\nvarying vec4 vScreenPosition;\n' + lambert.fragmentShader.replace('texture2D( map, vUv )', 'texture2D( map, vScreenPosition.xy / vScreenPosition.w * screenToUv.xy + screenToUv.zw )');
+        var material = new THREE.ShaderMaterial({
+            uniforms: uniforms,
+            vertexShader: vertexShader,
+            fragmentShader: fragmentShader,
+            lights: true,
+            transparent: true
+        });
+        // Makes WebGLRenderer define USE_MAP for the shaders
+        material.map = map;
+        return material;
+    }
+    function createPatchMaterial(canvas) {
+        var material = new THREE.MeshLambertMaterial({
+            map: new THREE.Texture(canvas),
+            transparent: true
+        });
+        material.map.needsUpdate = true;
+        return material;
+    }
+    /**
+     * The triangle (in pixels, as taken by drawTriangle) that UVs map to on a patch
+     */
+    function patchTriangle(image, uvs) {
+        return [
+            uvs[0].x * image.width,
+            (1 - uvs[0].y) * image.height,
+            uvs[1].x * image.width,
+            (1 - uvs[1].y) * image.height,
+            uvs[2].x * image.width,
+            (1 - uvs[2].y) * image.height
+        ];
+    }
+    function sampleBilinear(image, x, y, result) {
+        x = Math.min(Math.max(x - 0.5, 0), image.width - 1);
+        y = Math.min(Math.max(y - 0.5, 0), image.height - 1);
+        var x0 = Math.floor(x), y0 = Math.floor(y), x1 = Math.min(x0 + 1, image.width - 1), y1 = Math.min(y0 + 1, image.height - 1), fx = x - x0, fy = y - y0;
+        var i00 = (y0 * image.width + x0) * 4, i10 = (y0 * image.width + x1) * 4, i01 = (y1 * image.width + x0) * 4, i11 = (y1 * image.width + x1) * 4;
+        for (var c = 0; c < 4; c += 1) {
+            result[c] = (image.data[i00 + c] * (1 - fx) + image.data[i10 + c] * fx) * (1 - fy) + (image.data[i01 + c] * (1 - fx) + image.data[i11 + c] * fx) * fy;
+        }
+    }
     var AffectedFacesRecorder = (function () {
         function AffectedFacesRecorder(nFaces) {
             this._nAffectedFaces = 0;
@@ -251,6 +910,13 @@ var Chameleon;
         AffectedFacesRecorder.prototype.contains = function (faceIndex) {
             return !!this._isFaceAffected[faceIndex];
         };
+        AffectedFacesRecorder.prototype.toArray = function () {
+            var faceIndices = new Array(this._nAffectedFaces);
+            for (var i = 0; i < this._nAffectedFaces; i += 1) {
+                faceIndices[i] = this._affectedFaces[i];
+            }
+            return faceIndices;
+        };
         return AffectedFacesRecorder;
     })();
     (function (TextureInUse) {
@@ -263,44 +929,120 @@ var Chameleon;
      * Manages the drawing, viewing, and packed textures
      */
     var TextureManager = (function () {
-        // Assumption on geometry: material indices are same to face indices.
-        // This special treatment is implemented in the constructor of Controls
-        function TextureManager(mesh, renderer, camera) {
+        // The materialIndex of each face of the geometry is taken over: it is set to the render group of the face,
+        // as _updateRenderGroups assigns them
+        /**
+         * @param onProgress called with the fraction of preparation work done, which finishes asynchronously
+         * @param initialTexture image to start painting over, mapped by the UVs of the mesh's geometry
+         */
+        function TextureManager(mesh, renderer, camera, onProgress, initialTexture) {
+            var _this = this;
+            // Faces that share their materials in the viewing texture and in every layer are rendered together, in a
+            // single draw call. The materialIndex of each face is its render group.
+            this._viewingRenderMaterial = new THREE.MeshFaceMaterial();
+            this._isMeshRegroupNeeded = false;
+            this._isDrawingRegroupNeeded = false;
+            this._activeLayerIndex = 0;
+            this._nextLayerNumber = 1;
+            this._originalUvs = null;
+            // When there are other layers to show, the drawing texture shows _drawingCanvas between the layers below and above
+            this._isDrawingLayered = false;
+            this._drawingAboveCanvases = [];
+            this._drawingAboveLayers = [];
+            this._drawingRegion = new THREE.Box2(); // The area covered by the drawing texture, in NDC
+            this._drawingScreenToUv = new THREE.Vector4(0.5, 0.5, 0.5, 0.5);
+            this._drawingScreenOffset = new THREE.Vector2(); // Pixel position of the screen's top-left corner
             this._prePos = new THREE.Vector2();
             this._preIndex = 0;
-            this._backgroundSinglePixelCanvas = document.createElement('canvas');
+            this._isAdjacencyReady = false;
+            this._history = new Chameleon.EditHistory(50);
             this.backgroundColor = '#FFFFFF';
+            /**
+             * The drawing texture may extend beyond the screen, so that faces partly outside of it can still be painted.
+             * This is the largest width or height it may grow to.
+             */
+            this.maxDrawingTextureSize = 4096;
+            this._packingEfficiency = 0;
+            this._creaseAngle = 90;
+            this._creaseCosine = 0;
+            /**
+             * Keep a stroke on the surface it started on, i.e. the faces reachable from there without crossing a crease.
+             * Where the brush moves across another surface in front of it, neither surface is painted.
+             */
+            this.stayOnSurface = true;
+            this._packingPadding = 0;
+            /**
+             * Patches are compacted into pages of up to this many pixels across
+             */
+            this.compactionPageSize = 2048;
+            /**
+             * Patches are compacted automatically once there are more than this many that can be. 0 turns this off.
+             */
+            this.compactionThreshold = 64;
+            this._faceIdScene = null;
+            // The cosine of the angle between the normal of a face and the direction from it to the camera
+            this._cosineToCamera = (function () {
+                var toCamera = new THREE.Vector3();
+                return function (faceIndex) {
+                    var face = _this.geometry.faces[faceIndex];
+                    if (_this._camera instanceof THREE.PerspectiveCamera) {
+                        toCamera.subVectors(_this._camera.position, _this.geometry.vertices[face.a]);
+                    }
+                    else {
+                        // An orthographic camera looks along its negative z axis
+                        toCamera.set(0, 0, 1).applyQuaternion(_this._camera.quaternion);
+                    }
+                    return face.normal.dot(toCamera.normalize());
+                };
+            })();
             this._mesh = mesh;
             this._renderer = renderer;
             this._camera = camera;
             this._affectedFaces = new AffectedFacesRecorder(this.geometry.faces.length);
-            this._initializeViewingTexture()._initializePackedTexture()._initializeDrawingTexture()._applyViewingTexture();
+            // The geometry's UVs are replaced by those of the texture in use, so keep the ones it came with
+            var uvs = this.geometry.faceVertexUvs[0];
+            if (uvs && uvs.length === this.geometry.faces.length && uvs.every(function (faceUvs) { return faceUvs && faceUvs.length === 3; })) {
+                this._originalUvs = uvs.map(function (faceUvs) { return faceUvs.map(function (uv) { return uv.clone(); }); });
+            }
+            this._initializeViewingTexture(initialTexture)._initializePackedTexture()._initializeDrawingTexture()._applyViewingTexture();
             this._textureInUse = 0 /* Viewing */;
             this._isFloodFillEmpty = new Uint8Array(this.geometry.faces.length);
             this._isFloodFill = new Uint8Array(this.geometry.faces.length);
-            this._nAdjacentFaces = new Uint8Array(this.geometry.faces.length);
+            this._isOnStrokeSurface = new Uint8Array(this.geometry.faces.length);
+            var noAdjacentFaces = new Uint32Array(0);
             this._AdjacentFacesList = new Array(this.geometry.faces.length);
             for (var i = 0; i < this.geometry.faces.length; i += 1) {
-                this._AdjacentFacesList[i] = new Uint32Array(10);
-            }
-            for (var i = 0; i < this.geometry.faces.length - 1; i += 1) {
-                for (var j = i + 1; j < this.geometry.faces.length; j += 1) {
-                    var vi = [this.geometry.faces[i].a, this.geometry.faces[i].b, this.geometry.faces[i].c];
-                    var vj = [this.geometry.faces[j].a, this.geometry.faces[j].b, this.geometry.faces[j].c];
-                    var count = 0;
-                    for (var k = 0; k < 3; k++)
-                        for (var l = 0; l < 3; l++)
-                            if (this.geometry.vertices[vi[k]].x - this.geometry.vertices[vj[l]].x < EPSILON && this.geometry.vertices[vi[k]].x - this.geometry.vertices[vj[l]].x > -EPSILON && this.geometry.vertices[vi[k]].y - this.geometry.vertices[vj[l]].y < EPSILON && this.geometry.vertices[vi[k]].y - this.geometry.vertices[vj[l]].y > -EPSILON && this.geometry.vertices[vi[k]].z - this.geometry.vertices[vj[l]].z < EPSILON && this.geometry.vertices[vi[k]].z - this.geometry.vertices[vj[l]].z > -EPSILON && this.geometry.faces[i].normal.dot(this.geometry.faces[j].normal) > EPSILON)
-                                count++;
-                    if (count == 2) {
-                        this._AdjacentFacesList[i][this._nAdjacentFaces[i]] = j;
-                        this._AdjacentFacesList[j][this._nAdjacentFaces[j]] = i;
-                        this._nAdjacentFaces[i] += 1;
-                        this._nAdjacentFaces[j] += 1;
-                    }
-                }
+                this._AdjacentFacesList[i] = noAdjacentFaces;
             }
+            this._cancelAdjacency = Chameleon.buildFaceAdjacency(this.geometry, EPSILON, onProgress, function (adjacentFacesList) {
+                _this._AdjacentFacesList = adjacentFacesList;
+                _this._isAdjacencyReady = true;
+            });
         }
+        Object.defineProperty(TextureManager.prototype, "historyLimit", {
+            get: function () {
+                return this._history.limit;
+            },
+            set: function (value) {
+                this._history.limit = value;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(TextureManager.prototype, "canUndo", {
+            get: function () {
+                return this._history.canUndo;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(TextureManager.prototype, "canRedo", {
+            get: function () {
+                return this._history.canRedo;
+            },
+            enumerable: true,
+            configurable: true
+        });
         Object.defineProperty(TextureManager.prototype, "drawingContext", {
             get: function () {
                 return this._drawingCanvas.getContext('2d');
@@ -315,6 +1057,12 @@ var Chameleon;
             enumerable: true,
             configurable: true
         });
+        /**
+         * Converts a position on the screen canvas to a position on the drawing canvas
+         */
+        TextureManager.prototype.toDrawingPosition = function (screenPos) {
+            return screenPos.clone().add(this._drawingScreenOffset);
+        };
         Object.defineProperty(TextureManager.prototype, "geometry", {
             get: function () {
                 return this._mesh.geometry;
@@ -329,18 +1077,114 @@ var Chameleon;
             enumerable: true,
             configurable: true
         });
-        TextureManager.prototype.useViewingTexture = function () {
-            if (this._textureInUse !== 0 /* Viewing */) {
-                if (this._textureInUse === 1 /* Drawing */) {
-                    this._updateViewingFromDrawingTexture();
+        Object.defineProperty(TextureManager.prototype, "packedTextureUvs", {
+            get: function () {
+                return this._packedTextureUvs;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(TextureManager.prototype, "packingEfficiency", {
+            /**
+             * The fraction of the packed texture covered by patches, as of when it was last packed
+             */
+            get: function () {
+                return this._packingEfficiency;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(TextureManager.prototype, "originalUvs", {
+            /**
+             * The UVs that the model came with, or null if it had none
+             */
+            get: function () {
+                return this._originalUvs;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(TextureManager.prototype, "creaseAngle", {
+            /**
+             * Brush strokes do not spread across an edge where the normals of the adjacent faces differ by more than this
+             * angle (in degrees). 180 lets strokes spread across any edge.
+             */
+            get: function () {
+                return this._creaseAngle;
+            },
+            set: function (value) {
+                this._creaseAngle = value;
+                this._creaseCosine = Math.cos(value / 180 * Math.PI);
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(TextureManager.prototype, "packingPadding", {
+            /**
+             * Space in pixels that the packed texture leaves free around each patch
+             */
+            get: function () {
+                return this._packingPadding;
+            },
+            set: function (value) {
+                if (this._packingPadding !== value) {
+                    // The packed texture is laid out again the next time it is used
+                    this.useViewingTexture();
+                    this._packingPadding = value;
                 }
-                this._applyViewingTexture();
-                this._textureInUse = 0 /* Viewing */;
-            }
-            return this;
-        };
-        TextureManager.prototype.useDrawingTexture = function () {
-            if (this._textureInUse !== 1 /* Drawing */) {
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(TextureManager.prototype, "isReady", {
+            /**
+             * Whether face adjacency, which brush strokes need in order to spread across faces, has been computed
+             */
+            get: function () {
+                return this._isAdjacencyReady;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        /**
+         * Stops any preparation work still running in the background
+         */
+        TextureManager.prototype.dispose = function () {
+            this._cancelAdjacency();
+        };
+        Object.defineProperty(TextureManager.prototype, "camera", {
+            get: function () {
+                return this._camera;
+            },
+            /**
+             * Can be either an OrthographicCamera or a PerspectiveCamera
+             */
+            set: function (value) {
+                if (this._camera !== value) {
+                    // The drawing texture is only valid for the camera it was generated with
+                    this.useViewingTexture();
+                    this._camera = value;
+                }
+            },
+            enumerable: true,
+            configurable: true
+        });
+        TextureManager.prototype.useViewingTexture = function () {
+            if (this._textureInUse !== 0 /* Viewing */) {
+                if (this._textureInUse === 1 /* Drawing */) {
+                    this._updateViewingFromDrawingTexture();
+                }
+                var wasDrawing = (this._textureInUse === 1 /* Drawing */);
+                this._applyViewingTexture();
+                this._textureInUse = 0 /* Viewing */;
+                if (wasDrawing && this.compactionThreshold > 0 && this._collectPatchMaterials(true).length > this.compactionThreshold) {
+                    this.compact();
+                }
+            }
+            return this;
+        };
+        TextureManager.prototype.useDrawingTexture = function () {
+            if (this._textureInUse !== 1 /* Drawing */) {
                 this.useViewingTexture()._generateDrawingFromViewingTexture()._applyDrawingTexture();
                 this._textureInUse = 1 /* Drawing */;
             }
@@ -353,38 +1197,879 @@ var Chameleon;
             }
             return this;
         };
+        /**
+         * Fills the bottom layer with the background color and clears the layers above it
+         */
         TextureManager.prototype.backgroundReset = function () {
+            var _this = this;
             this.useViewingTexture();
-            var context = this._backgroundSinglePixelCanvas.getContext('2d');
-            context.beginPath();
-            context.fillStyle = this.backgroundColor;
-            context.fillRect(0, 0, 1, 1);
-            this._viewingBackgroundMaterial.map.needsUpdate = true;
-            for (var i = 0; i < this.geometry.faces.length; i += 1) {
-                this._viewingMaterial.materials[i] = this._viewingBackgroundMaterial;
-                for (var j = 0; j < this._viewingTextureUvs[i].length; j += 1) {
-                    this._viewingTextureUvs[i][j].set(0.5, 0.5);
+            var faceIndices = this._allFaceIndices();
+            // A new material is created instead of repainting the old one, so that undoing the reset
+            // brings back faces that still showed the previous background color
+            this._viewingBackgroundMaterial = this._createBackgroundMaterial();
+            var edits = this._layers.map(function (layer, layerIndex) {
+                var before = _this._snapshotFaces(layer, faceIndices);
+                var material = (layerIndex === 0) ? _this._viewingBackgroundMaterial : _this._transparentMaterial;
+                for (var i = 0; i < _this.geometry.faces.length; i += 1) {
+                    layer.material.materials[i] = material;
+                    for (var j = 0; j < layer.uvs[i].length; j += 1) {
+                        layer.uvs[i][j].set(0.5, 0.5);
+                    }
                 }
+                return new Chameleon.PatchEdit(layer, faceIndices, before, _this._snapshotFaces(layer, faceIndices));
+            });
+            this._compositeFaces(faceIndices);
+            this._history.push(edits);
+        };
+        TextureManager.prototype.undo = function () {
+            this.useViewingTexture();
+            var edits = this._history.undo();
+            if (!edits) {
+                return false;
+            }
+            for (var i = edits.length - 1; i >= 0; i -= 1) {
+                this._restoreFaces(edits[i].layer, edits[i].faceIndices, edits[i].before);
             }
+            return true;
         };
-        TextureManager.prototype._initializeViewingTexture = function () {
-            this._backgroundSinglePixelCanvas.width = this._backgroundSinglePixelCanvas.height = 1;
-            var context = this._backgroundSinglePixelCanvas.getContext('2d');
+        TextureManager.prototype.redo = function () {
+            this.useViewingTexture();
+            var edits = this._history.redo();
+            if (!edits) {
+                return false;
+            }
+            for (var i = 0; i < edits.length; i += 1) {
+                this._restoreFaces(edits[i].layer, edits[i].faceIndices, edits[i].after);
+            }
+            return true;
+        };
+        TextureManager.prototype.clearHistory = function () {
+            this._history.clear();
+        };
+        /**
+         * Makes the changes until endEditGroup a single step of the history
+         */
+        TextureManager.prototype.beginEditGroup = function () {
+            this._history.beginGroup();
+        };
+        TextureManager.prototype.endEditGroup = function () {
+            this._history.endGroup();
+        };
+        Object.defineProperty(TextureManager.prototype, "layers", {
+            /**
+             * The paint layers, from bottom to top. Change them through the methods below, which keep the viewing texture
+             * up to date.
+             */
+            get: function () {
+                return this._layers.slice();
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(TextureManager.prototype, "activeLayer", {
+            get: function () {
+                return this._layers[this._activeLayerIndex];
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(TextureManager.prototype, "activeLayerIndex", {
+            get: function () {
+                return this._activeLayerIndex;
+            },
+            /**
+             * Brush strokes go into the active layer
+             */
+            set: function (value) {
+                console.assert(0 <= value && value < this._layers.length);
+                if (this._activeLayerIndex !== value) {
+                    // The drawing texture only holds the active layer
+                    this.useViewingTexture();
+                    this._activeLayerIndex = value;
+                }
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(TextureManager.prototype, "canPaint", {
+            /**
+             * Whether brush strokes can go into the active layer, which they cannot when it is hidden or locked
+             */
+            get: function () {
+                return this.activeLayer.visible && !this.activeLayer.locked;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        /**
+         * Adds an empty layer above the active one, and makes it the active layer
+         * @returns the index of the new layer
+         */
+        TextureManager.prototype.addLayer = function (name) {
+            this.useViewingTexture();
+            var layer = new Chameleon.PaintLayer(name || this._nextLayerName(), this.geometry.faces.length, this._transparentMaterial);
+            this._activeLayerIndex += 1;
+            this._layers.splice(this._activeLayerIndex, 0, layer);
+            this._compositeFaces(this._allFaceIndices());
+            return this._activeLayerIndex;
+        };
+        /**
+         * Removes a layer, unless it is the only one. Edits of the removed layer could no longer be undone,
+         * so this clears the history.
+         */
+        TextureManager.prototype.removeLayer = function (index) {
+            if (this._layers.length <= 1) {
+                return false;
+            }
+            this.useViewingTexture();
+            this._layers.splice(index, 1);
+            if (this._activeLayerIndex > index || (this._activeLayerIndex === index && index > 0)) {
+                this._activeLayerIndex -= 1;
+            }
+            this._history.clear();
+            this._compositeFaces(this._allFaceIndices());
+            return true;
+        };
+        /**
+         * Moves a layer up or down the stack. The active layer stays active.
+         */
+        TextureManager.prototype.moveLayer = function (index, newIndex) {
+            console.assert(0 <= newIndex && newIndex < this._layers.length);
+            if (index === newIndex) {
+                return;
+            }
+            this.useViewingTexture();
+            var activeLayer = this.activeLayer;
+            var layer = this._layers.splice(index, 1)[0];
+            this._layers.splice(newIndex, 0, layer);
+            this._activeLayerIndex = this._layers.indexOf(activeLayer);
+            this._compositeFaces(this._allFaceIndices());
+        };
+        TextureManager.prototype.updateLayer = function (index, properties) {
+            this.useViewingTexture();
+            this._layers[index].setProperties(properties);
+            if (properties.visible !== undefined || properties.opacity !== undefined || properties.blendMode !== undefined) {
+                this._compositeFaces(this._allFaceIndices());
+            }
+        };
+        /**
+         * The paint layers in a form that can be saved, together with the patch images that they refer to
+         */
+        TextureManager.prototype.saveLayers = function () {
+            var _this = this;
+            this.useViewingTexture();
+            var patches = [];
+            var patchIndexOfMaterial = {};
+            var nFaces = this.geometry.faces.length;
+            var layers = this._layers.map(function (layer) {
+                var patchIndices = new Array(nFaces), uvs = new Array(nFaces * 6);
+                for (var i = 0; i < nFaces; i += 1) {
+                    var material = layer.material.materials[i];
+                    if (material === _this._transparentMaterial) {
+                        patchIndices[i] = -1;
+                    }
+                    else {
+                        if (!(material.id in patchIndexOfMaterial)) {
+                            patchIndexOfMaterial[material.id] = patches.length;
+                            patches.push(material.map.image);
+                        }
+                        patchIndices[i] = patchIndexOfMaterial[material.id];
+                    }
+                    for (var j = 0; j < 3; j += 1) {
+                        uvs[i * 6 + j * 2] = layer.uvs[i][j].x;
+                        uvs[i * 6 + j * 2 + 1] = layer.uvs[i][j].y;
+                    }
+                }
+                return {
+                    name: layer.name,
+                    visible: layer.visible,
+                    locked: layer.locked,
+                    opacity: layer.opacity,
+                    blendMode: layer.blendMode,
+                    patchIndices: patchIndices,
+                    uvs: uvs
+                };
+            });
+            return { layers: layers, patches: patches };
+        };
+        /**
+         * Replaces the paint layers with saved ones. This clears the history.
+         */
+        TextureManager.prototype.loadLayers = function (layers, patches, activeLayerIndex) {
+            var _this = this;
+            this.useViewingTexture();
+            var materials = patches.map(createPatchMaterial);
+            var nFaces = this.geometry.faces.length;
+            this._layers = layers.map(function (savedLayer) {
+                var layer = new Chameleon.PaintLayer(savedLayer.name, nFaces, _this._transparentMaterial);
+                layer.setProperties(savedLayer);
+                for (var i = 0; i < nFaces; i += 1) {
+                    if (savedLayer.patchIndices[i] >= 0) {
+                        layer.material.materials[i] = materials[savedLayer.patchIndices[i]];
+                    }
+                    for (var j = 0; j < 3; j += 1) {
+                        layer.uvs[i][j].set(savedLayer.uvs[i * 6 + j * 2], savedLayer.uvs[i * 6 + j * 2 + 1]);
+                    }
+                }
+                return layer;
+            });
+            this._activeLayerIndex = activeLayerIndex;
+            this._nextLayerNumber = this._layers.length + 1;
+            this._history.clear();
+            this._compositeFaces(this._allFaceIndices());
+        };
+        TextureManager.prototype._nextLayerName = function () {
+            var name = 'Layer ' + this._nextLayerNumber;
+            this._nextLayerNumber += 1;
+            return name;
+        };
+        TextureManager.prototype._allFaceIndices = function () {
+            var faceIndices = new Array(this.geometry.faces.length);
+            for (var i = 0; i < faceIndices.length; i += 1) {
+                faceIndices[i] = i;
+            }
+            return faceIndices;
+        };
+        TextureManager.prototype._snapshotFaces = function (layer, faceIndices) {
+            var snapshot = new Chameleon.FacePatchSnapshot(faceIndices.length);
+            for (var i = 0; i < faceIndices.length; i += 1) {
+                var faceIndex = faceIndices[i];
+                snapshot.materials[i] = layer.material.materials[faceIndex];
+                var layerUvs = layer.uvs[faceIndex];
+                for (var j = 0; j < 3; j += 1) {
+                    snapshot.uvs[i * 6 + j * 2] = layerUvs[j].x;
+                    snapshot.uvs[i * 6 + j * 2 + 1] = layerUvs[j].y;
+                }
+            }
+            return snapshot;
+        };
+        TextureManager.prototype._restoreFaces = function (layer, faceIndices, snapshot) {
+            console.assert(this._textureInUse === 0 /* Viewing */);
+            for (var i = 0; i < faceIndices.length; i += 1) {
+                var faceIndex = faceIndices[i];
+                layer.material.materials[faceIndex] = snapshot.materials[i];
+                var layerUvs = layer.uvs[faceIndex];
+                for (var j = 0; j < 3; j += 1) {
+                    layerUvs[j].set(snapshot.uvs[i * 6 + j * 2], snapshot.uvs[i * 6 + j * 2 + 1]);
+                }
+            }
+            this._compositeFaces(faceIndices);
+        };
+        /**
+         * The face under a position on the drawing canvas, or -1. The drawing texture must be in use.
+         */
+        TextureManager.prototype.faceIndexAt = function (drawingPos) {
+            console.assert(this._textureInUse === 1 /* Drawing */);
+            var intersections = this._castRayFromMouse(drawingPos);
+            return (intersections.length > 0) ? intersections[0].faceIndex : -1;
+        };
+        /**
+         * The color that the model shows at a position on the drawing canvas, as a CSS hex color, or null where there
+         * is no face or no paint. It is read from the patches of the viewing texture, so the drawing texture must be in
+         * use but not painted on.
+         */
+        TextureManager.prototype.colorAt = function (drawingPos) {
+            console.assert(this._textureInUse === 1 /* Drawing */);
+            var intersections = this._castRayFromMouse(drawingPos);
+            if (intersections.length === 0) {
+                return null;
+            }
+            var faceIndex = intersections[0].faceIndex;
+            var face = this.geometry.faces[faceIndex], vertices = this.geometry.vertices;
+            var barycoord = THREE.Triangle.barycoordFromPoint(intersections[0].point, vertices[face.a], vertices[face.b], vertices[face.c], new THREE.Vector3());
+            var material = this._viewingMaterial.materials[faceIndex];
+            var image = material.map.image;
+            var triangle = patchTriangle(image, this._viewingTextureUvs[faceIndex]);
+            var x = triangle[0] * barycoord.x + triangle[2] * barycoord.y + triangle[4] * barycoord.z, y = triangle[1] * barycoord.x + triangle[3] * barycoord.y + triangle[5] * barycoord.z;
+            x = Math.min(Math.max(Math.floor(x), 0), image.width - 1);
+            y = Math.min(Math.max(Math.floor(y), 0), image.height - 1);
+            var pixel = image.getContext('2d').getImageData(x, y, 1, 1).data;
+            if (pixel[3] === 0) {
+                return null;
+            }
+            return '#' + new THREE.Color(pixel[0] / 255, pixel[1] / 255, pixel[2] / 255).getHexString();
+        };
+        /**
+         * Fills a face and the faces connected to it in the active layer, as a single step of the history. Faces that
+         * face away from the camera or are off the screen are filled as well.
+         *
+         * @returns the number of faces filled
+         */
+        TextureManager.prototype.fill = function (faceIndex, options) {
+            this.useViewingTexture();
+            var layer = this.activeLayer;
+            var faceIndices = this._findFillRegion(layer, faceIndex, options);
+            var before = this._snapshotFaces(layer, faceIndices);
+            if (options.pattern) {
+                this._fillWithPattern(layer, faceIndices, options.pattern, options.patternScale || 1);
+            }
+            else {
+                var material = this._createSolidMaterial(options.color || '#000000');
+                faceIndices.forEach(function (faceIndex) {
+                    layer.material.materials[faceIndex] = material;
+                    layer.uvs[faceIndex].forEach(function (uv) { return uv.set(0.5, 0.5); });
+                });
+            }
+            this._history.push([new Chameleon.PatchEdit(layer, faceIndices, before, this._snapshotFaces(layer, faceIndices))]);
+            this._compositeFaces(faceIndices);
+            return faceIndices.length;
+        };
+        // Until the adjacency of faces is known, only the clicked face is filled
+        TextureManager.prototype._findFillRegion = function (layer, startFaceIndex, options) {
+            var creaseCosine = (options.creaseAngle === undefined) ? -Infinity : Math.cos(options.creaseAngle * Math.PI / 180);
+            var groupStart = 0, groupEnd = this.geometry.faces.length;
+            (options.faceGroups || []).forEach(function (faceGroup) {
+                if (faceGroup.start <= startFaceIndex && startFaceIndex < faceGroup.start + faceGroup.count) {
+                    groupStart = faceGroup.start;
+                    groupEnd = faceGroup.start + faceGroup.count;
+                }
+            });
+            var isSimilar = function (faceIndex) { return true; };
+            if (options.tolerance !== undefined) {
+                var faceColor = this._faceColorSampler(layer);
+                var startColor = faceColor(startFaceIndex);
+                isSimilar = function (faceIndex) {
+                    var color = faceColor(faceIndex);
+                    for (var c = 0; c < 4; c += 1) {
+                        if (Math.abs(color[c] - startColor[c]) > options.tolerance * 255) {
+                            return false;
+                        }
+                    }
+                    return true;
+                };
+            }
+            this._isFloodFill.set(this._isFloodFillEmpty);
+            this._isFloodFill[startFaceIndex] = 1;
+            var faceIndices = [startFaceIndex];
+            for (var i = 0; i < faceIndices.length; i += 1) {
+                var faceIndex = faceIndices[i];
+                var normal = this.geometry.faces[faceIndex].normal;
+                var adjacentFaces = this._AdjacentFacesList[faceIndex];
+                for (var j = 0; j < adjacentFaces.length; j += 1) {
+                    var adjacentFaceIndex = adjacentFaces[j];
+                    if (this._isFloodFill[adjacentFaceIndex] || adjacentFaceIndex < groupStart || adjacentFaceIndex >= groupEnd || normal.dot(this.geometry.faces[adjacentFaceIndex].normal) < creaseCosine || !isSimilar(adjacentFaceIndex)) {
+                        continue;
+                    }
+                    this._isFloodFill[adjacentFaceIndex] = 1;
+                    faceIndices.push(adjacentFaceIndex);
+                }
+            }
+            return faceIndices;
+        };
+        /**
+         * Returns a function that gives the average RGBA color of a face in a layer, from a few points on its patch
+         */
+        TextureManager.prototype._faceColorSampler = function (layer) {
+            var imageData = {};
+            var sample = new Float32Array(4);
+            return function (faceIndex) {
+                var material = layer.material.materials[faceIndex];
+                var image = material.map.image;
+                if (!imageData[material.id]) {
+                    imageData[material.id] = image.getContext('2d').getImageData(0, 0, image.width, image.height);
+                }
+                // The centroid, and the points halfway from it to each vertex
+                var triangle = patchTriangle(image, layer.uvs[faceIndex]);
+                var centerX = (triangle[0] + triangle[2] + triangle[4]) / 3, centerY = (triangle[1] + triangle[3] + triangle[5]) / 3;
+                var color = new Float32Array(4);
+                for (var j = 0; j < 4; j += 1) {
+                    var x = (j < 3) ? (centerX + triangle[j * 2]) / 2 : centerX, y = (j < 3) ? (centerY + triangle[j * 2 + 1]) / 2 : centerY;
+                    sampleBilinear(imageData[material.id], x, y, sample);
+                    for (var c = 0; c < 4; c += 1) {
+                        color[c] += sample[c] / 4;
+                    }
+                }
+                return color;
+            };
+        };
+        /**
+         * Gives the faces a patch of their own, with each face projected onto an axis-aligned plane and covered by the
+         * repeated pattern
+         */
+        TextureManager.prototype._fillWithPattern = function (layer, faceIndices, pattern, patternScale) {
+            var faces = this.geometry.faces, vertices = this.geometry.vertices;
+            var planeTriangles = faceIndices.map(function (faceIndex) {
+                var face = faces[faceIndex];
+                var nx = Math.abs(face.normal.x), ny = Math.abs(face.normal.y), nz = Math.abs(face.normal.z);
+                var triangle = [];
+                [face.a, face.b, face.c].forEach(function (vertexIndex) {
+                    var vertex = vertices[vertexIndex];
+                    if (nx >= ny && nx >= nz) {
+                        triangle.push(vertex.z, -vertex.y);
+                    }
+                    else if (ny >= nz) {
+                        triangle.push(vertex.x, vertex.z);
+                    }
+                    else {
+                        triangle.push(vertex.x, -vertex.y);
+                    }
+                });
+                return triangle;
+            });
+            // Pixels of the pattern per model unit, lowered until the patch fits into the largest size allowed.
+            // The margins around the faces do not shrink, so it may take a few tries, and after the last one the patch
+            // is used even if it is larger.
+            var pixelsPerUnit = pattern.width / patternScale;
+            for (var attempt = 0; attempt < 8; attempt += 1) {
+                var boxes = planeTriangles.map(function (triangle) {
+                    var xs = [triangle[0], triangle[2], triangle[4]].map(function (x) { return x * pixelsPerUnit; }), ys = [triangle[1], triangle[3], triangle[5]].map(function (y) { return y * pixelsPerUnit; });
+                    // With a pixel of margin, which filtering reaches into
+                    var x = Math.floor(Math.min.apply(Math, xs)) - 1, y = Math.floor(Math.min.apply(Math, ys)) - 1;
+                    return {
+                        x: x,
+                        y: y,
+                        width: Math.ceil(Math.max.apply(Math, xs)) + 1 - x,
+                        height: Math.ceil(Math.max.apply(Math, ys)) + 1 - y
+                    };
+                });
+                var packing = Chameleon.packRectsOnShelves(boxes);
+                if (packing.size <= this.maxDrawingTextureSize) {
+                    break;
+                }
+                pixelsPerUnit *= this.maxDrawingTextureSize / packing.size * 0.95;
+            }
+            var patchCanvas = document.createElement('canvas');
+            patchCanvas.width = patchCanvas.height = packing.size;
+            var patchContext = patchCanvas.getContext('2d');
+            patchContext.fillStyle = patchContext.createPattern(pattern, 'repeat');
+            // The pattern repeats from the origin of the plane, so faces on the same plane continue each other's pattern
+            var patternToPatch = pixelsPerUnit * patternScale / pattern.width;
+            var patchMaterial = createPatchMaterial(patchCanvas);
+            faceIndices.forEach(function (faceIndex, i) {
+                var box = boxes[i], rect = packing.rects[i];
+                patchContext.save();
+                patchContext.translate(rect.x - box.x, rect.y - box.y);
+                patchContext.scale(patternToPatch, patternToPatch);
+                patchContext.fillRect(box.x / patternToPatch, box.y / patternToPatch, box.width / patternToPatch, box.height / patternToPatch);
+                patchContext.restore();
+                layer.material.materials[faceIndex] = patchMaterial;
+                for (var j = 0; j < 3; j += 1) {
+                    layer.uvs[faceIndex][j].set((rect.x - box.x + planeTriangles[i][j * 2] * pixelsPerUnit) / packing.size, 1 - (rect.y - box.y + planeTriangles[i][j * 2 + 1] * pixelsPerUnit) / packing.size);
+                }
+            });
+        };
+        /**
+         * Paints an image laid over the screen onto the faces that show under it, in the active layer, as a single step
+         * of the history
+         *
+         * @param image of the same size as the screen canvas
+         * @returns the number of faces painted
+         */
+        TextureManager.prototype.projectImage = function (image, options) {
+            if (options === void 0) { options = {}; }
+            this.useViewingTexture();
+            this.useDrawingTexture();
+            var width = this._drawingCanvas.width, height = this._drawingCanvas.height;
+            var faceIds = this._renderFaceIds();
+            var minCosine = Math.cos((options.maxAngle === undefined ? 90 : options.maxAngle) * Math.PI / 180);
+            var isTowardCamera = new Int8Array(this.geometry.faces.length); // 0 while unknown, 1 if so, -1 if not
+            var projectedCanvas = document.createElement('canvas');
+            projectedCanvas.width = width;
+            projectedCanvas.height = height;
+            var projectedContext = projectedCanvas.getContext('2d');
+            projectedContext.drawImage(image, this._drawingScreenOffset.x, this._drawingScreenOffset.y);
+            var projected = projectedContext.getImageData(0, 0, width, height);
+            for (var i = 0; i < faceIds.length; i += 1) {
+                var faceIndex = faceIds[i] - 1;
+                if (projected.data[i * 4 + 3] === 0) {
+                    continue;
+                }
+                if (faceIndex < 0 || faceIndex >= isTowardCamera.length || !this._isFaceSeenAt(faceIndex, i % width, Math.floor(i / width))) {
+                    projected.data[i * 4 + 3] = 0;
+                    continue;
+                }
+                if (isTowardCamera[faceIndex] === 0) {
+                    isTowardCamera[faceIndex] = (this._cosineToCamera(faceIndex) >= minCosine) ? 1 : -1;
+                }
+                if (isTowardCamera[faceIndex] < 0) {
+                    projected.data[i * 4 + 3] = 0;
+                }
+                else {
+                    this._affectedFaces.add(faceIndex);
+                }
+            }
+            projectedContext.putImageData(projected, 0, 0);
+            var context = this.drawingContext;
+            context.save();
+            context.globalAlpha = (options.opacity === undefined) ? 1 : options.opacity;
+            context.drawImage(projectedCanvas, 0, 0);
+            context.restore();
+            var nFaces = this._affectedFaces.length;
+            this.useViewingTexture();
+            return nFaces;
+        };
+        /**
+         * Whether a pixel of the drawing canvas is close to the triangle of a face, which rules out the faces that the
+         * mixed colors at the edges of faces in _renderFaceIds happen to stand for
+         */
+        TextureManager.prototype._isFaceSeenAt = function (faceIndex, x, y) {
+            var uvs = this._drawingTextureUvs[faceIndex];
+            var width = this._drawingCanvas.width, height = this._drawingCanvas.height;
+            var xs = [uvs[0].x * width, uvs[1].x * width, uvs[2].x * width], ys = [(1 - uvs[0].y) * height, (1 - uvs[1].y) * height, (1 - uvs[2].y) * height];
+            return Math.min(xs[0], xs[1], xs[2]) - 2 <= x && x <= Math.max(xs[0], xs[1], xs[2]) + 2 && Math.min(ys[0], ys[1], ys[2]) - 2 <= y && y <= Math.max(ys[0], ys[1], ys[2]) + 2;
+        };
+        /**
+         * Redraws the patches that the layers, the viewing texture and the history refer to into a few large pages.
+         * This frees the many small canvases and materials that painting piles up. Patches larger than a quarter of a
+         * page are left as they are.
+         */
+        TextureManager.prototype.compact = function () {
+            this.useViewingTexture();
+            var materials = this._collectPatchMaterials(true);
+            if (materials.length < 2) {
+                return;
+            }
+            // Around each patch, filled with its edge pixels, so that filtering does not pick up the patches next to it
+            var padding = 2;
+            var images = materials.map(function (material) { return material.map.image; });
+            var packing = Chameleon.packRectsIntoPages(images.map(function (image) { return ({
+                width: image.width + 2 * padding,
+                height: image.height + 2 * padding
+            }); }), this.compactionPageSize);
+            var pages = packing.pages.map(function (page) {
+                var canvas = document.createElement('canvas');
+                canvas.width = page.width;
+                canvas.height = page.height;
+                return canvas;
+            });
+            var movedPatches = {};
+            var pageMaterials = [];
+            materials.forEach(function (material, i) {
+                var image = images[i], rect = packing.rects[i], page = pages[rect.page];
+                var x = rect.x + padding, y = rect.y + padding;
+                var context = page.getContext('2d');
+                context.save();
+                context.beginPath();
+                context.rect(rect.x, rect.y, image.width + 2 * padding, image.height + 2 * padding);
+                context.clip();
+                for (var d = padding; d > 0; d -= 1) {
+                    for (var dx = -d; dx <= d; dx += d) {
+                        for (var dy = -d; dy <= d; dy += d) {
+                            context.drawImage(image, x + dx, y + dy);
+                        }
+                    }
+                }
+                context.clearRect(x, y, image.width, image.height);
+                context.drawImage(image, x, y);
+                context.restore();
+                if (!pageMaterials[rect.page]) {
+                    pageMaterials[rect.page] = createPatchMaterial(page);
+                }
+                movedPatches[material.id] = {
+                    material: pageMaterials[rect.page],
+                    x: x,
+                    y: y,
+                    width: image.width,
+                    height: image.height,
+                    pageWidth: page.width,
+                    pageHeight: page.height
+                };
+            });
+            // Patches are clamped to their edges, so UVs beyond them are too
+            var moveUv = function (materialId, uv) {
+                var moved = movedPatches[materialId];
+                var u = Math.min(Math.max(uv.x, 0), 1), v = Math.min(Math.max(uv.y, 0), 1);
+                uv.set((moved.x + u * moved.width) / moved.pageWidth, 1 - (moved.y + (1 - v) * moved.height) / moved.pageHeight);
+            };
+            var faceMaterialsAndUvs = this._layers.map(function (layer) { return ({ materials: layer.material.materials, uvs: layer.uvs }); });
+            faceMaterialsAndUvs.push({ materials: this._viewingMaterial.materials, uvs: this._viewingTextureUvs });
+            faceMaterialsAndUvs.forEach(function (faces) {
+                for (var faceIndex = 0; faceIndex < faces.materials.length; faceIndex += 1) {
+                    var materialId = faces.materials[faceIndex].id;
+                    if (materialId in movedPatches) {
+                        faces.materials[faceIndex] = movedPatches[materialId].material;
+                        faces.uvs[faceIndex].forEach(function (uv) { return moveUv(materialId, uv); });
+                    }
+                }
+            });
+            var uv = new THREE.Vector2();
+            this._history.forEachEdit(function (edit) { return [edit.before, edit.after].forEach(function (snapshot) {
+                for (var i = 0; i < snapshot.materials.length; i += 1) {
+                    var materialId = snapshot.materials[i].id;
+                    if (materialId in movedPatches) {
+                        snapshot.materials[i] = movedPatches[materialId].material;
+                        for (var k = i * 6; k < i * 6 + 6; k += 2) {
+                            moveUv(materialId, uv.set(snapshot.uvs[k], snapshot.uvs[k + 1]));
+                            snapshot.uvs[k] = uv.x;
+                            snapshot.uvs[k + 1] = uv.y;
+                        }
+                    }
+                }
+            }); });
+            if (this._viewingBackgroundMaterial.id in movedPatches) {
+                this._viewingBackgroundMaterial = (movedPatches[this._viewingBackgroundMaterial.id].material);
+            }
+            // Nothing refers to the old patches any more
+            materials.forEach(function (material) {
+                material.map.dispose();
+                material.dispose();
+            });
+            this.geometry.uvsNeedUpdate = true;
+            this._updateRenderGroups();
+        };
+        /**
+         * The distinct patch materials that the layers, the viewing texture and the history refer to
+         * @param compactibleOnly leave out the patches that compact leaves as they are
+         */
+        TextureManager.prototype._collectPatchMaterials = function (compactibleOnly) {
+            var _this = this;
+            if (compactibleOnly === void 0) { compactibleOnly = false; }
+            var materials = [];
+            var isCollected = {};
+            isCollected[this._transparentMaterial.id] = true;
+            var collect = function (material) {
+                if (isCollected[material.id]) {
+                    return;
+                }
+                isCollected[material.id] = true;
+                var image = material.map.image;
+                if (!compactibleOnly || (image.width <= _this.compactionPageSize / 2 && image.height <= _this.compactionPageSize / 2)) {
+                    materials.push(material);
+                }
+            };
+            this._layers.forEach(function (layer) { return layer.material.materials.forEach(collect); });
+            this._viewingMaterial.materials.forEach(collect);
+            this._history.forEachEdit(function (edit) {
+                edit.before.materials.forEach(collect);
+                edit.after.materials.forEach(collect);
+            });
+            return materials;
+        };
+        /**
+         * Updates the viewing texture of the given faces to show the composite of the visible layers over the
+         * background color
+         */
+        TextureManager.prototype._compositeFaces = function (faceIndices) {
+            var _this = this;
+            var visibleLayers = this._layers.filter(function (layer) { return layer.visible && layer.opacity > 0; });
+            // Faces whose patches come from the same materials in every layer are composited together
+            var groups = Object.create(null);
+            for (var i = 0; i < faceIndices.length; i += 1) {
+                var faceIndex = faceIndices[i];
+                var key = visibleLayers.map(function (layer) { return layer.material.materials[faceIndex].id; }).join(',');
+                if (!groups[key]) {
+                    groups[key] = [];
+                }
+                groups[key].push(faceIndex);
+            }
+            for (var groupKey in groups) {
+                var groupFaceIndices = groups[groupKey];
+                var groupLayers = visibleLayers.filter(function (layer) { return layer.material.materials[groupFaceIndices[0]] !== _this._transparentMaterial; });
+                if (groupLayers.length === 1 && groupLayers[0] === this._layers[0] && groupLayers[0].isPlain) {
+                    // Only the bottom layer, which is opaque, shows on these faces, so its patch can be used as is
+                    this._copyFacesFromLayer(groupLayers[0], groupFaceIndices);
+                }
+                else {
+                    this._compositeFaceGroup(groupLayers, groupFaceIndices);
+                }
+            }
+            this.geometry.uvsNeedUpdate = true;
+            this._updateRenderGroups();
+        };
+        /**
+         * Groups the faces by their materials in the viewing texture and in every layer, and gives the viewing texture
+         * and each layer a material per group to render with
+         */
+        TextureManager.prototype._updateRenderGroups = function () {
+            var faces = this.geometry.faces;
+            var groupOfKey = Object.create(null);
+            var viewingMaterials = [];
+            var layerMaterials = this._layers.map(function () { return []; });
+            var isRegrouped = false;
+            for (var faceIndex = 0; faceIndex < faces.length; faceIndex += 1) {
+                var key = String(this._viewingMaterial.materials[faceIndex].id);
+                for (var i = 0; i < this._layers.length; i += 1) {
+                    key += ',' + this._layers[i].material.materials[faceIndex].id;
+                }
+                var group = groupOfKey[key];
+                if (group === undefined) {
+                    group = groupOfKey[key] = viewingMaterials.length;
+                    viewingMaterials.push(this._viewingMaterial.materials[faceIndex]);
+                    for (var i = 0; i < this._layers.length; i += 1) {
+                        layerMaterials[i].push(this._layers[i].material.materials[faceIndex]);
+                    }
+                }
+                if (faces[faceIndex].materialIndex !== group) {
+                    faces[faceIndex].materialIndex = group;
+                    isRegrouped = true;
+                }
+            }
+            this._viewingRenderMaterial.materials = viewingMaterials;
+            this._layers.forEach(function (layer, i) { return layer.renderMaterial.materials = layerMaterials[i]; });
+            if (isRegrouped) {
+                this._isMeshRegroupNeeded = this._isDrawingRegroupNeeded = true;
+                this._regroupMeshIfNeeded();
+            }
+        };
+        // WebGLRenderer groups the faces again once the geometry is disposed of, which also frees the buffers of the old
+        // groups. The groups only follow the materialIndex of the faces while a MeshFaceMaterial is in use.
+        TextureManager.prototype._regroupMeshIfNeeded = function () {
+            if (this._isMeshRegroupNeeded && this._mesh.material === this._viewingRenderMaterial) {
+                this.geometry.dispose();
+                this._isMeshRegroupNeeded = false;
+            }
+        };
+        TextureManager.prototype._copyFacesFromLayer = function (layer, faceIndices) {
+            for (var i = 0; i < faceIndices.length; i += 1) {
+                var faceIndex = faceIndices[i];
+                this._viewingMaterial.materials[faceIndex] = layer.material.materials[faceIndex];
+                for (var j = 0; j < 3; j += 1) {
+                    this._viewingTextureUvs[faceIndex][j].copy(layer.uvs[faceIndex][j]);
+                }
+            }
+        };
+        // Assumption: each of the layers uses the same patch for all of the faces
+        TextureManager.prototype._compositeFaceGroup = function (layers, faceIndices) {
+            var images = layers.map(function (layer) { return layer.material.materials[faceIndices[0]].map.image; });
+            // The composite is laid out like the largest of the patches, so that none of them loses detail
+            var referenceIndex = -1, referenceArea = 1;
+            for (var i = 0; i < images.length; i += 1) {
+                if (images[i].width * images[i].height > referenceArea) {
+                    referenceIndex = i;
+                    referenceArea = images[i].width * images[i].height;
+                }
+            }
+            // It only covers the faces, as a patch may also hold other faces, e.g. when it is a page of compacted patches
+            var cropX = 0, cropY = 0, compositeWidth = 1, compositeHeight = 1;
+            var compositeUvs;
+            if (referenceIndex >= 0) {
+                var reference = images[referenceIndex], referenceUvs = layers[referenceIndex].uvs;
+                var xMin = Infinity, yMin = Infinity, xMax = -Infinity, yMax = -Infinity;
+                faceIndices.forEach(function (faceIndex) {
+                    var triangle = patchTriangle(reference, referenceUvs[faceIndex]);
+                    for (var j = 0; j < 6; j += 2) {
+                        xMin = Math.min(xMin, triangle[j]);
+                        xMax = Math.max(xMax, triangle[j]);
+                        yMin = Math.min(yMin, triangle[j + 1]);
+                        yMax = Math.max(yMax, triangle[j + 1]);
+                    }
+                });
+                // With a pixel of margin, which filtering reaches into
+                cropX = Math.min(Math.max(Math.floor(xMin) - 1, 0), reference.width - 1);
+                cropY = Math.min(Math.max(Math.floor(yMin) - 1, 0), reference.height - 1);
+                compositeWidth = Math.max(Math.min(Math.ceil(xMax) + 1, reference.width) - cropX, 1);
+                compositeHeight = Math.max(Math.min(Math.ceil(yMax) + 1, reference.height) - cropY, 1);
+                compositeUvs = faceIndices.map(function (faceIndex) { return referenceUvs[faceIndex].map(function (uv) { return new THREE.Vector2((uv.x * reference.width - cropX) / compositeWidth, 1 - ((1 - uv.y) * reference.height - cropY) / compositeHeight); }); });
+            }
+            else {
+                compositeUvs = faceIndices.map(function () { return [
+                    new THREE.Vector2(0.5, 0.5),
+                    new THREE.Vector2(0.5, 0.5),
+                    new THREE.Vector2(0.5, 0.5)
+                ]; });
+            }
+            var compositeCanvas = document.createElement('canvas');
+            compositeCanvas.width = compositeWidth;
+            compositeCanvas.height = compositeHeight;
+            var compositeContext = compositeCanvas.getContext('2d');
+            compositeContext.fillStyle = this.backgroundColor;
+            compositeContext.fillRect(0, 0, compositeCanvas.width, compositeCanvas.height);
+            var layerCanvas = document.createElement('canvas');
+            layerCanvas.width = compositeCanvas.width;
+            layerCanvas.height = compositeCanvas.height;
+            var layerContext = layerCanvas.getContext('2d');
+            for (var i = 0; i < layers.length; i += 1) {
+                var image = images[i];
+                if (referenceIndex >= 0 && i !== referenceIndex) {
+                    // Lay out the patch like the composite, one face at a time
+                    layerContext.clearRect(0, 0, layerCanvas.width, layerCanvas.height);
+                    for (var j = 0; j < faceIndices.length; j += 1) {
+                        Chameleon.drawTriangle(layerContext, image, patchTriangle(image, layers[i].uvs[faceIndices[j]]), patchTriangle(compositeCanvas, compositeUvs[j]));
+                    }
+                    image = layerCanvas;
+                }
+                compositeContext.globalAlpha = layers[i].opacity;
+                compositeContext.globalCompositeOperation = layers[i].blendMode;
+                if (i === referenceIndex) {
+                    compositeContext.drawImage(image, -cropX, -cropY);
+                }
+                else {
+                    compositeContext.drawImage(image, 0, 0);
+                }
+            }
+            var compositeMaterial = createPatchMaterial(compositeCanvas);
+            for (var i = 0; i < faceIndices.length; i += 1) {
+                var faceIndex = faceIndices[i];
+                this._viewingMaterial.materials[faceIndex] = compositeMaterial;
+                for (var j = 0; j < 3; j += 1) {
+                    this._viewingTextureUvs[faceIndex][j].copy(compositeUvs[i][j]);
+                }
+            }
+        };
+        /**
+         * Draws a layer on its own, laid out like the packed texture. The packed texture must be in use.
+         */
+        TextureManager.prototype.packLayer = function (index) {
+            console.assert(this._textureInUse === 2 /* Packed */);
+            var layer = this._layers[index];
+            var canvas = document.createElement('canvas');
+            canvas.width = this._packedTextureCanvas.width;
+            canvas.height = this._packedTextureCanvas.height;
+            var context = canvas.getContext('2d');
+            for (var faceIndex = 0; faceIndex < this.geometry.faces.length; faceIndex += 1) {
+                var material = layer.material.materials[faceIndex];
+                if (material === this._transparentMaterial) {
+                    continue;
+                }
+                var image = material.map.image;
+                Chameleon.drawTriangle(context, image, patchTriangle(image, layer.uvs[faceIndex]), patchTriangle(canvas, this._packedTextureUvs[faceIndex]));
+            }
+            return canvas;
+        };
+        /**
+         * Draws the viewing texture, or a single layer, laid out by the UVs that the model came with.
+         * Each face is moved into the [0, 1] UV square by whole units, so tiled UVs are baked into a single tile.
+         */
+        TextureManager.prototype.bakeToOriginalUvs = function (width, height, layerIndex) {
+            console.assert(this._originalUvs !== null);
+            this.useViewingTexture();
+            var materials = (layerIndex === undefined) ? this._viewingMaterial.materials : this._layers[layerIndex].material.materials;
+            var uvs = (layerIndex === undefined) ? this._viewingTextureUvs : this._layers[layerIndex].uvs;
+            var canvas = document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+            var context = canvas.getContext('2d');
+            for (var faceIndex = 0; faceIndex < this.geometry.faces.length; faceIndex += 1) {
+                var material = materials[faceIndex];
+                if (material === this._transparentMaterial) {
+                    continue;
+                }
+                var image = material.map.image;
+                Chameleon.drawTriangle(context, image, patchTriangle(image, uvs[faceIndex]), patchTriangle(canvas, this._originalUvsInUnitSquare(faceIndex)));
+            }
+            return canvas;
+        };
+        /**
+         * The original UVs of a face, moved by whole units so that the face starts in the [0, 1] UV square
+         */
+        TextureManager.prototype._originalUvsInUnitSquare = function (faceIndex) {
+            var uvs = this._originalUvs[faceIndex];
+            var offset = new THREE.Vector2(Math.floor(Math.min(uvs[0].x, uvs[1].x, uvs[2].x)), Math.floor(Math.min(uvs[0].y, uvs[1].y, uvs[2].y)));
+            return uvs.map(function (uv) { return uv.clone().sub(offset); });
+        };
+        TextureManager.prototype._createBackgroundMaterial = function () {
+            return this._createSolidMaterial(this.backgroundColor);
+        };
+        TextureManager.prototype._createSolidMaterial = function (color) {
+            var canvas = document.createElement('canvas');
+            canvas.width = canvas.height = 1;
+            var context = canvas.getContext('2d');
             context.beginPath();
-            context.fillStyle = this.backgroundColor;
+            context.fillStyle = color;
             context.fillRect(0, 0, 1, 1);
+            return createPatchMaterial(canvas);
+        };
+        /**
+         * @param initialTexture image that the bottom layer starts with, mapped by the original UVs
+         */
+        TextureManager.prototype._initializeViewingTexture = function (initialTexture) {
             this._viewingTextureUvs = [];
             this._viewingMaterial = new THREE.MeshFaceMaterial();
-            this._viewingBackgroundMaterial = new THREE.MeshLambertMaterial({
-                map: new THREE.Texture(this._backgroundSinglePixelCanvas),
-                transparent: true
-            });
-            this._viewingBackgroundMaterial.map.needsUpdate = true;
+            this._viewingBackgroundMaterial = this._createBackgroundMaterial();
+            this._transparentMaterial = this._createSolidMaterial('rgba(0, 0, 0, 0)');
             var faces = this.geometry.faces;
             for (var i = 0; i < faces.length; i += 1) {
-                // Set the materialIndex to be the face index
-                // TextureManager requires this special treatment to work
-                faces[i].materialIndex = i;
+                faces[i].materialIndex = 0;
                 this._viewingTextureUvs.push([
                     new THREE.Vector2(0.5, 0.5),
                     new THREE.Vector2(0.5, 0.5),
@@ -392,6 +2077,30 @@ var Chameleon;
                 ]);
                 this._viewingMaterial.materials.push(this._viewingBackgroundMaterial);
             }
+            this._layers = [
+                new Chameleon.PaintLayer(this._nextLayerName(), faces.length, this._viewingBackgroundMaterial)
+            ];
+            if (initialTexture && !this._originalUvs) {
+                console.warn('The model has no UVs to map the texture with, so it starts blank');
+            }
+            else if (initialTexture) {
+                // The whole image becomes a single patch. UVs that cross the edge of the image are clamped to it.
+                var textureCanvas = document.createElement('canvas');
+                textureCanvas.width = initialTexture.width;
+                textureCanvas.height = initialTexture.height;
+                textureCanvas.getContext('2d').drawImage(initialTexture, 0, 0);
+                var textureMaterial = createPatchMaterial(textureCanvas);
+                var baseLayer = this._layers[0];
+                for (var i = 0; i < faces.length; i += 1) {
+                    baseLayer.material.materials[i] = textureMaterial;
+                    var uvs = this._originalUvsInUnitSquare(i);
+                    for (var j = 0; j < 3; j += 1) {
+                        baseLayer.uvs[i][j].copy(uvs[j]);
+                    }
+                }
+                this._compositeFaces(this._allFaceIndices());
+            }
+            this._updateRenderGroups();
             return this;
         };
         // Depends on the initialization of viewing texture
@@ -409,12 +2118,18 @@ var Chameleon;
                     new THREE.Vector2()
                 ]);
             }
+            this._drawingVertexWs = new Float32Array(this.geometry.vertices.length);
             this._drawingCanvas = document.createElement('canvas');
-            this._drawingMaterial = new THREE.MeshLambertMaterial({
-                map: new THREE.Texture(this._drawingCanvas),
-                transparent: true
-            });
-            this._drawingTextureMesh = new THREE.Mesh(this.geometry, this._viewingMaterial);
+            this._drawingDisplayCanvas = document.createElement('canvas');
+            this._drawingBelowCanvas = document.createElement('canvas');
+            this._drawingTexture = new THREE.Texture(this._drawingCanvas);
+            this._drawingMaterial = createScreenSpaceMaterial(this._drawingTexture, this._drawingScreenToUv);
+            // The faces are the same, but WebGLRenderer only regroups them properly for a geometry with a single mesh
+            this._drawingGeometry = new THREE.Geometry();
+            this._drawingGeometry.vertices = this.geometry.vertices;
+            this._drawingGeometry.faces = this.geometry.faces;
+            this._drawingGeometry.faceVertexUvs = [this._viewingTextureUvs];
+            this._drawingTextureMesh = new THREE.Mesh(this._drawingGeometry, this._viewingRenderMaterial);
             this._drawingTextureScene = new THREE.Scene();
             this._drawingTextureScene.add(new THREE.AmbientLight(0xFFFFFF));
             this._drawingTextureScene.add(this._drawingTextureMesh);
@@ -454,31 +2169,93 @@ var Chameleon;
                 patchCanvas.width = xMax - xMin;
                 patchCanvas.height = yMax - yMin;
                 patchCanvas.getContext('2d').drawImage(this._drawingCanvas, xMin, yMin, patchCanvas.width, patchCanvas.height, 0, 0, patchCanvas.width, patchCanvas.height);
-                var patchMaterial = new THREE.MeshLambertMaterial({
-                    map: new THREE.Texture(patchCanvas),
-                    transparent: true
-                });
-                patchMaterial.map.needsUpdate = true;
+                if (this._camera instanceof THREE.PerspectiveCamera) {
+                    this._rectifyPerspectivePatch(patchCanvas, xMin, yMin);
+                }
+                var patchMaterial = createPatchMaterial(patchCanvas);
+                var layer = this.activeLayer;
+                var faceIndices = this._affectedFaces.toArray();
+                var before = this._snapshotFaces(layer, faceIndices);
                 this._affectedFaces.forEach(function (faceIndex) {
-                    _this._viewingMaterial.materials[faceIndex] = patchMaterial;
+                    layer.material.materials[faceIndex] = patchMaterial;
                     var drawingUvs = _this._drawingTextureUvs[faceIndex];
-                    var viewingUvs = _this._viewingTextureUvs[faceIndex];
+                    var layerUvs = layer.uvs[faceIndex];
                     for (var j = 0; j < 3; j += 1) {
                         var drawingUV = drawingUvs[j];
-                        viewingUvs[j].setX((drawingUV.x - uMin) * (_this._drawingCanvas.width) / patchCanvas.width).setY((drawingUV.y - vMin) * (_this._drawingCanvas.height) / patchCanvas.height);
+                        layerUvs[j].setX((drawingUV.x - uMin) * (_this._drawingCanvas.width) / patchCanvas.width).setY((drawingUV.y - vMin) * (_this._drawingCanvas.height) / patchCanvas.height);
+                    }
+                });
+                this._history.push([new Chameleon.PatchEdit(layer, faceIndices, before, this._snapshotFaces(layer, faceIndices))]);
+                this._compositeFaces(faceIndices);
+                this._affectedFaces.reset();
+            }
+            return this;
+        };
+        /**
+         * Viewing textures are mapped with ordinary UVs, which the GPU interpolates perspective-correctly across each face.
+         * Under a perspective camera, the patch cut from the drawing texture is instead a perspective projection of the
+         * face, so each face's triangle is resampled to the image that it will be mapped with.
+         */
+        TextureManager.prototype._rectifyPerspectivePatch = function (patchCanvas, xMin, yMin) {
+            var _this = this;
+            var patchContext = patchCanvas.getContext('2d');
+            var source = patchContext.getImageData(0, 0, patchCanvas.width, patchCanvas.height);
+            var target = patchContext.getImageData(0, 0, patchCanvas.width, patchCanvas.height);
+            var color = new Float32Array(4);
+            var px = new Float32Array(3), py = new Float32Array(3), pw = new Float32Array(3);
+            this._affectedFaces.forEach(function (faceIndex) {
+                var face = _this.geometry.faces[faceIndex];
+                var drawingUvs = _this._drawingTextureUvs[faceIndex];
+                var vertexIndices = [face.a, face.b, face.c];
+                for (var j = 0; j < 3; j += 1) {
+                    px[j] = drawingUvs[j].x * _this._drawingCanvas.width - xMin;
+                    py[j] = (1 - drawingUvs[j].y) * _this._drawingCanvas.height - yMin;
+                    pw[j] = _this._drawingVertexWs[vertexIndices[j]];
+                }
+                var area = (px[1] - px[0]) * (py[2] - py[0]) - (px[2] - px[0]) * (py[1] - py[0]);
+                if (pw[0] <= 0 || pw[1] <= 0 || pw[2] <= 0 || Math.abs(area) < EPSILON) {
+                    return; // Behind the camera, or seen edge-on
+                }
+                // Distance (in pixels) from each vertex to its opposite edge, used to grow the triangle by one pixel,
+                // so that no seams appear between neighbouring faces
+                var heights = new Float32Array(3);
+                for (var j = 0; j < 3; j += 1) {
+                    var k = (j + 1) % 3, l = (j + 2) % 3;
+                    heights[j] = Math.abs(area) / Math.sqrt((px[l] - px[k]) * (px[l] - px[k]) + (py[l] - py[k]) * (py[l] - py[k]));
+                }
+                var xStart = Math.max(Math.floor(Math.min(px[0], px[1], px[2])) - 1, 0), xEnd = Math.min(Math.ceil(Math.max(px[0], px[1], px[2])) + 1, patchCanvas.width), yStart = Math.max(Math.floor(Math.min(py[0], py[1], py[2])) - 1, 0), yEnd = Math.min(Math.ceil(Math.max(py[0], py[1], py[2])) + 1, patchCanvas.height);
+                for (var y = yStart; y < yEnd; y += 1) {
+                    for (var x = xStart; x < xEnd; x += 1) {
+                        var cx = x + 0.5, cy = y + 0.5;
+                        var b0 = ((px[1] - cx) * (py[2] - cy) - (px[2] - cx) * (py[1] - cy)) / area, b1 = ((px[2] - cx) * (py[0] - cy) - (px[0] - cx) * (py[2] - cy)) / area, b2 = 1 - b0 - b1;
+                        if (b0 * heights[0] < -1 || b1 * heights[1] < -1 || b2 * heights[2] < -1) {
+                            continue;
+                        }
+                        // The viewing texture maps barycentric coordinates of the face linearly into this patch, while
+                        // the drawing texture saw the same point at its perspective-projected position
+                        var w0 = b0 * pw[0], w1 = b1 * pw[1], w2 = b2 * pw[2], wSum = w0 + w1 + w2;
+                        if (wSum <= 0) {
+                            continue;
+                        }
+                        sampleBilinear(source, (w0 * px[0] + w1 * px[1] + w2 * px[2]) / wSum, (w0 * py[0] + w1 * py[1] + w2 * py[2]) / wSum, color);
+                        var index = (y * target.width + x) * 4;
+                        for (var c = 0; c < 4; c += 1) {
+                            target.data[index + c] = color[c];
+                        }
                     }
-                });
-                this._affectedFaces.reset();
-            }
-            return this;
+                }
+            });
+            patchContext.putImageData(target, 0, 0);
         };
         TextureManager.prototype._applyViewingTexture = function () {
-            this._mesh.material = this._viewingMaterial;
+            this._mesh.material = this._viewingRenderMaterial;
+            this._regroupMeshIfNeeded();
             this._mesh.geometry.faceVertexUvs[0] = this._viewingTextureUvs;
             this._mesh.geometry.uvsNeedUpdate = true;
             return this;
         };
         TextureManager.prototype._generatePackedFromViewingTexture = function () {
+            var _this = this;
             var patches = [];
             for (var faceIndex = 0; faceIndex < this.geometry.faces.length; faceIndex += 1) {
                 var faceCanvas = this._viewingMaterial.materials[faceIndex].map.image;
@@ -492,76 +2269,51 @@ var Chameleon;
                 if (patchIndex === patches.length) {
                     patches.push({
                         canvas: faceCanvas,
-                        isRotated: false,
                         faceIndices: [faceIndex]
                     });
                 }
             }
-            var patchTotalArea = 0;
-            for (var patchIndex = 0; patchIndex < patches.length; patchIndex += 1) {
-                var patch = patches[patchIndex];
-                patchTotalArea += patch.canvas.width * patch.canvas.height;
-                if (patch.canvas.width > patch.canvas.height) {
-                    var rotatedCanvas = document.createElement('canvas');
-                    rotatedCanvas.width = patch.canvas.height;
-                    rotatedCanvas.height = patch.canvas.width;
-                    var rotatedCtx = rotatedCanvas.getContext("2d");
-                    rotatedCtx.translate(rotatedCanvas.width, 0);
-                    rotatedCtx.rotate(90 * Math.PI / 180);
-                    rotatedCtx.drawImage(patch.canvas, 0, 0);
-                    patch.canvas = rotatedCanvas;
-                    patch.isRotated = true;
-                }
-            }
-            // Sort patches by height
-            patches.sort(function (l, r) { return r.canvas.height - l.canvas.height; });
-            var packedTextureSideLength = Math.max(Math.floor(Math.sqrt(patchTotalArea) * 1.5), patches[0].canvas.height);
+            // Each patch takes up its size plus the padding on both sides
+            var padding = this._packingPadding;
+            var packing = Chameleon.packRects(patches.map(function (patch) { return ({
+                width: patch.canvas.width + 2 * padding,
+                height: patch.canvas.height + 2 * padding
+            }); }));
+            this._packingEfficiency = packing.efficiency;
             // Prepare the one big canvas to hold all patches
+            var packedTextureSideLength = packing.size;
             this._packedTextureCanvas.width = this._packedTextureCanvas.height = packedTextureSideLength;
             var packedTextureCtx = this._packedTextureCanvas.getContext("2d");
-            // Finally iterate through each patch and put them on the packed texture, while updating UV values
-            // Keep track of the current maximum y value (+1) for each column in the packed texture
-            // The is used to implement the 'push upwards' operation described in Igarashi's paper
-            var yBuffer = new Int32Array(packedTextureSideLength);
-            var currPatchRow = 0, patchIndex = 0, remainingHeight = packedTextureSideLength;
-            while (remainingHeight > 0 && patchIndex < patches.length) {
-                remainingHeight -= patches[patchIndex].canvas.height;
-                var remainingWidth = packedTextureSideLength;
-                var isEvenRow = (currPatchRow % 2 == 0);
-                while (remainingWidth > 0 && patchIndex < patches.length && patches[patchIndex].canvas.width <= remainingWidth) {
-                    var currentPatch = patches[patchIndex];
-                    // Draw the current patch on packed texture canvas
-                    // Folding--pack left to right in even rows (starting from 0), right to left in odd rows
-                    var x = isEvenRow ? packedTextureSideLength - remainingWidth : remainingWidth - currentPatch.canvas.width;
-                    // 'Push each patch upward until it hits another patch to minimize the gap'
-                    var y = yBuffer[x];
-                    for (var i = x; i < (x + currentPatch.canvas.width); i += 1) {
-                        y = Math.max(yBuffer[i], y);
-                    }
-                    packedTextureCtx.drawImage(currentPatch.canvas, x, y);
-                    for (var i = x; i < (x + currentPatch.canvas.width); i += 1) {
-                        yBuffer[i] = y + currentPatch.canvas.height;
-                    }
-                    for (var i = 0; i < currentPatch.faceIndices.length; i += 1) {
-                        var faceIndex = currentPatch.faceIndices[i];
-                        var packingUvs = this._packedTextureUvs[faceIndex];
-                        var viewingUvs = this._viewingTextureUvs[faceIndex];
-                        if (currentPatch.isRotated) {
-                            for (var j = 0; j < 3; j += 1) {
-                                packingUvs[j].setX((viewingUvs[j].y * currentPatch.canvas.width + x) / packedTextureSideLength).setY((packedTextureSideLength - y - viewingUvs[j].x * currentPatch.canvas.height) / packedTextureSideLength);
-                            }
+            // Put each patch on the packed texture, while updating UV values
+            patches.forEach(function (patch, patchIndex) {
+                var rect = packing.rects[patchIndex];
+                // Where the patch itself goes, and its size as placed
+                var x = rect.x + padding, y = rect.y + padding, width = rect.isRotated ? patch.canvas.height : patch.canvas.width, height = rect.isRotated ? patch.canvas.width : patch.canvas.height;
+                packedTextureCtx.save();
+                if (rect.isRotated) {
+                    // Turned clockwise, so that the left edge of the patch becomes its top edge
+                    packedTextureCtx.translate(x + width, y);
+                    packedTextureCtx.rotate(90 * Math.PI / 180);
+                    packedTextureCtx.drawImage(patch.canvas, 0, 0);
+                }
+                else {
+                    packedTextureCtx.drawImage(patch.canvas, x, y);
+                }
+                packedTextureCtx.restore();
+                // Enumerate all faces that uses the patch as their texture, and compute their packed texture UVs
+                patch.faceIndices.forEach(function (faceIndex) {
+                    var packingUvs = _this._packedTextureUvs[faceIndex];
+                    var viewingUvs = _this._viewingTextureUvs[faceIndex];
+                    for (var j = 0; j < 3; j += 1) {
+                        if (rect.isRotated) {
+                            packingUvs[j].setX((viewingUvs[j].y * width + x) / packedTextureSideLength).setY((packedTextureSideLength - y - viewingUvs[j].x * height) / packedTextureSideLength);
                         }
                         else {
-                            for (var j = 0; j < 3; j += 1) {
-                                packingUvs[j].setX((viewingUvs[j].x * currentPatch.canvas.width + x) / packedTextureSideLength).setY((packedTextureSideLength - y - (1 - viewingUvs[j].y) * currentPatch.canvas.height) / packedTextureSideLength);
-                            }
+                            packingUvs[j].setX((viewingUvs[j].x * width + x) / packedTextureSideLength).setY((packedTextureSideLength - y - (1 - viewingUvs[j].y) * height) / packedTextureSideLength);
                         }
                     }
-                    remainingWidth -= currentPatch.canvas.width;
-                    patchIndex += 1;
-                }
-                currPatchRow += 1;
-            }
+                });
+            });
             this._packedTextureMaterial.map.needsUpdate = true;
             this.geometry.uvsNeedUpdate = true;
             return this;
@@ -572,42 +2324,241 @@ var Chameleon;
             this._mesh.geometry.uvsNeedUpdate = true;
             return this;
         };
+        /**
+         * Finds the area (in NDC) that the drawing texture should cover: the screen, enlarged to include every face that
+         * is at least partly on the screen, but limited by maxDrawingTextureSize
+         */
+        TextureManager.prototype._computeDrawingRegion = function (clipPositions, screenWidth, screenHeight) {
+            var _this = this;
+            var min = this._drawingRegion.min.set(-1, -1), max = this._drawingRegion.max.set(1, 1);
+            var faces = this.geometry.faces;
+            for (var i = 0; i < faces.length; i += 1) {
+                var p0 = clipPositions[faces[i].a], p1 = clipPositions[faces[i].b], p2 = clipPositions[faces[i].c];
+                if (p0.w <= 0 || p1.w <= 0 || p2.w <= 0) {
+                    continue;
+                }
+                var x0 = p0.x / p0.w, x1 = p1.x / p1.w, x2 = p2.x / p2.w, y0 = p0.y / p0.w, y1 = p1.y / p1.w, y2 = p2.y / p2.w;
+                var faceMinX = Math.min(x0, x1, x2), faceMaxX = Math.max(x0, x1, x2), faceMinY = Math.min(y0, y1, y2), faceMaxY = Math.max(y0, y1, y2);
+                if (faceMaxX < -1 || faceMinX > 1 || faceMaxY < -1 || faceMinY > 1) {
+                    continue;
+                }
+                min.x = Math.min(min.x, faceMinX);
+                min.y = Math.min(min.y, faceMinY);
+                max.x = Math.max(max.x, faceMaxX);
+                max.y = Math.max(max.y, faceMaxY);
+            }
+            // Shrink the margins around the screen proportionally when they would make the texture too large,
+            // and snap them to whole pixels, so that drawing canvas pixels line up with screen pixels
+            var fitMargins = function (low, high, screenSize) {
+                var maxMargins = Math.max(_this.maxDrawingTextureSize - screenSize, 0) / screenSize * 2;
+                var margins = (-1 - low) + (high - 1);
+                var scale = margins > maxMargins ? maxMargins / margins : 1;
+                return [
+                    Math.floor((-1 - low) * scale * screenSize / 2),
+                    Math.floor((high - 1) * scale * screenSize / 2)
+                ];
+            };
+            var xMargins = fitMargins(min.x, max.x, screenWidth), yMargins = fitMargins(min.y, max.y, screenHeight);
+            min.set(-1 - xMargins[0] * 2 / screenWidth, -1 - yMargins[0] * 2 / screenHeight);
+            max.set(1 + xMargins[1] * 2 / screenWidth, 1 + yMargins[1] * 2 / screenHeight);
+            this._drawingScreenOffset.set(xMargins[0], yMargins[1]);
+            this._drawingScreenToUv.set(1 / (max.x - min.x), 1 / (max.y - min.y), -min.x / (max.x - min.x), -min.y / (max.y - min.y));
+        };
         TextureManager.prototype._generateDrawingFromViewingTexture = function () {
+            var _this = this;
             console.assert(this._textureInUse === 0 /* Viewing */);
-            // Assumption: when _renderer is created, 'alpha' must be set to true
-            var originalClearAlpha = this._renderer.getClearAlpha();
-            var originalClearColor = this._renderer.getClearColor().clone();
-            this._renderer.setClearColor(0, 0);
-            this._renderer.render(this._drawingTextureScene, this._camera);
-            this._drawingCanvas.width = this._renderer.domElement.width;
-            this._drawingCanvas.height = this._renderer.domElement.height;
-            this.drawingContext.drawImage(this._renderer.domElement, -2, 0);
-            this.drawingContext.drawImage(this._renderer.domElement, 2, 0);
-            this.drawingContext.drawImage(this._renderer.domElement, 0, -2);
-            this.drawingContext.drawImage(this._renderer.domElement, 0, 2);
-            this.drawingContext.drawImage(this._renderer.domElement, 0, 0);
-            this._drawingMaterial.map.needsUpdate = true;
-            var projectedPosition = new THREE.Vector3();
+            // Layers may have been added since the materials were last grouped
+            this._updateRenderGroups();
+            var screenWidth = this._renderer.domElement.width, screenHeight = this._renderer.domElement.height;
+            var viewProjection = new THREE.Matrix4().multiplyMatrices(this._camera.projectionMatrix, this._camera.matrixWorldInverse);
+            var clipPositions = [];
+            for (var i = 0; i < this.geometry.vertices.length; i += 1) {
+                var vertex = this.geometry.vertices[i];
+                clipPositions.push(new THREE.Vector4(vertex.x, vertex.y, vertex.z, 1).applyMatrix4(viewProjection));
+            }
+            this._computeDrawingRegion(clipPositions, screenWidth, screenHeight);
+            var min = this._drawingRegion.min, max = this._drawingRegion.max;
+            this._drawingCanvas.width = Math.round(screenWidth * (max.x - min.x) / 2);
+            this._drawingCanvas.height = Math.round(screenHeight * (max.y - min.y) / 2);
+            this._isDrawingLayered = this._layers.length > 1 || !this.activeLayer.isPlain;
+            this._renderInDrawingRegion(function () {
+                if (_this._isDrawingLayered) {
+                    _this._renderLayersForDrawing();
+                }
+                else {
+                    _this._renderForDrawing(_this._viewingRenderMaterial, _this._viewingTextureUvs, _this._drawingCanvas, true);
+                    _this._drawingTexture.image = _this._drawingCanvas;
+                }
+            });
+            this._drawingTexture.needsUpdate = true;
             for (var i = 0; i < this.geometry.vertices.length; i += 1) {
-                projectedPosition.copy(this.geometry.vertices[i]).project(this._camera);
-                this._drawingVertexUvs[i].setX((projectedPosition.x + 1) / 2).setY((projectedPosition.y + 1) / 2);
+                var clipPosition = clipPositions[i];
+                this._drawingVertexWs[i] = clipPosition.w;
+                this._drawingVertexUvs[i].setX((clipPosition.x / clipPosition.w - min.x) / (max.x - min.x)).setY((clipPosition.y / clipPosition.w - min.y) / (max.y - min.y));
             }
             for (var i = 0; i < this.geometry.faces.length; i += 1) {
                 this._drawingTextureUvs[i][0].copy(this._drawingVertexUvs[this.geometry.faces[i].a]);
                 this._drawingTextureUvs[i][1].copy(this._drawingVertexUvs[this.geometry.faces[i].b]);
                 this._drawingTextureUvs[i][2].copy(this._drawingVertexUvs[this.geometry.faces[i].c]);
             }
-            this._renderer.setClearColor(originalClearColor, originalClearAlpha);
             return this;
         };
+        /**
+         * Lets render draw the drawing region onto the renderer's canvas, which has the size of the drawing canvas and a
+         * transparent background meanwhile
+         */
+        TextureManager.prototype._renderInDrawingRegion = function (render) {
+            var min = this._drawingRegion.min, max = this._drawingRegion.max;
+            var screenWidth = this._renderer.domElement.width, screenHeight = this._renderer.domElement.height;
+            // Render the enlarged region by mapping it onto the NDC cube, at a one-to-one scale with the screen.
+            // The renderer's canvas is never shown directly (Controls copies it to the screen), so it can be resized.
+            var regionToNdc = new THREE.Matrix4().set(2 / (max.x - min.x), 0, 0, -(max.x + min.x) / (max.x - min.x), 0, 2 / (max.y - min.y), 0, -(max.y + min.y) / (max.y - min.y), 0, 0, 1, 0, 0, 0, 0, 1);
+            var originalProjectionMatrix = this._camera.projectionMatrix.clone();
+            this._camera.projectionMatrix.multiplyMatrices(regionToNdc, originalProjectionMatrix);
+            var originalDevicePixelRatio = this._renderer.devicePixelRatio;
+            this._renderer.devicePixelRatio = 1;
+            this._renderer.setSize(this._drawingCanvas.width, this._drawingCanvas.height, false);
+            // Assumption: when _renderer is created, 'alpha' must be set to true
+            var originalClearAlpha = this._renderer.getClearAlpha();
+            var originalClearColor = this._renderer.getClearColor().clone();
+            this._renderer.setClearColor(0, 0);
+            render();
+            this._renderer.setClearColor(originalClearColor, originalClearAlpha);
+            this._renderer.setSize(screenWidth, screenHeight, false);
+            this._renderer.devicePixelRatio = originalDevicePixelRatio;
+            this._camera.projectionMatrix.copy(originalProjectionMatrix);
+        };
+        /**
+         * Renders which face shows at each pixel of the drawing canvas, as the index of the face plus one, or 0 where
+         * there is none. The drawing texture must be in use.
+         */
+        TextureManager.prototype._renderFaceIds = function () {
+            var _this = this;
+            if (!this._faceIdScene) {
+                var faceIdGeometry = new THREE.Geometry();
+                faceIdGeometry.vertices = this.geometry.vertices;
+                faceIdGeometry.faces = this.geometry.faces.map(function (face, faceIndex) {
+                    var faceIdFace = face.clone();
+                    faceIdFace.materialIndex = 0;
+                    faceIdFace.color.setHex(faceIndex + 1);
+                    return faceIdFace;
+                });
+                this._faceIdScene = new THREE.Scene();
+                this._faceIdScene.add(new THREE.Mesh(faceIdGeometry, new THREE.MeshBasicMaterial({ vertexColors: THREE.FaceColors })));
+            }
+            var width = this._drawingCanvas.width, height = this._drawingCanvas.height;
+            var faceIdCanvas = document.createElement('canvas');
+            faceIdCanvas.width = width;
+            faceIdCanvas.height = height;
+            this._renderInDrawingRegion(function () {
+                _this._renderer.render(_this._faceIdScene, _this._camera);
+                faceIdCanvas.getContext('2d').drawImage(_this._renderer.domElement, 0, 0);
+            });
+            var pixels = faceIdCanvas.getContext('2d').getImageData(0, 0, width, height).data;
+            var faceIds = new Uint32Array(width * height);
+            for (var i = 0; i < faceIds.length; i += 1) {
+                // Antialiased edges mix the colors of faces, and are left out
+                if (pixels[i * 4 + 3] === 255) {
+                    faceIds[i] = (pixels[i * 4] << 16) | (pixels[i * 4 + 1] << 8) | pixels[i * 4 + 2];
+                }
+            }
+            return faceIds;
+        };
+        /**
+         * Renders the mesh with the given material and UVs onto a canvas of the drawing texture's size.
+         * Dilating spreads the outermost pixels of the mesh a little, so that faces seen nearly edge-on, whose patches
+         * are cut from there, are not mixed with the empty pixels around the mesh.
+         */
+        TextureManager.prototype._renderForDrawing = function (material, uvs, canvas, dilate) {
+            this._drawingTextureMesh.material = material;
+            this._drawingGeometry.faceVertexUvs[0] = uvs;
+            this._drawingGeometry.uvsNeedUpdate = true;
+            if (this._isDrawingRegroupNeeded) {
+                this._drawingGeometry.dispose();
+                this._isDrawingRegroupNeeded = false;
+            }
+            this._renderer.render(this._drawingTextureScene, this._camera);
+            var context = canvas.getContext('2d');
+            if (dilate) {
+                context.drawImage(this._renderer.domElement, -2, 0);
+                context.drawImage(this._renderer.domElement, 2, 0);
+                context.drawImage(this._renderer.domElement, 0, -2);
+                context.drawImage(this._renderer.domElement, 0, 2);
+            }
+            context.drawImage(this._renderer.domElement, 0, 0);
+        };
+        /**
+         * Renders the active layer onto the drawing canvas, and the other layers onto the canvases it is shown between
+         */
+        TextureManager.prototype._renderLayersForDrawing = function () {
+            var width = this._drawingCanvas.width, height = this._drawingCanvas.height;
+            var activeLayer = this.activeLayer;
+            // Only the bottom layer is opaque. Dilating the others would smear their paint.
+            this._renderForDrawing(activeLayer.renderMaterial, activeLayer.uvs, this._drawingCanvas, this._activeLayerIndex === 0);
+            var layerCanvas = document.createElement('canvas');
+            layerCanvas.width = width;
+            layerCanvas.height = height;
+            this._drawingBelowCanvas.width = width;
+            this._drawingBelowCanvas.height = height;
+            var belowContext = this._drawingBelowCanvas.getContext('2d');
+            belowContext.fillStyle = this.backgroundColor;
+            belowContext.fillRect(0, 0, width, height);
+            for (var i = 0; i < this._activeLayerIndex; i += 1) {
+                var layer = this._layers[i];
+                if (!layer.visible) {
+                    continue;
+                }
+                layerCanvas.getContext('2d').clearRect(0, 0, width, height);
+                this._renderForDrawing(layer.renderMaterial, layer.uvs, layerCanvas, i === 0);
+                belowContext.globalAlpha = layer.opacity;
+                belowContext.globalCompositeOperation = layer.blendMode;
+                belowContext.drawImage(layerCanvas, 0, 0);
+            }
+            this._drawingAboveCanvases = [];
+            this._drawingAboveLayers = [];
+            for (var i = this._activeLayerIndex + 1; i < this._layers.length; i += 1) {
+                var layer = this._layers[i];
+                if (!layer.visible) {
+                    continue;
+                }
+                var aboveCanvas = document.createElement('canvas');
+                aboveCanvas.width = width;
+                aboveCanvas.height = height;
+                this._renderForDrawing(layer.renderMaterial, layer.uvs, aboveCanvas, false);
+                this._drawingAboveCanvases.push(aboveCanvas);
+                this._drawingAboveLayers.push(layer);
+            }
+            this._drawingDisplayCanvas.width = width;
+            this._drawingDisplayCanvas.height = height;
+            this._drawingTexture.image = this._drawingDisplayCanvas;
+            this._updateDrawingDisplay();
+        };
+        TextureManager.prototype._updateDrawingDisplay = function () {
+            var context = this._drawingDisplayCanvas.getContext('2d');
+            context.globalAlpha = 1;
+            context.globalCompositeOperation = 'source-over';
+            context.clearRect(0, 0, this._drawingDisplayCanvas.width, this._drawingDisplayCanvas.height);
+            context.drawImage(this._drawingBelowCanvas, 0, 0);
+            if (this.activeLayer.visible) {
+                context.globalAlpha = this.activeLayer.opacity;
+                context.globalCompositeOperation = this.activeLayer.blendMode;
+                context.drawImage(this._drawingCanvas, 0, 0);
+            }
+            for (var i = 0; i < this._drawingAboveCanvases.length; i += 1) {
+                context.globalAlpha = this._drawingAboveLayers[i].opacity;
+                context.globalCompositeOperation = this._drawingAboveLayers[i].blendMode;
+                context.drawImage(this._drawingAboveCanvases[i], 0, 0);
+            }
+        };
         TextureManager.prototype._applyDrawingTexture = function () {
             this._mesh.material = this._drawingMaterial;
             this._mesh.geometry.faceVertexUvs[0] = this._drawingTextureUvs;
             this._mesh.geometry.uvsNeedUpdate = true;
             return this;
         };
-        TextureManager.prototype._castRayFromMouse = function (canvasPos) {
-            var mouse3d = new THREE.Vector3(canvasPos.x / this._drawingCanvas.width * 2 - 1, -canvasPos.y / this._drawingCanvas.height * 2 + 1, -1.0);
+        TextureManager.prototype._castRayFromMouse = function (drawingPos) {
+            var min = this._drawingRegion.min, max = this._drawingRegion.max;
+            var mouse3d = new THREE.Vector3(min.x + drawingPos.x / this._drawingCanvas.width * (max.x - min.x), max.y - drawingPos.y / this._drawingCanvas.height * (max.y - min.y), -1.0);
             var direction = new THREE.Vector3(mouse3d.x, mouse3d.y, 1.0);
             mouse3d.unproject(this._camera);
             direction.unproject(this._camera).sub(mouse3d).normalize();
@@ -721,28 +2672,63 @@ var Chameleon;
                 if (inside || collide1 || collide2 || collide3 || insidepre) {
                     this._isFloodFill[faceIndex] = 1;
                     this._affectedFaces.add(faceIndex);
-                    for (var i = 0; i < this._nAdjacentFaces[faceIndex]; i += 1) {
+                    for (var i = 0; i < this._AdjacentFacesList[faceIndex].length; i += 1) {
                         var newfaceIndex = this._AdjacentFacesList[faceIndex][i];
-                        var cameradirection = new THREE.Vector3();
-                        cameradirection.copy(this._camera.position);
-                        cameradirection.normalize();
-                        if (this.geometry.faces[newfaceIndex].normal.dot(cameradirection) > 0) {
+                        if (this._isFacingCamera(newfaceIndex) && !this._isCrease(faceIndex, newfaceIndex)) {
                             this._add_recursive(newfaceIndex, center, radius, start, prePos);
                         }
                     }
                 }
             }
         };
-        TextureManager.prototype.onStrokePainted = function (canvasPos, radius, start) {
-            var intersections = this._castRayFromMouse(canvasPos);
+        TextureManager.prototype._isCrease = function (faceIndex1, faceIndex2) {
+            // Face normals are unit vectors, so their dot product is the cosine of the angle between them
+            return this.geometry.faces[faceIndex1].normal.dot(this.geometry.faces[faceIndex2].normal) < this._creaseCosine;
+        };
+        TextureManager.prototype._findStrokeSurface = function (startFaceIndex) {
+            this._isOnStrokeSurface.set(this._isFloodFillEmpty);
+            this._isOnStrokeSurface[startFaceIndex] = 1;
+            var stack = [startFaceIndex];
+            while (stack.length > 0) {
+                var faceIndex = stack.pop();
+                for (var i = 0; i < this._AdjacentFacesList[faceIndex].length; i += 1) {
+                    var adjacentFaceIndex = this._AdjacentFacesList[faceIndex][i];
+                    if (!this._isOnStrokeSurface[adjacentFaceIndex] && !this._isCrease(faceIndex, adjacentFaceIndex)) {
+                        this._isOnStrokeSurface[adjacentFaceIndex] = 1;
+                        stack.push(adjacentFaceIndex);
+                    }
+                }
+            }
+        };
+        TextureManager.prototype._isFacingCamera = function (faceIndex) {
+            return this._cosineToCamera(faceIndex) > 0;
+        };
+        /**
+         * @param drawingPos position on the drawing canvas, as returned by toDrawingPosition
+         */
+        TextureManager.prototype.onStrokePainted = function (drawingPos, radius, start) {
+            var intersections = this._castRayFromMouse(drawingPos);
+            if (this.stayOnSurface && intersections.length > 0) {
+                if (start) {
+                    this._findStrokeSurface(intersections[0].faceIndex);
+                }
+                else if (!this._isOnStrokeSurface[intersections[0].faceIndex]) {
+                    // Another surface is in front here. The drawing canvas only shows the front-most surface, so
+                    // painting the stroke surface behind it would copy the other surface onto it.
+                    intersections = [];
+                }
+            }
             if (intersections.length > 0) {
-                this._drawingMaterial.map.needsUpdate = true;
-                var faceIndex = intersections[0].face.materialIndex;
+                if (this._isDrawingLayered) {
+                    this._updateDrawingDisplay();
+                }
+                this._drawingTexture.needsUpdate = true;
+                var faceIndex = intersections[0].faceIndex;
                 this._isFloodFill.set(this._isFloodFillEmpty);
-                this._add_recursive(faceIndex, canvasPos, radius, start, this._prePos);
+                this._add_recursive(faceIndex, drawingPos, radius, start, this._prePos);
                 if (start == false)
-                    this._add_recursive(this._preIndex, canvasPos, radius, start, this._prePos);
-                this._prePos = canvasPos;
+                    this._add_recursive(this._preIndex, drawingPos, radius, start, this._prePos);
+                this._prePos = drawingPos;
                 this._preIndex = faceIndex;
             }
             return this;
@@ -752,11 +2738,105 @@ var Chameleon;
     Chameleon.TextureManager = TextureManager;
 })(Chameleon || (Chameleon = {}));
 /// <reference path="./common.ts" />
+/// <reference path="./layers.ts" />
 var Chameleon;
 (function (Chameleon) {
-    var Pencil = (function () {
+    function pressureOf(sample) {
+        return sample ? sample.pressure : 1;
+    }
+    /**
+     * A brush that paints with the 2D canvas API. Subclasses paint into context in beginStroke and paint.
+     *
+     * A stroke that is not fully opaque or not blended normally is painted into a buffer of its own, which is laid
+     * over the canvas as it was before the stroke after every step. This way the stroke as a whole gets the opacity
+     * and the blend mode, however often it overlaps itself.
+     */
+    var CanvasBrush = (function () {
+        function CanvasBrush() {
+            this.opacity = 1; // Of the whole stroke, in [0, 1]
+            this.flow = 1; // Of each bit of paint, which builds up where the stroke overlaps itself. In [0, 1]
+            this.blendMode = 'source-over'; // One of BLEND_MODES
+            /**
+             * Where the stroke is painted, with globalAlpha set to the flow. Only set during a stroke.
+             */
+            this.context = null;
+            this._canvas = null;
+            this._canvasBeforeStroke = null;
+            this._strokeBuffer = null;
+        }
+        CanvasBrush.prototype.paintedRadius = function () {
+            return this.radius;
+        };
+        /**
+         * How the stroke is composited onto the canvas
+         */
+        CanvasBrush.prototype.compositeOperation = function () {
+            return this.blendMode;
+        };
+        CanvasBrush.prototype.startStroke = function (canvas, position, sample) {
+            console.assert(Chameleon.BLEND_MODES.indexOf(this.blendMode) >= 0);
+            if (this.opacity < 1 || this.compositeOperation() !== 'source-over') {
+                this._canvas = canvas;
+                this._canvasBeforeStroke = document.createElement('canvas');
+                this._canvasBeforeStroke.width = canvas.width;
+                this._canvasBeforeStroke.height = canvas.height;
+                this._canvasBeforeStroke.getContext('2d').drawImage(canvas, 0, 0);
+                this._strokeBuffer = document.createElement('canvas');
+                this._strokeBuffer.width = canvas.width;
+                this._strokeBuffer.height = canvas.height;
+                this.context = this._strokeBuffer.getContext('2d');
+            }
+            else {
+                this.context = canvas.getContext('2d');
+            }
+            this.context.save(); // Assumption: nobody else will call this until the stroke is finished
+            this.context.globalAlpha = this.flow;
+            this.beginStroke(position, sample);
+            this._compositeStroke();
+        };
+        CanvasBrush.prototype.continueStoke = function (position, sample) {
+            if (this.context) {
+                this.paint(position, sample);
+                this._compositeStroke();
+            }
+        };
+        CanvasBrush.prototype.finishStroke = function () {
+            if (this.context) {
+                this.context.restore();
+                this.context = null;
+                this._canvas = this._canvasBeforeStroke = this._strokeBuffer = null;
+            }
+        };
+        /**
+         * Sets up context for the stroke, and may paint at its start
+         */
+        CanvasBrush.prototype.beginStroke = function (position, sample) {
+        };
+        /**
+         * Paints the stroke up to a new position
+         */
+        CanvasBrush.prototype.paint = function (position, sample) {
+        };
+        CanvasBrush.prototype._compositeStroke = function () {
+            if (this._strokeBuffer) {
+                var canvasContext = this._canvas.getContext('2d');
+                canvasContext.save();
+                canvasContext.globalCompositeOperation = 'copy';
+                canvasContext.drawImage(this._canvasBeforeStroke, 0, 0);
+                canvasContext.globalCompositeOperation = this.compositeOperation();
+                canvasContext.globalAlpha = this.opacity;
+                canvasContext.drawImage(this._strokeBuffer, 0, 0);
+                canvasContext.restore();
+            }
+        };
+        return CanvasBrush;
+    })();
+    Chameleon.CanvasBrush = CanvasBrush;
+    var Pencil = (function (_super) {
+        __extends(Pencil, _super);
         function Pencil() {
-            this._canvasContext = null;
+            _super.apply(this, arguments);
+            this._lastPosition = new THREE.Vector2();
         }
         Object.defineProperty(Pencil.prototype, "radius", {
             get: function () {
@@ -765,426 +2845,1072 @@ var Chameleon;
             enumerable: true,
             configurable: true
         });
-        Pencil.prototype.startStroke = function (canvas, position) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.beginPath();
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
-            this._canvasContext.lineWidth = this.radius * 2;
-            this._canvasContext.moveTo(position.x, position.y);
-        };
-        Pencil.prototype.continueStoke = function (position) {
-            if (this._canvasContext) {
-                this._canvasContext.lineTo(position.x, position.y);
-                this._canvasContext.stroke();
-            }
+        Pencil.prototype.beginStroke = function (position) {
+            this.context.lineWidth = this.radius * 2;
+            this._lastPosition.copy(position);
         };
-        Pencil.prototype.finishStroke = function () {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
-            }
+        // Segment by segment, so that the flow does not build up where the stroke is stroked again
+        Pencil.prototype.paint = function (position) {
+            this.context.beginPath();
+            this.context.moveTo(this._lastPosition.x, this._lastPosition.y);
+            this.context.lineTo(position.x, position.y);
+            this.context.stroke();
+            this._lastPosition.copy(position);
         };
         return Pencil;
-    })();
+    })(CanvasBrush);
     Chameleon.Pencil = Pencil;
-    var MarkerBrush = (function () {
+    var MarkerBrush = (function (_super) {
+        __extends(MarkerBrush, _super);
         function MarkerBrush(radius, color) {
+            _super.call(this);
             this.radius = radius;
             this.color = color;
-            this._canvasContext = null;
+            this._lastPosition = new THREE.Vector2();
         }
-        MarkerBrush.prototype.startStroke = function (canvas, position) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.beginPath();
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
-            this._canvasContext.lineWidth = this.radius * 2;
-            this._canvasContext.strokeStyle = this.color;
-            this._canvasContext.lineJoin = this._canvasContext.lineCap = 'round';
-            this._canvasContext.moveTo(position.x, position.y);
-        };
-        MarkerBrush.prototype.continueStoke = function (position) {
-            if (this._canvasContext) {
-                this._canvasContext.lineTo(position.x, position.y);
-                this._canvasContext.stroke();
-            }
+        MarkerBrush.prototype.beginStroke = function (position, sample) {
+            this.context.strokeStyle = this.color;
+            this.context.lineJoin = this.context.lineCap = 'round';
+            this._lastPosition.copy(position);
         };
-        MarkerBrush.prototype.finishStroke = function () {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
-            }
+        MarkerBrush.prototype.paint = function (position, sample) {
+            // Stroke segment by segment, so that the line width can follow the pen pressure
+            this.context.lineWidth = this.radius * 2 * pressureOf(sample);
+            this.context.beginPath();
+            this.context.moveTo(this._lastPosition.x, this._lastPosition.y);
+            this.context.lineTo(position.x, position.y);
+            this.context.stroke();
+            this._lastPosition.copy(position);
         };
         return MarkerBrush;
-    })();
+    })(CanvasBrush);
     Chameleon.MarkerBrush = MarkerBrush;
-    var BlurryMarkerBrush = (function () {
+    /**
+     * Strokes like MarkerBrush, but removes paint instead of adding it. The blend mode does not apply.
+     */
+    var EraserBrush = (function (_super) {
+        __extends(EraserBrush, _super);
+        function EraserBrush(radius) {
+            _super.call(this);
+            this.radius = radius;
+            /**
+             * The color that erased pixels get, or null to make them transparent.
+             * Controls sets this to the background color on the bottom layer, which stays opaque.
+             */
+            this.backgroundColor = null;
+            this._lastPosition = new THREE.Vector2();
+        }
+        EraserBrush.prototype.compositeOperation = function () {
+            return (this.backgroundColor === null) ? 'destination-out' : 'source-over';
+        };
+        EraserBrush.prototype.beginStroke = function (position, sample) {
+            this.context.strokeStyle = (this.backgroundColor === null) ? '#000000' : this.backgroundColor;
+            this.context.lineJoin = this.context.lineCap = 'round';
+            this._lastPosition.copy(position);
+        };
+        EraserBrush.prototype.paint = function (position, sample) {
+            this.context.lineWidth = this.radius * 2 * pressureOf(sample);
+            this.context.beginPath();
+            this.context.moveTo(this._lastPosition.x, this._lastPosition.y);
+            this.context.lineTo(position.x, position.y);
+            this.context.stroke();
+            this._lastPosition.copy(position);
+        };
+        return EraserBrush;
+    })(CanvasBrush);
+    Chameleon.EraserBrush = EraserBrush;
+    var BlurryMarkerBrush = (function (_super) {
+        __extends(BlurryMarkerBrush, _super);
         function BlurryMarkerBrush(radius, color) {
+            _super.call(this);
             this.radius = radius;
             this.color = color;
-            this._canvasContext = null;
+            this._lastPosition = new THREE.Vector2();
         }
-        BlurryMarkerBrush.prototype.startStroke = function (canvas, position) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.beginPath();
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
-            this._canvasContext.lineWidth = this.radius;
-            this._canvasContext.strokeStyle = this.color;
-            this._canvasContext.lineJoin = this._canvasContext.lineCap = 'round';
-            this._canvasContext.shadowBlur = this.radius;
-            this._canvasContext.shadowColor = this.color;
-            this._canvasContext.moveTo(position.x, position.y);
-        };
-        BlurryMarkerBrush.prototype.continueStoke = function (position) {
-            if (this._canvasContext) {
-                this._canvasContext.lineTo(position.x, position.y);
-                this._canvasContext.stroke();
-            }
+        BlurryMarkerBrush.prototype.beginStroke = function (position) {
+            this.context.lineWidth = this.radius;
+            this.context.strokeStyle = this.color;
+            this.context.lineJoin = this.context.lineCap = 'round';
+            this.context.shadowBlur = this.radius;
+            this.context.shadowColor = this.color;
+            this._lastPosition.copy(position);
         };
-        BlurryMarkerBrush.prototype.finishStroke = function () {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
-            }
+        // Segment by segment, so that the flow does not build up where the stroke is stroked again
+        BlurryMarkerBrush.prototype.paint = function (position) {
+            this.context.beginPath();
+            this.context.moveTo(this._lastPosition.x, this._lastPosition.y);
+            this.context.lineTo(position.x, position.y);
+            this.context.stroke();
+            this._lastPosition.copy(position);
         };
         return BlurryMarkerBrush;
-    })();
+    })(CanvasBrush);
     Chameleon.BlurryMarkerBrush = BlurryMarkerBrush;
-    var CalligraphyBrush = (function () {
-        function CalligraphyBrush() {
-            this.img = new Image();
-            this._canvasContext = null;
+    /**
+     * Loads an image to use as the tip of a StampBrush
+     */
+    function loadBrushTip(url) {
+        var image = new Image();
+        image.src = url;
+        return image;
+    }
+    Chameleon.loadBrushTip = loadBrushTip;
+    /**
+     * Paints a stroke by stamping an image, the tip, along it. By default, the tip is a mask that is filled with the
+     * color of the brush.
+     */
+    var StampBrush = (function (_super) {
+        __extends(StampBrush, _super);
+        function StampBrush(radius, tip) {
+            _super.call(this);
+            this.radius = radius;
+            this.tip = tip;
+            this.color = '#000000';
+            this.useTipColors = false; // Stamp the tip as it is, instead of filling it with the color
+            this.spacing = 25; // Distance between stamps, in percent of the diameter
+            this.angle = 0; // In degrees
+            this.followStroke = false; // Turn the tip in the direction of the stroke
+            this.sizeJitter = 0; // How much smaller stamps may randomly get, in [0, 1]
+            this.angleJitter = 0; // How far stamps may randomly turn either way, in degrees
+            this.scatter = 0; // How far stamps may randomly move off the stroke either way, in diameters
+            this._stamp = null;
             this._lastPosition = new THREE.Vector2();
+            this._distanceToNextStamp = 0;
         }
-        Object.defineProperty(CalligraphyBrush.prototype, "radius", {
-            get: function () {
-                return 32 / 2;
-            },
-            enumerable: true,
-            configurable: true
-        });
-        CalligraphyBrush.prototype.startStroke = function (canvas, position) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.beginPath();
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
-            this.img.src = 'image/brush3.png';
-            this._canvasContext.lineJoin = this._canvasContext.lineCap = 'round';
+        StampBrush.prototype.beginStroke = function (position, sample) {
+            this._stamp = this._prepareStamp();
             this._lastPosition.copy(position);
+            this._stampAt(position, 0, pressureOf(sample));
+            this._distanceToNextStamp = this._spacingInPixels(pressureOf(sample));
         };
-        CalligraphyBrush.prototype.continueStoke = function (position) {
-            if (this._canvasContext) {
-                var dist = this._lastPosition.distanceTo(position);
-                var angle = Chameleon.angleBetween(this._lastPosition, position);
-                for (var i = 0; i < dist; i++) {
-                    var x = this._lastPosition.x + (Math.sin(angle) * i) - this.radius;
-                    var y = this._lastPosition.y + (Math.cos(angle) * i) - this.radius;
-                    this._canvasContext.drawImage(this.img, x, y);
-                }
-                this._lastPosition.copy(position);
+        StampBrush.prototype.paint = function (position, sample) {
+            var pressure = pressureOf(sample);
+            var distance = this._lastPosition.distanceTo(position);
+            var direction = Math.atan2(position.y - this._lastPosition.y, position.x - this._lastPosition.x);
+            var spacing = this._spacingInPixels(pressure);
+            // Stamps are evenly spaced along the whole stroke, not just within each segment of it
+            var t = this._distanceToNextStamp;
+            for (; t <= distance; t += spacing) {
+                this._stampAt(this._lastPosition.clone().lerp(position, t / distance), direction, pressure);
             }
+            this._distanceToNextStamp = t - distance;
+            this._lastPosition.copy(position);
         };
-        CalligraphyBrush.prototype.finishStroke = function () {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
-            }
+        StampBrush.prototype.paintedRadius = function () {
+            var size = this._tipSize();
+            var aspect = size ? size.height / size.width : 1;
+            // The tip may be turned any way, so it reaches as far as half of its diagonal, and it may be scattered
+            return this.radius * Math.sqrt(1 + aspect * aspect) + this.scatter * this.radius * 2;
         };
-        return CalligraphyBrush;
-    })();
-    Chameleon.CalligraphyBrush = CalligraphyBrush;
-    var Fur = (function () {
-        function Fur() {
-            this.img = new Image();
-            this._canvasContext = null;
-            this._lastPosition = new THREE.Vector2();
-        }
-        Object.defineProperty(Fur.prototype, "radius", {
-            get: function () {
-                return 32 * 1.415 / 2;
-            },
-            enumerable: true,
-            configurable: true
-        });
-        Fur.prototype.startStroke = function (canvas, position) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.beginPath();
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
-            this.img.src = 'image/brush3.png';
-            this.img.width = 10;
-            this._canvasContext.lineJoin = this._canvasContext.lineCap = 'round';
-            this._lastPosition.copy(position);
+        // null until the tip has loaded
+        StampBrush.prototype._tipSize = function () {
+            var width = (this.tip instanceof HTMLImageElement) ? this.tip.naturalWidth : this.tip.width;
+            var height = (this.tip instanceof HTMLImageElement) ? this.tip.naturalHeight : this.tip.height;
+            return (width && height) ? { width: width, height: height } : null;
         };
-        Fur.prototype.continueStoke = function (position) {
-            if (this._canvasContext) {
-                var dist = this._lastPosition.distanceTo(position);
-                var angle = Chameleon.angleBetween(this._lastPosition, position);
-                for (var i = 0; i < dist; i++) {
-                    var x = this._lastPosition.x + (Math.sin(angle) * i);
-                    var y = this._lastPosition.y + (Math.cos(angle) * i);
-                    this._canvasContext.save();
-                    this._canvasContext.translate(x, y);
-                    this._canvasContext.scale(0.5, 0.5);
-                    this._canvasContext.rotate(Math.PI * 180 / Chameleon.getRandomInt(0, 180));
-                    this._canvasContext.drawImage(this.img, 0, 0);
-                    this._canvasContext.restore();
-                }
-                this._lastPosition.copy(position);
+        StampBrush.prototype._spacingInPixels = function (pressure) {
+            return Math.max(this.spacing / 100 * this.radius * 2 * pressure, 1);
+        };
+        // null until the tip has loaded
+        StampBrush.prototype._prepareStamp = function () {
+            var size = this._tipSize();
+            if (!size) {
+                return null;
+            }
+            var stamp = document.createElement('canvas');
+            var width = stamp.width = size.width;
+            var height = stamp.height = size.height;
+            var stampContext = stamp.getContext('2d');
+            stampContext.drawImage(this.tip, 0, 0);
+            if (!this.useTipColors) {
+                stampContext.globalCompositeOperation = 'source-in';
+                stampContext.fillStyle = this.color;
+                stampContext.fillRect(0, 0, width, height);
             }
+            return stamp;
         };
-        Fur.prototype.finishStroke = function () {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
+        StampBrush.prototype._stampAt = function (position, direction, pressure) {
+            if (!this._stamp) {
+                return;
+            }
+            var width = this.radius * 2 * pressure * (1 - this.sizeJitter * Math.random());
+            var height = width * this._stamp.height / this._stamp.width;
+            var angle = (this.angle + Chameleon.getRandomFloat(-this.angleJitter, this.angleJitter)) * Math.PI / 180;
+            if (this.followStroke) {
+                angle += direction;
             }
+            var offset = Chameleon.getRandomFloat(-this.scatter, this.scatter) * this.radius * 2;
+            this.context.save();
+            // Scattered across the direction of the stroke
+            this.context.translate(position.x - Math.sin(direction) * offset, position.y + Math.cos(direction) * offset);
+            this.context.rotate(angle);
+            this.context.drawImage(this._stamp, -width / 2, -height / 2, width, height);
+            this.context.restore();
         };
+        return StampBrush;
+    })(CanvasBrush);
+    Chameleon.StampBrush = StampBrush;
+    var CalligraphyBrush = (function (_super) {
+        __extends(CalligraphyBrush, _super);
+        function CalligraphyBrush() {
+            _super.call(this, 32 / 2, loadBrushTip('image/brush3.png'));
+            this.useTipColors = true;
+            this.spacing = 3;
+        }
+        return CalligraphyBrush;
+    })(StampBrush);
+    Chameleon.CalligraphyBrush = CalligraphyBrush;
+    var Fur = (function (_super) {
+        __extends(Fur, _super);
+        function Fur() {
+            _super.call(this, 32 / 2 / 2, loadBrushTip('image/brush3.png'));
+            this.useTipColors = true;
+            this.spacing = 6;
+            this.angleJitter = 180;
+            this.scatter = 0.5;
+        }
         return Fur;
-    })();
+    })(StampBrush);
     Chameleon.Fur = Fur;
-    var ThickBrush = (function () {
+    var ThickBrush = (function (_super) {
+        __extends(ThickBrush, _super);
         function ThickBrush(radius, color) {
+            _super.call(this);
             this.radius = radius;
             this.color = color;
-            this._canvasContext = null;
             this._lastPosition = new THREE.Vector2();
         }
-        ThickBrush.prototype.startStroke = function (canvas, position) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.beginPath();
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
-            this._canvasContext.lineWidth = this.radius / 10;
-            this._canvasContext.strokeStyle = this.color;
-            this._canvasContext.lineJoin = this._canvasContext.lineCap = 'round';
+        ThickBrush.prototype.beginStroke = function (position) {
+            this.context.beginPath();
+            this.context.lineWidth = this.radius / 10;
+            this.context.strokeStyle = this.color;
+            this.context.lineJoin = this.context.lineCap = 'round';
+            this.context.globalAlpha = 0.85 * this.flow;
             this._lastPosition.copy(position);
         };
-        ThickBrush.prototype.continueStoke = function (position) {
-            if (this._canvasContext) {
-                this._canvasContext.beginPath();
-                this._canvasContext.globalAlpha = 0.85;
-                for (var i = -this.radius * 0.9; i <= this.radius * 0.9; i += this.radius / 20) {
-                    this._canvasContext.beginPath();
-                    this._canvasContext.moveTo(this._lastPosition.x + i, this._lastPosition.y + i);
-                    this._canvasContext.lineTo(position.x + i, position.y + i);
-                    this._canvasContext.stroke();
-                }
-                this._lastPosition.copy(position);
-            }
-        };
-        ThickBrush.prototype.finishStroke = function () {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
+        ThickBrush.prototype.paint = function (position) {
+            for (var i = -this.radius * 0.9; i <= this.radius * 0.9; i += this.radius / 20) {
+                this.context.beginPath();
+                this.context.moveTo(this._lastPosition.x + i, this._lastPosition.y + i);
+                this.context.lineTo(position.x + i, position.y + i);
+                this.context.stroke();
             }
+            this._lastPosition.copy(position);
         };
         return ThickBrush;
-    })();
+    })(CanvasBrush);
     Chameleon.ThickBrush = ThickBrush;
-    var InkDropBrush = (function () {
+    var InkDropBrush = (function (_super) {
+        __extends(InkDropBrush, _super);
         function InkDropBrush(radius, color) {
+            _super.call(this);
             this.radius = radius;
             this.color = color;
-            this._canvasContext = null;
             this._lastPosition = new THREE.Vector2();
         }
         InkDropBrush.prototype.drawDrop = function (position) {
-            this._canvasContext.beginPath();
-            this._canvasContext.globalAlpha = Math.random();
-            this._canvasContext.arc(position.x, position.y, Chameleon.getRandomInt(this.radius / 3, this.radius), 30, 270, false);
-            this._canvasContext.fill();
-        };
-        InkDropBrush.prototype.startStroke = function (canvas, position) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
-            this._canvasContext.fillStyle = this.color;
-            this._canvasContext.lineJoin = this._canvasContext.lineCap = 'round';
+            this.context.beginPath();
+            this.context.globalAlpha = Math.random() * this.flow;
+            this.context.arc(position.x, position.y, Chameleon.getRandomInt(this.radius / 3, this.radius), 30, 270, false);
+            this.context.fill();
+        };
+        InkDropBrush.prototype.beginStroke = function (position) {
+            this.context.fillStyle = this.color;
+            this.context.lineJoin = this.context.lineCap = 'round';
             this._lastPosition.copy(position);
             this.drawDrop(position);
         };
-        InkDropBrush.prototype.continueStoke = function (position) {
-            if (this._canvasContext && position.distanceTo(this._lastPosition) > this.radius * 2 / 3) {
+        InkDropBrush.prototype.paint = function (position) {
+            if (position.distanceTo(this._lastPosition) > this.radius * 2 / 3) {
                 this._lastPosition.copy(position);
                 this.drawDrop(position);
             }
         };
-        InkDropBrush.prototype.finishStroke = function () {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
-            }
-        };
         return InkDropBrush;
-    })();
+    })(CanvasBrush);
     Chameleon.InkDropBrush = InkDropBrush;
-    var StarBrush = (function () {
+    var StarBrush = (function (_super) {
+        __extends(StarBrush, _super);
         function StarBrush(radius, color) {
+            _super.call(this);
             this.radius = radius;
             this.color = color;
-            this._canvasContext = null;
             this._lastPosition = new THREE.Vector2();
         }
         StarBrush.prototype.drawStar = function (position, angle) {
             var length = this.radius / 2;
             var x = position.x, y = position.y;
-            this._canvasContext.save();
-            this._canvasContext.translate(x, y);
-            this._canvasContext.beginPath();
-            this._canvasContext.rotate(Math.PI / 180 * angle);
+            this.context.save();
+            this.context.translate(x, y);
+            this.context.beginPath();
+            this.context.rotate(Math.PI / 180 * angle);
             for (var i = 5; i--;) {
-                this._canvasContext.lineTo(0, length);
-                this._canvasContext.translate(0, length);
-                this._canvasContext.rotate((Math.PI * 2 / 10));
-                this._canvasContext.lineTo(0, -length);
-                this._canvasContext.translate(0, -length);
-                this._canvasContext.rotate(-(Math.PI * 6 / 10));
-            }
-            this._canvasContext.lineTo(0, length);
-            this._canvasContext.closePath();
-            this._canvasContext.stroke();
-            this._canvasContext.restore();
-        };
-        StarBrush.prototype.startStroke = function (canvas, position) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.save();
-            this._canvasContext.strokeStyle = this.color;
-            this._canvasContext.lineJoin = this._canvasContext.lineCap = 'round';
+                this.context.lineTo(0, length);
+                this.context.translate(0, length);
+                this.context.rotate((Math.PI * 2 / 10));
+                this.context.lineTo(0, -length);
+                this.context.translate(0, -length);
+                this.context.rotate(-(Math.PI * 6 / 10));
+            }
+            this.context.lineTo(0, length);
+            this.context.closePath();
+            this.context.stroke();
+            this.context.restore();
+        };
+        StarBrush.prototype.beginStroke = function (position) {
+            this.context.strokeStyle = this.color;
+            this.context.lineJoin = this.context.lineCap = 'round';
             this.drawStar(position, Chameleon.getRandomInt(0, 180));
             this._lastPosition.copy(position);
         };
-        StarBrush.prototype.continueStoke = function (position) {
-            if (this._canvasContext && this._lastPosition.distanceTo(position) > this.radius) {
-                this.drawStar(position, Chameleon.getRandomInt(0, 180));
-                this._lastPosition.copy(position);
+        StarBrush.prototype.paint = function (position) {
+            if (this._lastPosition.distanceTo(position) > this.radius) {
+                this.drawStar(position, Chameleon.getRandomInt(0, 180));
+                this._lastPosition.copy(position);
+            }
+        };
+        return StarBrush;
+    })(CanvasBrush);
+    Chameleon.StarBrush = StarBrush;
+    var RandomStarBrush = (function (_super) {
+        __extends(RandomStarBrush, _super);
+        function RandomStarBrush(radius) {
+            _super.call(this);
+            this.radius = radius;
+            this._lastPosition = new THREE.Vector2();
+        }
+        RandomStarBrush.prototype.drawStar = function (position) {
+            var angle = Chameleon.getRandomInt(0, 180), width = Chameleon.getRandomInt(1, this.radius / 2.8), opacity = Math.random(), scale = Chameleon.getRandomInt(10, 20) / 20, color = ('rgb(' + Chameleon.getRandomInt(0, 255) + ',' + Chameleon.getRandomInt(0, 255) + ',' + Chameleon.getRandomInt(0, 255) + ')'), length = this.radius / 3.5;
+            this.context.save();
+            this.context.translate(position.x, position.y);
+            this.context.beginPath();
+            this.context.globalAlpha = opacity * this.flow;
+            this.context.rotate(Math.PI / 180 * angle);
+            this.context.scale(scale, scale);
+            this.context.strokeStyle = color;
+            this.context.lineWidth = width;
+            for (var i = 5; i--;) {
+                this.context.lineTo(0, length);
+                this.context.translate(0, length);
+                this.context.rotate((Math.PI * 2 / 10));
+                this.context.lineTo(0, -length);
+                this.context.translate(0, -length);
+                this.context.rotate(-(Math.PI * 6 / 10));
+            }
+            this.context.lineTo(0, length);
+            this.context.closePath();
+            this.context.stroke();
+            this.context.restore();
+        };
+        RandomStarBrush.prototype.beginStroke = function (position) {
+            this._lastPosition.copy(position);
+            this.drawStar(position);
+        };
+        RandomStarBrush.prototype.paint = function (position) {
+            if (position.distanceTo(this._lastPosition) > this.radius * 2 / 3) {
+                this._lastPosition.copy(position);
+                this.drawStar(position);
+            }
+        };
+        return RandomStarBrush;
+    })(CanvasBrush);
+    Chameleon.RandomStarBrush = RandomStarBrush;
+    var SprayBrush = (function (_super) {
+        __extends(SprayBrush, _super);
+        function SprayBrush(radius, color) {
+            _super.call(this);
+            this.radius = radius;
+            this.color = color;
+            this._density = 70;
+        }
+        SprayBrush.prototype.beginStroke = function (position) {
+            this.context.beginPath();
+            this.context.fillStyle = this.color;
+        };
+        SprayBrush.prototype.paint = function (position, sample) {
+            for (var i = Math.max(1, Math.round(this._density * pressureOf(sample))); i--;) {
+                var dotRadius = Chameleon.getRandomFloat(0, this.radius);
+                var angle = Chameleon.getRandomFloat(0, Math.PI * 2);
+                var dotWidth = Chameleon.getRandomFloat(1, 2);
+                this.context.globalAlpha = Math.random() * this.flow;
+                this.context.fillRect(position.x + dotRadius * Math.cos(angle), position.y + dotRadius * Math.sin(angle), dotWidth, dotWidth);
+            }
+        };
+        return SprayBrush;
+    })(CanvasBrush);
+    Chameleon.SprayBrush = SprayBrush;
+    var TextureBrush = (function (_super) {
+        __extends(TextureBrush, _super);
+        function TextureBrush(radius, texture) {
+            _super.call(this);
+            this.radius = radius;
+            this.texture = texture;
+            this._lastPosition = new THREE.Vector2();
+        }
+        TextureBrush.prototype.beginStroke = function (position, sample) {
+            this.context.lineJoin = this.context.lineCap = 'round';
+            this.context.strokeStyle = this.context.createPattern(this.texture, 'repeat');
+            this._lastPosition.copy(position);
+        };
+        TextureBrush.prototype.paint = function (position, sample) {
+            // Stroke segment by segment, so that the line width can follow the pen pressure
+            this.context.lineWidth = this.radius * 2 * pressureOf(sample);
+            this.context.beginPath();
+            this.context.moveTo(this._lastPosition.x, this._lastPosition.y);
+            this.context.lineTo(position.x, position.y);
+            this.context.stroke();
+            this._lastPosition.copy(position);
+        };
+        return TextureBrush;
+    })(CanvasBrush);
+    Chameleon.TextureBrush = TextureBrush;
+    /**
+     * Strokes like MarkerBrush, but paints with the pixels of a source image that lie under the stroke,
+     * such as a photo aligned with the model on the screen
+     */
+    var CloneBrush = (function (_super) {
+        __extends(CloneBrush, _super);
+        function CloneBrush(radius, source) {
+            if (source === void 0) { source = null; }
+            _super.call(this);
+            this.radius = radius;
+            this.source = source;
+            this.sourceOffset = new THREE.Vector2(); // Where the top-left corner of the source is on the canvas
+            this._lastPosition = new THREE.Vector2();
+        }
+        CloneBrush.prototype.beginStroke = function (position, sample) {
+            // A pattern starts at the origin of the context, so the context is moved to the source
+            this.context.translate(this.sourceOffset.x, this.sourceOffset.y);
+            this.context.lineJoin = this.context.lineCap = 'round';
+            this.context.strokeStyle = this.source ? this.context.createPattern(this.source, 'no-repeat') : 'transparent';
+            this._lastPosition.subVectors(position, this.sourceOffset);
+        };
+        CloneBrush.prototype.paint = function (position, sample) {
+            this.context.lineWidth = this.radius * 2 * pressureOf(sample);
+            this.context.beginPath();
+            this.context.moveTo(this._lastPosition.x, this._lastPosition.y);
+            this._lastPosition.subVectors(position, this.sourceOffset);
+            this.context.lineTo(this._lastPosition.x, this._lastPosition.y);
+            this.context.stroke();
+        };
+        return CloneBrush;
+    })(CanvasBrush);
+    Chameleon.CloneBrush = CloneBrush;
+})(Chameleon || (Chameleon = {}));
+/// <reference path="./common.ts" />
+var Chameleon;
+(function (Chameleon) {
+    /**
+     * 'none' follows the pointer exactly. 'lazy' pulls the brush along on a string, so that it only moves once the
+     * pointer is farther away than the length of the string. 'average' puts the brush at the average of the latest
+     * pointer positions.
+     */
+    Chameleon.STABILIZER_MODES = ['none', 'lazy', 'average'];
+    function lerpSample(from, to, t) {
+        return {
+            pressure: from.pressure + (to.pressure - from.pressure) * t,
+            tiltX: from.tiltX + (to.tiltX - from.tiltX) * t,
+            tiltY: from.tiltY + (to.tiltY - from.tiltY) * t,
+            timeStamp: from.timeStamp + (to.timeStamp - from.timeStamp) * t
+        };
+    }
+    // The point at t of the uniform Catmull-Rom spline segment from p1 to p2
+    function catmullRom(p0, p1, p2, p3, t) {
+        return 0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t * t + (3 * p1 - p0 - 3 * p2 + p3) * t * t * t);
+    }
+    /**
+     * Smooths the pointer positions of a stroke and fills in the curve between them, so that the brush gets closely
+     * spaced points along a smooth path
+     */
+    var StrokeStabilizer = (function () {
+        function StrokeStabilizer() {
+            this.mode = 'none'; // One of STABILIZER_MODES
+            this.lazyRadius = 20; // Length of the string in 'lazy' mode, in pixels
+            this.averageCount = 8; // How many pointer positions are averaged in 'average' mode
+            this.interpolate = true; // Draw a spline through the points, instead of straight lines
+            this.segmentLength = 4; // The spline is divided into straight pieces of about this length, in pixels
+            this._pointerPoints = []; // The latest ones, for 'average' mode
+            this._points = []; // The latest smoothed ones, up to the four the spline needs
+        }
+        StrokeStabilizer.prototype.start = function (position, sample) {
+            var point = { position: position.clone(), sample: sample };
+            this._pointerPoints = [point];
+            this._points = [point];
+        };
+        /**
+         * @returns the points that the brush should be moved to, in order
+         */
+        StrokeStabilizer.prototype.add = function (position, sample) {
+            var point = this._stabilize({ position: position.clone(), sample: sample });
+            return point ? this._addSmoothed(point) : [];
+        };
+        /**
+         * @returns the points that the brush should be moved to at the end of the stroke
+         */
+        StrokeStabilizer.prototype.finish = function () {
+            var points = [];
+            // The average lags behind, so it catches up with the pointer. The lazy brush stays where it is.
+            if (this.mode === 'average' && this._pointerPoints.length > 0) {
+                points = this._addSmoothed(this._pointerPoints[this._pointerPoints.length - 1]);
+            }
+            var n = this._points.length;
+            if (this.interpolate && n >= 2) {
+                points = points.concat(this._curve(this._points[Math.max(n - 3, 0)], this._points[n - 2], this._points[n - 1], this._points[n - 1]));
+            }
+            this._pointerPoints = [];
+            this._points = [];
+            return points;
+        };
+        // null if the brush does not move
+        StrokeStabilizer.prototype._stabilize = function (point) {
+            var last = this._points[this._points.length - 1];
+            switch (this.mode) {
+                case 'lazy':
+                    var distance = point.position.distanceTo(last.position);
+                    if (distance <= this.lazyRadius) {
+                        return null;
+                    }
+                    return {
+                        position: last.position.clone().lerp(point.position, 1 - this.lazyRadius / distance),
+                        sample: point.sample
+                    };
+                case 'average':
+                    this._pointerPoints.push(point);
+                    if (this._pointerPoints.length > this.averageCount) {
+                        this._pointerPoints.splice(0, this._pointerPoints.length - this.averageCount);
+                    }
+                    var average = {
+                        position: new THREE.Vector2(),
+                        sample: { pressure: 0, tiltX: 0, tiltY: 0, timeStamp: point.sample.timeStamp }
+                    };
+                    var nPoints = this._pointerPoints.length;
+                    this._pointerPoints.forEach(function (pointerPoint) {
+                        average.position.add(pointerPoint.position);
+                        average.sample.pressure += pointerPoint.sample.pressure / nPoints;
+                        average.sample.tiltX += pointerPoint.sample.tiltX / nPoints;
+                        average.sample.tiltY += pointerPoint.sample.tiltY / nPoints;
+                    });
+                    average.position.divideScalar(nPoints);
+                    return average;
+                default:
+                    console.assert(this.mode === 'none');
+                    return point;
+            }
+        };
+        StrokeStabilizer.prototype._addSmoothed = function (point) {
+            var last = this._points[this._points.length - 1];
+            if (point.position.equals(last.position)) {
+                return [];
+            }
+            if (!this.interpolate) {
+                this._points = [point];
+                return [point];
             }
+            // A piece of the spline is known once the point after its end is
+            this._points.push(point);
+            if (this._points.length > 4) {
+                this._points.shift();
+            }
+            var n = this._points.length;
+            if (n < 3) {
+                return [];
+            }
+            return this._curve(this._points[Math.max(n - 4, 0)], this._points[n - 3], this._points[n - 2], point);
         };
-        StarBrush.prototype.finishStroke = function () {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
+        // Points along the spline from p1 to p2, without p1
+        StrokeStabilizer.prototype._curve = function (p0, p1, p2, p3) {
+            var nPieces = Math.max(Math.ceil(p1.position.distanceTo(p2.position) / this.segmentLength), 1);
+            var points = [];
+            for (var i = 1; i <= nPieces; i += 1) {
+                var t = i / nPieces;
+                points.push({
+                    position: new THREE.Vector2(catmullRom(p0.position.x, p1.position.x, p2.position.x, p3.position.x, t), catmullRom(p0.position.y, p1.position.y, p2.position.y, p3.position.y, t)),
+                    sample: lerpSample(p1.sample, p2.sample, t)
+                });
             }
+            return points;
         };
-        return StarBrush;
+        return StrokeStabilizer;
     })();
-    Chameleon.StarBrush = StarBrush;
-    var RandomStarBrush = (function () {
-        function RandomStarBrush(radius) {
-            this.radius = radius;
-            this._canvasContext = null;
-            this._lastPosition = new THREE.Vector2();
+    Chameleon.StrokeStabilizer = StrokeStabilizer;
+})(Chameleon || (Chameleon = {}));
+/// <reference path="./common.ts" />
+var Chameleon;
+(function (Chameleon) {
+    Chameleon.SYMMETRY_AXES = ['x', 'y', 'z'];
+    function axisVector(axis) {
+        console.assert(Chameleon.SYMMETRY_AXES.indexOf(axis) >= 0);
+        return new THREE.Vector3(axis === 'x' ? 1 : 0, axis === 'y' ? 1 : 0, axis === 'z' ? 1 : 0);
+    }
+    // Applies a transform about a center instead of the origin
+    function aboutCenter(transform, center) {
+        return new THREE.Matrix4().makeTranslation(center.x, center.y, center.z).multiply(transform).multiply(new THREE.Matrix4().makeTranslation(-center.x, -center.y, -center.z));
+    }
+    /**
+     * The reflection across the plane through center that is perpendicular to an axis
+     */
+    function mirrorSymmetry(axis, center) {
+        var scale = new THREE.Vector3(1, 1, 1).sub(axisVector(axis).multiplyScalar(2));
+        return [aboutCenter(new THREE.Matrix4().makeScale(scale.x, scale.y, scale.z), center)];
+    }
+    Chameleon.mirrorSymmetry = mirrorSymmetry;
+    /**
+     * The rotations about the line through center along an axis that repeat a stroke count times around it
+     */
+    function radialSymmetry(axis, center, count) {
+        var transforms = [];
+        for (var i = 1; i < count; i += 1) {
+            transforms.push(aboutCenter(new THREE.Matrix4().makeRotationAxis(axisVector(axis), Math.PI * 2 * i / count), center));
         }
-        RandomStarBrush.prototype.drawStar = function (position) {
-            var angle = Chameleon.getRandomInt(0, 180), width = Chameleon.getRandomInt(1, this.radius / 2.8), opacity = Math.random(), scale = Chameleon.getRandomInt(10, 20) / 20, color = ('rgb(' + Chameleon.getRandomInt(0, 255) + ',' + Chameleon.getRandomInt(0, 255) + ',' + Chameleon.getRandomInt(0, 255) + ')'), length = this.radius / 3.5;
-            this._canvasContext.save();
-            this._canvasContext.translate(position.x, position.y);
-            this._canvasContext.beginPath();
-            this._canvasContext.globalAlpha = opacity;
-            this._canvasContext.rotate(Math.PI / 180 * angle);
-            this._canvasContext.scale(scale, scale);
-            this._canvasContext.strokeStyle = color;
-            this._canvasContext.lineWidth = width;
-            for (var i = 5; i--;) {
-                this._canvasContext.lineTo(0, length);
-                this._canvasContext.translate(0, length);
-                this._canvasContext.rotate((Math.PI * 2 / 10));
-                this._canvasContext.lineTo(0, -length);
-                this._canvasContext.translate(0, -length);
-                this._canvasContext.rotate(-(Math.PI * 6 / 10));
-            }
-            this._canvasContext.lineTo(0, length);
-            this._canvasContext.closePath();
-            this._canvasContext.stroke();
-            this._canvasContext.restore();
-        };
-        RandomStarBrush.prototype.startStroke = function (canvas, position) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.save();
-            this._lastPosition.copy(position);
-            this.drawStar(position);
-        };
-        RandomStarBrush.prototype.continueStoke = function (position) {
-            if (this._canvasContext && position.distanceTo(this._lastPosition) > this.radius * 2 / 3) {
-                this._lastPosition.copy(position);
-                this.drawStar(position);
-            }
+        return transforms;
+    }
+    Chameleon.radialSymmetry = radialSymmetry;
+})(Chameleon || (Chameleon = {}));
+/// <reference path="./common.ts" />
+var Chameleon;
+(function (Chameleon) {
+    /**
+     * An image laid over the screen, which can be moved, scaled and rotated before it is painted onto the model
+     */
+    var ImageOverlay = (function () {
+        function ImageOverlay(image, position) {
+            this.image = image;
+            this.scale = 1;
+            this.angle = 0; // Clockwise, in degrees
+            this.opacity = 1;
+            this.position = position.clone();
+        }
+        /**
+         * Draws the image in its place, at the current opacity of the context
+         */
+        ImageOverlay.prototype.draw = function (context) {
+            context.save();
+            context.translate(this.position.x, this.position.y);
+            context.rotate(this.angle * Math.PI / 180);
+            context.scale(this.scale, this.scale);
+            context.drawImage(this.image, -this.image.width / 2, -this.image.height / 2);
+            context.restore();
         };
-        RandomStarBrush.prototype.finishStroke = function () {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
-            }
+        ImageOverlay.prototype.contains = function (point) {
+            // Undo the rotation and the scale, to compare against the image as it is
+            var angle = -this.angle * Math.PI / 180;
+            var dx = point.x - this.position.x, dy = point.y - this.position.y;
+            var x = (dx * Math.cos(angle) - dy * Math.sin(angle)) / this.scale, y = (dx * Math.sin(angle) + dy * Math.cos(angle)) / this.scale;
+            return Math.abs(x) <= this.image.width / 2 && Math.abs(y) <= this.image.height / 2;
         };
-        return RandomStarBrush;
+        return ImageOverlay;
     })();
-    Chameleon.RandomStarBrush = RandomStarBrush;
-    var SprayBrush = (function () {
-        function SprayBrush(radius, color) {
-            this.radius = radius;
-            this.color = color;
-            this._canvasContext = null;
-            this._density = 70;
+    Chameleon.ImageOverlay = ImageOverlay;
+})(Chameleon || (Chameleon = {}));
+/// <reference path="./common.ts" />
+var Chameleon;
+(function (Chameleon) {
+    Chameleon.TEXTURE_FORMATS = ['png', 'jpeg', 'webp'];
+    Chameleon.DEFAULT_BAKE_RESOLUTION = 1024;
+    function textureMimeType(format) {
+        console.assert(Chameleon.TEXTURE_FORMATS.indexOf(format) >= 0);
+        return 'image/' + format;
+    }
+    Chameleon.textureMimeType = textureMimeType;
+    function textureFileExtension(format) {
+        return (format === 'jpeg') ? '.jpg' : '.' + format;
+    }
+    Chameleon.textureFileExtension = textureFileExtension;
+    /**
+     * The side length of an exported texture, given the size it would naturally have
+     */
+    function exportTextureSize(naturalSize, options) {
+        var size = options.resolution || naturalSize;
+        if (options.powerOfTwo) {
+            size = Math.pow(2, Math.ceil(Math.log(size) / Math.LN2));
         }
-        SprayBrush.prototype.startStroke = function (canvas, position) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.beginPath();
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
-            this._canvasContext.fillStyle = this.color;
-        };
-        SprayBrush.prototype.continueStoke = function (position) {
-            if (this._canvasContext) {
-                for (var i = this._density; i--;) {
-                    var dotRadius = Chameleon.getRandomFloat(0, this.radius);
-                    var angle = Chameleon.getRandomFloat(0, Math.PI * 2);
-                    var dotWidth = Chameleon.getRandomFloat(1, 2);
-                    this._canvasContext.globalAlpha = Math.random();
-                    this._canvasContext.fillRect(position.x + dotRadius * Math.cos(angle), position.y + dotRadius * Math.sin(angle), dotWidth, dotWidth);
+        return Math.max(Math.round(size), 1);
+    }
+    Chameleon.exportTextureSize = exportTextureSize;
+    /**
+     * Scales a canvas to a new size. Reductions are done by halves, so that every source pixel is accounted for.
+     */
+    function resampleCanvas(canvas, width, height) {
+        var source = canvas;
+        do {
+            var resampled = document.createElement('canvas');
+            resampled.width = Math.max(width, Math.ceil(source.width / 2));
+            resampled.height = Math.max(height, Math.ceil(source.height / 2));
+            resampled.getContext('2d').drawImage(source, 0, 0, resampled.width, resampled.height);
+            source = resampled;
+        } while (source.width !== width || source.height !== height);
+        return source;
+    }
+    Chameleon.resampleCanvas = resampleCanvas;
+    /**
+     * Fills transparent pixels within nPixels of painted ones with the color of their painted neighbors, in place
+     */
+    function dilateCanvas(canvas, nPixels) {
+        var context = canvas.getContext('2d');
+        var copy = document.createElement('canvas');
+        copy.width = canvas.width;
+        copy.height = canvas.height;
+        var copyContext = copy.getContext('2d');
+        context.save();
+        // Shifted copies are only drawn where the canvas is still transparent
+        context.globalCompositeOperation = 'destination-over';
+        for (var i = 0; i < nPixels; i += 1) {
+            copyContext.clearRect(0, 0, copy.width, copy.height);
+            copyContext.drawImage(canvas, 0, 0);
+            for (var dx = -1; dx <= 1; dx += 1) {
+                for (var dy = -1; dy <= 1; dy += 1) {
+                    if (dx !== 0 || dy !== 0) {
+                        context.drawImage(copy, dx, dy);
+                    }
                 }
             }
-        };
-        SprayBrush.prototype.finishStroke = function () {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
+        }
+        context.restore();
+    }
+    Chameleon.dilateCanvas = dilateCanvas;
+    /**
+     * Prepares an image for export at the given size, which dilates it by the padding and, for formats without
+     * transparency, fills what remains transparent with the background color
+     */
+    function finishExportTexture(canvas, size, options, backgroundColor) {
+        // Always a copy, so the texture in use is left as it is
+        var result = resampleCanvas(canvas, size, size);
+        if (options.padding > 0) {
+            dilateCanvas(result, options.padding);
+        }
+        if ((options.format || 'png') === 'jpeg') {
+            var context = result.getContext('2d');
+            context.save();
+            context.globalCompositeOperation = 'destination-over';
+            context.fillStyle = backgroundColor;
+            context.fillRect(0, 0, result.width, result.height);
+            context.restore();
+        }
+        return result;
+    }
+    Chameleon.finishExportTexture = finishExportTexture;
+    /**
+     * Whether this browser can encode images in one of TEXTURE_FORMATS. PNG always works.
+     */
+    function canEncodeTextureFormat(format) {
+        var canvas = document.createElement('canvas');
+        canvas.width = canvas.height = 1;
+        // Browsers fall back to PNG for formats that they cannot encode
+        return canvas.toDataURL(textureMimeType(format)).indexOf('data:' + textureMimeType(format)) === 0;
+    }
+    Chameleon.canEncodeTextureFormat = canEncodeTextureFormat;
+    /**
+     * Encodes a canvas as a data URL in one of TEXTURE_FORMATS. Check the format with canEncodeTextureFormat first,
+     * as this throws if the browser cannot encode it.
+     */
+    function canvasToDataUrl(canvas, format, quality) {
+        if (format === void 0) { format = 'png'; }
+        var mimeType = textureMimeType(format);
+        var dataUrl = canvas.toDataURL(mimeType, quality);
+        // Browsers fall back to PNG for formats that they cannot encode
+        if (dataUrl.indexOf('data:' + mimeType) !== 0) {
+            throw new Error('This browser cannot encode ' + format.toUpperCase() + ' images');
+        }
+        return dataUrl;
+    }
+    Chameleon.canvasToDataUrl = canvasToDataUrl;
+})(Chameleon || (Chameleon = {}));
+/// <reference path="../jszip.d.ts" />
+/// <reference path="./common.ts" />
+/// <reference path="./layers.ts" />
+/// <reference path="./obj-exporter.ts" />
+/// <reference path="./texture-export.ts" />
+var Chameleon;
+(function (Chameleon) {
+    Chameleon.PROJECT_FILE_VERSION = 1;
+    /**
+     * Why data cannot be opened as a project file, or null if it can. It may be another zip file, such as an export,
+     * or a project saved by a newer version.
+     */
+    function projectFileError(data) {
+        try {
+            var zip = new JSZip(data);
+            var projectJson = zip.file('project.json');
+            if (!projectJson) {
+                return 'This zip file is not a project.';
             }
-        };
-        return SprayBrush;
-    })();
-    Chameleon.SprayBrush = SprayBrush;
-    var TextureBrush = (function () {
-        function TextureBrush(radius, texture) {
-            this.radius = radius;
-            this.texture = texture;
-            this._canvasContext = null;
+            var project = JSON.parse(projectJson.asText());
         }
-        TextureBrush.prototype.startStroke = function (canvas, position) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.beginPath();
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
-            this._canvasContext.lineWidth = this.radius * 2;
-            this._canvasContext.lineJoin = this._canvasContext.lineCap = 'round';
-            this._canvasContext.strokeStyle = this._canvasContext.createPattern(this.texture, 'repeat');
-            this._canvasContext.moveTo(position.x, position.y);
-        };
-        TextureBrush.prototype.continueStoke = function (position) {
-            if (this._canvasContext) {
-                this._canvasContext.lineTo(position.x, position.y);
-                this._canvasContext.moveTo(position.x, position.y);
-                this._canvasContext.stroke();
+        catch (e) {
+            return 'This file is not a project.';
+        }
+        if (!(project.version <= Chameleon.PROJECT_FILE_VERSION)) {
+            return 'This project was saved by a newer version (' + project.version + ').';
+        }
+        for (var i = 0; i < project.nPatches; i += 1) {
+            if (!zip.file(projectPatchFileName(i))) {
+                return 'This project is missing ' + projectPatchFileName(i) + '.';
+            }
+        }
+        return null;
+    }
+    Chameleon.projectFileError = projectFileError;
+    function projectPatchFileName(patchIndex) {
+        return 'patches/' + patchIndex + '.png';
+    }
+    Chameleon.projectPatchFileName = projectPatchFileName;
+    function saveGeometry(geometry, uvs) {
+        var vertices = [], faces = [], vertexNormals = [];
+        geometry.vertices.forEach(function (vertex) { return vertices.push(vertex.x, vertex.y, vertex.z); });
+        geometry.faces.forEach(function (face) {
+            faces.push(face.a, face.b, face.c);
+            for (var j = 0; j < 3; j += 1) {
+                var normal = face.vertexNormals[j] || face.normal;
+                vertexNormals.push(normal.x, normal.y, normal.z);
+            }
+        });
+        var savedUvs = null;
+        if (uvs) {
+            savedUvs = [];
+            uvs.forEach(function (faceUvs) { return faceUvs.forEach(function (uv) { return savedUvs.push(uv.x, uv.y); }); });
+        }
+        return { vertices: vertices, faces: faces, vertexNormals: vertexNormals, uvs: savedUvs };
+    }
+    Chameleon.saveGeometry = saveGeometry;
+    function restoreGeometry(saved) {
+        var geometry = new THREE.Geometry();
+        for (var i = 0; i < saved.vertices.length; i += 3) {
+            geometry.vertices.push(new THREE.Vector3(saved.vertices[i], saved.vertices[i + 1], saved.vertices[i + 2]));
+        }
+        for (var i = 0; i < saved.faces.length / 3; i += 1) {
+            var vertexNormals = [];
+            for (var j = 0; j < 3; j += 1) {
+                var k = i * 9 + j * 3;
+                vertexNormals.push(new THREE.Vector3(saved.vertexNormals[k], saved.vertexNormals[k + 1], saved.vertexNormals[k + 2]));
+            }
+            geometry.faces.push(new THREE.Face3(saved.faces[i * 3], saved.faces[i * 3 + 1], saved.faces[i * 3 + 2], vertexNormals));
+            if (saved.uvs) {
+                var faceUvs = [];
+                for (var j = 0; j < 3; j += 1) {
+                    faceUvs.push(new THREE.Vector2(saved.uvs[i * 6 + j * 2], saved.uvs[i * 6 + j * 2 + 1]));
+                }
+                geometry.faceVertexUvs[0].push(faceUvs);
             }
+        }
+        geometry.computeFaceNormals();
+        return geometry;
+    }
+    Chameleon.restoreGeometry = restoreGeometry;
+    function saveCamera(camera, target) {
+        return {
+            position: camera.position.toArray(),
+            up: camera.up.toArray(),
+            target: target.toArray(),
+            zoom: camera.zoom
         };
-        TextureBrush.prototype.finishStroke = function () {
-            if (this._canvasContext) {
-                this._canvasContext.moveTo(0, 0);
-                this._canvasContext.restore();
-                this._canvasContext = null;
+    }
+    Chameleon.saveCamera = saveCamera;
+    function restoreCamera(saved, camera, target) {
+        camera.position.fromArray(saved.position);
+        camera.up.fromArray(saved.up);
+        target.fromArray(saved.target);
+        camera.lookAt(target);
+        camera.zoom = saved.zoom;
+        camera.updateProjectionMatrix();
+    }
+    Chameleon.restoreCamera = restoreCamera;
+    function addCanvasToZip(zip, fileName, canvas, format, quality) {
+        if (format === void 0) { format = 'png'; }
+        var dataUrl = Chameleon.canvasToDataUrl(canvas, format, quality);
+        zip.file(fileName, dataUrl.substr(dataUrl.indexOf(',') + 1), { base64: true });
+    }
+    Chameleon.addCanvasToZip = addCanvasToZip;
+    /**
+     * Decodes PNG images stored in a zip file, which finishes asynchronously
+     * @param onError called instead of onLoad with a message, if an image is missing or cannot be decoded
+     */
+    function loadCanvasesFromZip(zip, fileNames, onLoad, onError) {
+        var canvases = new Array(fileNames.length);
+        var nRemaining = fileNames.length;
+        if (nRemaining === 0) {
+            onLoad(canvases);
+            return;
+        }
+        var missingFileName = fileNames.filter(function (fileName) { return !zip.file(fileName); })[0];
+        if (missingFileName) {
+            onError('The file is missing ' + missingFileName + '.');
+            return;
+        }
+        var hasFailed = false;
+        fileNames.forEach(function (fileName, i) {
+            var image = new Image();
+            image.onload = function () {
+                URL.revokeObjectURL(image.src);
+                var canvas = document.createElement('canvas');
+                canvas.width = image.width;
+                canvas.height = image.height;
+                canvas.getContext('2d').drawImage(image, 0, 0);
+                canvases[i] = canvas;
+                nRemaining -= 1;
+                if (nRemaining === 0) {
+                    onLoad(canvases);
+                }
+            };
+            image.onerror = function () {
+                URL.revokeObjectURL(image.src);
+                if (!hasFailed) {
+                    hasFailed = true;
+                    onError('The image ' + fileName + ' is damaged.');
+                }
+            };
+            image.src = URL.createObjectURL(new Blob([zip.file(fileName).asUint8Array()], { type: 'image/png' }));
+        });
+    }
+    Chameleon.loadCanvasesFromZip = loadCanvasesFromZip;
+})(Chameleon || (Chameleon = {}));
+/// <reference path="./common.ts" />
+/// <reference path="./texture-export.ts" />
+var Chameleon;
+(function (Chameleon) {
+    var GLB_MAGIC = 0x46546C67; // 'glTF'
+    var GLB_CHUNK_JSON = 0x4E4F534A; // 'JSON'
+    var GLB_CHUNK_BIN = 0x004E4942; // 'BIN'
+    var GL_FLOAT = 5126;
+    var GL_ARRAY_BUFFER = 34962;
+    var GL_LINEAR = 9729;
+    var GL_CLAMP_TO_EDGE = 33071;
+    function alignTo4(n) {
+        return Math.ceil(n / 4) * 4;
+    }
+    function binaryStringToBytes(binary) {
+        var bytes = new Uint8Array(binary.length);
+        for (var i = 0; i < binary.length; i += 1) {
+            bytes[i] = binary.charCodeAt(i);
+        }
+        return bytes;
+    }
+    function canvasToBytes(canvas, format, quality) {
+        var dataUrl = Chameleon.canvasToDataUrl(canvas, format, quality);
+        return binaryStringToBytes(atob(dataUrl.substr(dataUrl.indexOf(',') + 1)));
+    }
+    /**
+     * Writes a binary glTF 2.0 file (.glb) of a textured mesh, with the texture embedded as an image and used as
+     * the base color of a non-metallic, fully rough PBR material
+     *
+     * @param uvs UVs of each face into the texture
+     * @param format one of TEXTURE_FORMATS. WebP images need the EXT_texture_webp extension to be supported.
+     */
+    function exportGlb(geometry, uvs, texture, format, quality) {
+        if (format === void 0) { format = 'png'; }
+        // Vertices are not shared between faces, as UVs and normals are given per face
+        var nVertices = geometry.faces.length * 3;
+        var positions = new Float32Array(nVertices * 3), normals = new Float32Array(nVertices * 3), texCoords = new Float32Array(nVertices * 2);
+        var min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+        geometry.faces.forEach(function (face, faceIndex) {
+            var vertexIndices = [face.a, face.b, face.c];
+            for (var j = 0; j < 3; j += 1) {
+                var i = faceIndex * 3 + j;
+                var vertex = geometry.vertices[vertexIndices[j]];
+                var normal = face.vertexNormals[j] || face.normal;
+                positions.set([vertex.x, vertex.y, vertex.z], i * 3);
+                normals.set([normal.x, normal.y, normal.z], i * 3);
+                // glTF puts the origin of texture coordinates at the top left corner of the image
+                texCoords.set([uvs[faceIndex][j].x, 1 - uvs[faceIndex][j].y], i * 2);
+                var coordinates = [vertex.x, vertex.y, vertex.z];
+                for (var k = 0; k < 3; k += 1) {
+                    min[k] = Math.min(min[k], coordinates[k]);
+                    max[k] = Math.max(max[k], coordinates[k]);
+                }
+            }
+        });
+        var image = canvasToBytes(texture, format, quality);
+        // Lay out the binary chunk, keeping every part aligned to 4 bytes
+        var parts = [
+            new Uint8Array(positions.buffer),
+            new Uint8Array(normals.buffer),
+            new Uint8Array(texCoords.buffer),
+            image
+        ];
+        var bufferViews = [];
+        var byteOffset = 0;
+        parts.forEach(function (part, i) {
+            var bufferView = { buffer: 0, byteOffset: byteOffset, byteLength: part.length };
+            if (i < 3) {
+                bufferView.target = GL_ARRAY_BUFFER;
             }
+            bufferViews.push(bufferView);
+            byteOffset += alignTo4(part.length);
+        });
+        var binLength = byteOffset;
+        var json = {
+            asset: { version: '2.0', generator: 'chameleon.js' },
+            scene: 0,
+            scenes: [{ nodes: [0] }],
+            nodes: [{ mesh: 0 }],
+            meshes: [{
+                primitives: [{
+                    attributes: { POSITION: 0, NORMAL: 1, TEXCOORD_0: 2 },
+                    material: 0
+                }]
+            }],
+            materials: [{
+                pbrMetallicRoughness: {
+                    baseColorTexture: { index: 0 },
+                    metallicFactor: 0,
+                    roughnessFactor: 1
+                }
+            }],
+            textures: [{ source: 0, sampler: 0 }],
+            samplers: [{
+                magFilter: GL_LINEAR,
+                minFilter: GL_LINEAR,
+                wrapS: GL_CLAMP_TO_EDGE,
+                wrapT: GL_CLAMP_TO_EDGE
+            }],
+            images: [{ bufferView: 3, mimeType: Chameleon.textureMimeType(format) }],
+            accessors: [
+                { bufferView: 0, componentType: GL_FLOAT, count: nVertices, type: 'VEC3', min: min, max: max },
+                { bufferView: 1, componentType: GL_FLOAT, count: nVertices, type: 'VEC3' },
+                { bufferView: 2, componentType: GL_FLOAT, count: nVertices, type: 'VEC2' }
+            ],
+            bufferViews: bufferViews,
+            buffers: [{ byteLength: binLength }]
         };
-        return TextureBrush;
-    })();
-    Chameleon.TextureBrush = TextureBrush;
+        if (format === 'webp') {
+            json.extensionsUsed = json.extensionsRequired = ['EXT_texture_webp'];
+            json.textures = [{ sampler: 0, extensions: { EXT_texture_webp: { source: 0 } } }];
+        }
+        // Everything in the JSON is ASCII, so its characters are its UTF-8 bytes
+        var jsonBytes = binaryStringToBytes(JSON.stringify(json));
+        var jsonLength = alignTo4(jsonBytes.length);
+        // A 12-byte header, followed by the JSON and binary chunks with 8-byte headers of their own
+        var glb = new ArrayBuffer(12 + 8 + jsonLength + 8 + binLength);
+        var view = new DataView(glb);
+        var bytes = new Uint8Array(glb);
+        view.setUint32(0, GLB_MAGIC, true);
+        view.setUint32(4, 2, true);
+        view.setUint32(8, glb.byteLength, true);
+        view.setUint32(12, jsonLength, true);
+        view.setUint32(16, GLB_CHUNK_JSON, true);
+        bytes.set(jsonBytes, 20);
+        for (var i = 20 + jsonBytes.length; i < 20 + jsonLength; i += 1) {
+            bytes[i] = 0x20; // The JSON chunk is padded with spaces
+        }
+        var binStart = 20 + jsonLength;
+        view.setUint32(binStart, binLength, true);
+        view.setUint32(binStart + 4, GLB_CHUNK_BIN, true);
+        parts.forEach(function (part, i) { return bytes.set(part, binStart + 8 + bufferViews[i].byteOffset); });
+        return new Blob([glb], { type: 'model/gltf-binary' });
+    }
+    Chameleon.exportGlb = exportGlb;
 })(Chameleon || (Chameleon = {}));
 /// <reference path="../jszip.d.ts" />
-/// <reference path="../three-objloaderexporter.d.ts" />
 /// <reference path="./common.ts" />
 /// <reference path="./camera-controls.ts" />
 /// <reference path="./texture-manager.ts" />
 /// <reference path="./brushes.ts" />
+/// <reference path="./stroke-stabilizer.ts" />
+/// <reference path="./symmetry.ts" />
+/// <reference path="./image-overlay.ts" />
+/// <reference path="./project.ts" />
+/// <reference path="./gltf-exporter.ts" />
+/// <reference path="./obj-exporter.ts" />
+/// <reference path="./texture-export.ts" />
 var Chameleon;
 (function (Chameleon) {
     var ControlsState;
@@ -1192,10 +3918,13 @@ var Chameleon;
         ControlsState[ControlsState["Idle"] = 0] = "Idle";
         ControlsState[ControlsState["Draw"] = 1] = "Draw";
         ControlsState[ControlsState["View"] = 2] = "View";
+        ControlsState[ControlsState["MoveOverlay"] = 3] = "MoveOverlay";
+        ControlsState[ControlsState["PickColor"] = 4] = "PickColor";
     })(ControlsState || (ControlsState = {}));
     var Controls = (function () {
-        function Controls(geometry, canvas) {
+        function Controls(geometry, canvas, options) {
             var _this = this;
+            if (options === void 0) { options = {}; }
             this._state = 0 /* Idle */;
             this._mesh = new THREE.Mesh();
             this.canvasBox = { left: 0, top: 0, width: 0, height: 0 };
@@ -1221,31 +3950,110 @@ var Chameleon;
                 return renderer;
             })();
             this.brush = new Chameleon.Pencil();
-            this._mousedown = function (event) {
+            /**
+             * Smooths strokes between the pointer and the brush
+             */
+            this.stabilizer = new Chameleon.StrokeStabilizer();
+            /**
+             * Transforms that map the model onto itself, such as those of mirrorSymmetry and radialSymmetry.
+             * Every stroke is painted again through each of them.
+             */
+            this.symmetry = [];
+            this._strokeScreenPoints = []; // Of the stroke being painted, on the screen canvas
+            /**
+             * When set, clicking on the model fills a region of it instead of painting a stroke
+             */
+            this.bucketFill = null;
+            /**
+             * An image waiting to be painted onto the model by commitDecal. While it is shown, dragging moves it and
+             * the mouse wheel scales it.
+             */
+            this.decal = null;
+            /**
+             * A photo laid over the screen, which CloneBrush and projectReference paint from
+             */
+            this.reference = null;
+            /**
+             * While set, dragging and the mouse wheel move and scale the reference instead of painting
+             */
+            this.alignReference = false;
+            this._overlayDragStart = null; // Pointer position minus overlay position
+            /**
+             * Called with the color picked from the model by Alt+click, after it has been given to the brush
+             */
+            this.onColorPicked = null;
+            // Only the pointer that started the current interaction is followed, so a second finger does not interfere
+            this._pointerId = null;
+            this._pointerdown = function (event) {
                 event.preventDefault();
                 event.stopPropagation();
-                if (_this._state !== 0 /* Idle */) {
+                if (_this._state !== 0 /* Idle */ || !event.isPrimary) {
                     return;
                 }
+                _this._pointerId = event.pointerId;
+                var overlay = _this._movableOverlay;
+                if (!event.shiftKey && overlay) {
+                    var position = Chameleon.mousePositionInCanvas(event, _this.canvasBox);
+                    if (!overlay.contains(position)) {
+                        _this._pointerId = null;
+                        return;
+                    }
+                    _this._state = 3 /* MoveOverlay */;
+                    _this._overlayDragStart = position.sub(overlay.position);
+                    document.addEventListener('pointermove', _this._pointermove, false);
+                    document.addEventListener('pointerup', _this._pointerup, false);
+                    document.addEventListener('pointercancel', _this._pointerup, false);
+                    return;
+                }
+                if (!event.shiftKey && !event.altKey && _this._textureManager.isReady && !_this._textureManager.canPaint) {
+                    return; // The active layer is hidden or locked
+                }
                 // Hold shift key to rotate and pan
-                if (_this.perspectiveView || event.shiftKey) {
+                if (event.shiftKey || !_this._textureManager.isReady) {
                     _this._state = 2 /* View */;
                     _this._textureManager.useViewingTexture();
                     _this._perspectiveCameraControls.onMouseDown(event);
                     _this._orthographicCameraControls.onMouseDown(event);
                 }
+                else if (event.altKey) {
+                    // Hold Alt to pick a color from the model. The drawing texture is only used to find the face.
+                    _this._state = 4 /* PickColor */;
+                    _this._textureManager.useDrawingTexture();
+                    _this._showPickedColor(Chameleon.mousePositionInCanvas(event, _this.canvasBox));
+                }
+                else if (_this.bucketFill) {
+                    _this._textureManager.useDrawingTexture();
+                    var faceIndex = _this._textureManager.faceIndexAt(_this._textureManager.toDrawingPosition(Chameleon.mousePositionInCanvas(event, _this.canvasBox)));
+                    if (faceIndex >= 0) {
+                        _this._textureManager.fill(faceIndex, _this.bucketFill);
+                    }
+                    _this._textureManager.useViewingTexture();
+                    _this._pointerId = null;
+                    return;
+                }
                 else {
                     _this._state = 1 /* Draw */;
                     _this._textureManager.useDrawingTexture();
-                    var pos = Chameleon.mousePositionInCanvas(event, _this.canvasBox);
-                    _this.brush.startStroke(_this._textureManager.drawingCanvas, pos);
-                    _this._textureManager.onStrokePainted(pos, _this.brush.radius, true);
+                    if (_this.brush instanceof Chameleon.EraserBrush) {
+                        // Only the bottom layer is opaque. Erasing the layers above it shows what is below.
+                        _this.brush.backgroundColor = (_this._textureManager.activeLayerIndex === 0) ? _this.backgroundColor : null;
+                    }
+                    if (_this.brush instanceof Chameleon.CloneBrush) {
+                        _this.brush.source = _this._referenceImage();
+                    }
+                    var point = {
+                        position: Chameleon.mousePositionInCanvas(event, _this.canvasBox),
+                        sample: Chameleon.strokeSampleFromPointerEvent(event)
+                    };
+                    _this._strokeScreenPoints = [point];
+                    _this._startStroke(point.position, point.sample);
                 }
-                document.addEventListener('mousemove', _this._mousemove, false);
-                document.addEventListener('mouseup', _this._mouseup, false);
+                document.addEventListener('pointermove', _this._pointermove, false);
+                document.addEventListener('pointerup', _this._pointerup, false);
+                document.addEventListener('pointercancel', _this._pointerup, false);
             };
-            this._mousemove = function (event) {
-                if (_this._state === 0 /* Idle */) {
+            this._pointermove = function (event) {
+                if (_this._state === 0 /* Idle */ || event.pointerId !== _this._pointerId) {
                     return;
                 }
                 event.preventDefault();
@@ -1256,36 +4064,98 @@ var Chameleon;
                         _this._orthographicCameraControls.onMouseMove(event);
                         break;
                     case 1 /* Draw */:
-                        var pos = Chameleon.mousePositionInCanvas(event, _this.canvasBox);
-                        _this.brush.continueStoke(pos);
-                        _this._textureManager.onStrokePainted(pos, _this.brush.radius, false);
+                        var point = {
+                            position: Chameleon.mousePositionInCanvas(event, _this.canvasBox),
+                            sample: Chameleon.strokeSampleFromPointerEvent(event)
+                        };
+                        _this._strokeScreenPoints.push(point);
+                        _this._addToStroke(point.position, point.sample);
+                        break;
+                    case 4 /* PickColor */:
+                        _this._showPickedColor(Chameleon.mousePositionInCanvas(event, _this.canvasBox));
+                        break;
+                    case 3 /* MoveOverlay */:
+                        var position = Chameleon.mousePositionInCanvas(event, _this.canvasBox);
+                        _this._movableOverlay.position = position.sub(_this._overlayDragStart);
+                        _this.update();
                         break;
                     default:
                         debugger;
                 }
             };
-            this._mouseup = function (event) {
+            this._pointerup = function (event) {
+                if (event.pointerId !== _this._pointerId) {
+                    return;
+                }
                 event.preventDefault();
                 event.stopPropagation();
-                _this.brush.finishStroke();
+                if (_this._state === 1 /* Draw */) {
+                    _this._finishStroke();
+                    // Commit the stroke to the viewing texture, so that each stroke can be undone on its own,
+                    // together with its symmetric copies
+                    _this._textureManager.beginEditGroup();
+                    _this._textureManager.useViewingTexture();
+                    _this._paintSymmetricStrokes();
+                    _this._textureManager.endEditGroup();
+                    _this._strokeScreenPoints = [];
+                }
+                else if (_this._state === 4 /* PickColor */) {
+                    var color = _this._textureManager.colorAt(_this._textureManager.toDrawingPosition(Chameleon.mousePositionInCanvas(event, _this.canvasBox)));
+                    _this._textureManager.useViewingTexture();
+                    if (color) {
+                        if ('color' in _this.brush) {
+                            _this.brush.color = color;
+                        }
+                        if (_this.onColorPicked) {
+                            _this.onColorPicked(color);
+                        }
+                    }
+                }
                 _this.update();
                 _this._perspectiveCameraControls.onMouseUp(event);
                 _this._orthographicCameraControls.onMouseUp(event);
                 _this._state = 0 /* Idle */;
-                document.removeEventListener('mousemove', _this._mousemove);
-                document.removeEventListener('mouseup', _this._mouseup);
+                _this._pointerId = null;
+                document.removeEventListener('pointermove', _this._pointermove);
+                document.removeEventListener('pointerup', _this._pointerup);
+                document.removeEventListener('pointercancel', _this._pointerup);
             };
             this._mousewheel = function (event) {
                 event.preventDefault();
                 event.stopPropagation();
-                if (_this._state === 1 /* Draw */ || !_this.perspectiveView && !event.shiftKey) {
+                if (_this._state === 0 /* Idle */ && _this._movableOverlay && !event.shiftKey) {
+                    var delta = event.wheelDelta ? event.wheelDelta / 120 : -event.detail / 3;
+                    _this._movableOverlay.scale *= Math.pow(1.1, delta);
+                    _this.update();
+                    return;
+                }
+                if (_this._state !== 0 /* Idle */ && _this._state !== 2 /* View */ || !_this.perspectiveView && !event.shiftKey) {
                     return;
                 }
                 _this._textureManager.useViewingTexture();
                 _this._perspectiveCameraControls.onMouseWheel(event);
                 _this._orthographicCameraControls.onMouseWheel(event);
             };
+            this._keydown = function (event) {
+                // Ctrl+Z to undo, Ctrl+Shift+Z to redo (Cmd instead of Ctrl on Mac)
+                if (!(event.ctrlKey || event.metaKey) || event.keyCode !== 90) {
+                    return;
+                }
+                // Text fields, such as those of the GUI, undo their own edits
+                var target = event.target;
+                if (target && (/^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName) || target.isContentEditable)) {
+                    return;
+                }
+                event.preventDefault();
+                if (event.shiftKey) {
+                    _this.redo();
+                }
+                else {
+                    _this.undo();
+                }
+            };
             this.geometry = geometry.clone();
+            this.faceGroups = options.faceGroups || null;
             // Note that a crucial assumption is that this Mesh object will never be transformed (rotated, scaled, or translated)
             // This is crucial for both TextureManager and CameraControls to work properly
             this._mesh.geometry = this.geometry;
@@ -1294,11 +4164,14 @@ var Chameleon;
             }
             this.canvas = canvas;
             this.canvas.addEventListener('contextmenu', function (e) { return e.preventDefault(); }, false);
-            this.canvas.addEventListener('mousedown', this._mousedown, false);
+            // Let touch and pen input reach the pointer event handlers instead of scrolling the page
+            this.canvas.style.touchAction = 'none';
+            this.canvas.addEventListener('pointerdown', this._pointerdown, false);
             this.canvas.addEventListener('mousewheel', this._mousewheel, false);
             this.canvas.addEventListener('DOMMouseScroll', this._mousewheel, false); // firefox
+            document.addEventListener('keydown', this._keydown, false);
             this._initializeCamera();
-            this._textureManager = new Chameleon.TextureManager(this._mesh, this._renderer, this._orthographicCamera);
+            this._textureManager = new Chameleon.TextureManager(this._mesh, this._renderer, this._orthographicCamera, options.onProgress, options.texture);
             this.handleResize();
             this.update();
         }
@@ -1319,9 +4192,27 @@ var Chameleon;
                     return;
                 }
                 this._perspectiveView = value;
-                if (value) {
-                    this._textureManager.useViewingTexture();
-                }
+                this._textureManager.camera = value ? this._perspectiveCamera : this._orthographicCamera;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(Controls.prototype, "creaseAngle", {
+            get: function () {
+                return this._textureManager.creaseAngle;
+            },
+            set: function (value) {
+                this._textureManager.creaseAngle = value;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(Controls.prototype, "stayOnSurface", {
+            get: function () {
+                return this._textureManager.stayOnSurface;
+            },
+            set: function (value) {
+                this._textureManager.stayOnSurface = value;
             },
             enumerable: true,
             configurable: true
@@ -1337,6 +4228,14 @@ var Chameleon;
             enumerable: true,
             configurable: true
         });
+        Object.defineProperty(Controls.prototype, "_movableOverlay", {
+            // The overlay that the pointer moves, if any. The decal goes first, as it hides the reference.
+            get: function () {
+                return this.decal || (this.alignReference ? this.reference : null);
+            },
+            enumerable: true,
+            configurable: true
+        });
         Controls.prototype.handleResize = function () {
             var devicePixelRatio = window.devicePixelRatio || 1; // Evaluates to 2 if Retina
             this._renderer.setSize(this.canvas.width / devicePixelRatio, this.canvas.height / devicePixelRatio);
@@ -1346,6 +4245,7 @@ var Chameleon;
             this._textureManager.useViewingTexture();
         };
         Controls.prototype.update = function () {
+            var _this = this;
             this._perspectiveCameraControls.updateCamera();
             this._orthographicCameraControls.updateCamera();
             if (this.perspectiveView) {
@@ -1356,7 +4256,234 @@ var Chameleon;
                 this._headLight.position.copy(this._orthographicCamera.position);
                 this._renderer.render(this._scene, this._orthographicCamera);
             }
-            this.canvas.getContext('2d').drawImage(this._renderer.domElement, 0, 0);
+            var context = this.canvas.getContext('2d');
+            context.drawImage(this._renderer.domElement, 0, 0);
+            [this.reference, this.decal].forEach(function (overlay) {
+                if (overlay) {
+                    context.save();
+                    // The screen canvas may have more pixels than canvasBox, such as on Retina displays
+                    context.scale(_this.canvas.width / _this.canvasBox.width, _this.canvas.height / _this.canvasBox.height);
+                    context.globalAlpha = overlay.opacity;
+                    overlay.draw(context);
+                    context.restore();
+                }
+            });
+        };
+        /**
+         * Shows an image as the decal, in the middle of the screen and small enough to fit in half of it
+         */
+        Controls.prototype.placeDecal = function (image) {
+            var center = new THREE.Vector2(this.canvasBox.width / 2, this.canvasBox.height / 2);
+            this.decal = new Chameleon.ImageOverlay(image, center);
+            this.decal.scale = Math.min(this.canvasBox.width / 2 / image.width, this.canvasBox.height / 2 / image.height, 1);
+            this.update();
+            return this.decal;
+        };
+        /**
+         * Shows a photo as the reference, in the middle of the screen and fitted to it
+         */
+        Controls.prototype.placeReference = function (image) {
+            var center = new THREE.Vector2(this.canvasBox.width / 2, this.canvasBox.height / 2);
+            this.reference = new Chameleon.ImageOverlay(image, center);
+            this.reference.scale = Math.min(this.canvasBox.width / image.width, this.canvasBox.height / image.height);
+            this.update();
+            return this.reference;
+        };
+        /**
+         * Paints the decal onto the faces under it, through the current camera, as a single step of the history
+         *
+         * @param maxAngle faces turned further than this away from the camera are left out, in degrees
+         * @returns the number of faces painted
+         */
+        Controls.prototype.commitDecal = function (maxAngle) {
+            if (maxAngle === void 0) { maxAngle = 90; }
+            if (!this.decal || this._state !== 0 /* Idle */ || !this._textureManager.isReady || !this._textureManager.canPaint) {
+                return 0;
+            }
+            var image = document.createElement('canvas');
+            image.width = this.canvasBox.width;
+            image.height = this.canvasBox.height;
+            this.decal.draw(image.getContext('2d'));
+            var nFaces = this._textureManager.projectImage(image, { opacity: this.decal.opacity, maxAngle: maxAngle });
+            this.decal = null;
+            this.update();
+            return nFaces;
+        };
+        /**
+         * Paints the reference onto every face that it covers and that can be seen, as a single step of the history
+         *
+         * @param maxAngle faces turned further than this away from the camera are left out, in degrees
+         * @returns the number of faces painted
+         */
+        Controls.prototype.projectReference = function (maxAngle) {
+            if (maxAngle === void 0) { maxAngle = 90; }
+            if (!this.reference || this._state !== 0 /* Idle */ || !this._textureManager.isReady || !this._textureManager.canPaint) {
+                return 0;
+            }
+            var nFaces = this._textureManager.projectImage(this._referenceImage(), { maxAngle: maxAngle });
+            this.update();
+            return nFaces;
+        };
+        // The reference as it is laid over the screen, fully opaque
+        Controls.prototype._referenceImage = function () {
+            var image = document.createElement('canvas');
+            image.width = this.canvasBox.width;
+            image.height = this.canvasBox.height;
+            if (this.reference) {
+                this.reference.draw(image.getContext('2d'));
+            }
+            return image;
+        };
+        Controls.prototype.cancelDecal = function () {
+            this.decal = null;
+            this.update();
+        };
+        Controls.prototype._startStroke = function (screenPos, sample) {
+            var pos = this._textureManager.toDrawingPosition(screenPos);
+            if (this.brush instanceof Chameleon.CloneBrush) {
+                // The source is laid over the screen, which moves on the drawing canvas with the camera
+                this.brush.sourceOffset = this._textureManager.toDrawingPosition(new THREE.Vector2());
+            }
+            this.stabilizer.start(pos, sample);
+            this.brush.startStroke(this._textureManager.drawingCanvas, pos, sample);
+            this._textureManager.onStrokePainted(pos, this.brush.paintedRadius(), true);
+        };
+        Controls.prototype._addToStroke = function (screenPos, sample) {
+            this._continueStroke(this.stabilizer.add(this._textureManager.toDrawingPosition(screenPos), sample));
+        };
+        Controls.prototype._finishStroke = function () {
+            this._continueStroke(this.stabilizer.finish());
+            this.brush.finishStroke();
+        };
+        // Every point is tracked on the model, so that the faces along the whole path of the brush are painted
+        Controls.prototype._continueStroke = function (points) {
+            var _this = this;
+            points.forEach(function (point) {
+                _this.brush.continueStoke(point.position, point.sample);
+                _this._textureManager.onStrokePainted(point.position, _this.brush.paintedRadius(), false);
+            });
+        };
+        // Shows a swatch of the color under the pointer next to it
+        Controls.prototype._showPickedColor = function (screenPos) {
+            var color = this._textureManager.colorAt(this._textureManager.toDrawingPosition(screenPos));
+            this.update();
+            if (!color) {
+                return;
+            }
+            var context = this.canvas.getContext('2d');
+            context.save();
+            context.scale(this.canvas.width / this.canvasBox.width, this.canvas.height / this.canvasBox.height);
+            context.beginPath();
+            context.arc(screenPos.x + 24, screenPos.y - 24, 16, 0, Math.PI * 2);
+            context.fillStyle = color;
+            context.fill();
+            context.lineWidth = 2;
+            context.strokeStyle = '#FFFFFF';
+            context.stroke();
+            context.restore();
+        };
+        /**
+         * Paints the stroke that was just committed again through each transform of the symmetry. The camera is moved
+         * by the transform as well, so the copy lands on the faces that the camera would see there, even where they
+         * face away from the actual camera.
+         */
+        Controls.prototype._paintSymmetricStrokes = function () {
+            var _this = this;
+            var camera = this._textureManager.camera;
+            this.symmetry.forEach(function (transform) {
+                var symmetricCamera = camera.clone();
+                var matrix = new THREE.Matrix4().multiplyMatrices(transform, camera.matrixWorld);
+                var isMirrored = transform.determinant() < 0;
+                if (isMirrored) {
+                    // A camera cannot be mirrored, so it is flipped across its own x axis too, which mirrors the screen
+                    matrix.multiply(new THREE.Matrix4().makeScale(-1, 1, 1));
+                    if (symmetricCamera instanceof THREE.OrthographicCamera) {
+                        var orthographicCamera = symmetricCamera;
+                        var left = orthographicCamera.left;
+                        orthographicCamera.left = -orthographicCamera.right;
+                        orthographicCamera.right = -left;
+                        orthographicCamera.updateProjectionMatrix();
+                    }
+                }
+                matrix.decompose(symmetricCamera.position, symmetricCamera.quaternion, symmetricCamera.scale);
+                symmetricCamera.updateMatrixWorld(true);
+                symmetricCamera.matrixWorldInverse.getInverse(symmetricCamera.matrixWorld);
+                _this._textureManager.camera = symmetricCamera;
+                _this._textureManager.useDrawingTexture();
+                _this._strokeScreenPoints.forEach(function (point, i) {
+                    var screenPos = isMirrored ? new THREE.Vector2(_this.canvasBox.width - point.position.x, point.position.y) : point.position;
+                    if (i === 0) {
+                        _this._startStroke(screenPos, point.sample);
+                    }
+                    else {
+                        _this._addToStroke(screenPos, point.sample);
+                    }
+                });
+                _this._finishStroke();
+                _this._textureManager.useViewingTexture();
+            });
+            this._textureManager.camera = camera;
+        };
+        Object.defineProperty(Controls.prototype, "canUndo", {
+            get: function () {
+                return this._textureManager.canUndo;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(Controls.prototype, "canRedo", {
+            get: function () {
+                return this._textureManager.canRedo;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Controls.prototype.undo = function () {
+            if (this._state !== 0 /* Idle */) {
+                return false;
+            }
+            return this._textureManager.undo();
+        };
+        Controls.prototype.redo = function () {
+            if (this._state !== 0 /* Idle */) {
+                return false;
+            }
+            return this._textureManager.redo();
+        };
+        Controls.prototype.clearHistory = function () {
+            this._textureManager.clearHistory();
+        };
+        Object.defineProperty(Controls.prototype, "layers", {
+            /**
+             * The paint layers, from bottom to top. Use the methods below to change them.
+             */
+            get: function () {
+                return this._textureManager.layers;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(Controls.prototype, "activeLayerIndex", {
+            get: function () {
+                return this._textureManager.activeLayerIndex;
+            },
+            set: function (value) {
+                this._textureManager.activeLayerIndex = value;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Controls.prototype.addLayer = function (name) {
+            return this._textureManager.addLayer(name);
+        };
+        Controls.prototype.removeLayer = function (index) {
+            return this._textureManager.removeLayer(index);
+        };
+        Controls.prototype.moveLayer = function (index, newIndex) {
+            this._textureManager.moveLayer(index, newIndex);
+        };
+        Controls.prototype.updateLayer = function (index, properties) {
+            this._textureManager.updateLayer(index, properties);
         };
         Controls._computeBoundingBallRadius = function (geometry) {
             var radius = 0;
@@ -1397,21 +4524,189 @@ var Chameleon;
             this._perspectiveCameraControls.handleResize();
             this._textureManager.useViewingTexture();
         };
-        Controls.prototype.packTexture = function () {
+        /**
+         * @param separateLayers export one image per layer, instead of a single image with the layers composited
+         */
+        Controls.prototype.packTexture = function (separateLayers, options) {
+            var _this = this;
+            if (separateLayers === void 0) { separateLayers = false; }
+            if (options === void 0) { options = {}; }
+            var size = this._packForExport(options);
+            return this._zipTexturedModel(this._textureManager.packedTextureUvs, separateLayers, size, options, function () { return _this._textureManager.packedTexture; }, function (layerIndex) { return _this._textureManager.packLayer(layerIndex); });
+        };
+        /**
+         * Exports the model with the packed texture as a binary glTF 2.0 file (.glb)
+         */
+        Controls.prototype.exportGlb = function (options) {
+            if (options === void 0) { options = {}; }
+            var size = this._packForExport(options);
+            var texture = Chameleon.finishExportTexture(this._textureManager.packedTexture, size, options, this.backgroundColor);
+            return Chameleon.exportGlb(this.geometry, this._textureManager.packedTextureUvs, texture, options.format, options.quality);
+        };
+        Object.defineProperty(Controls.prototype, "packingEfficiency", {
+            /**
+             * The fraction of the packed texture covered by patches, as of the last export that packed it
+             */
+            get: function () {
+                return this._textureManager.packingEfficiency;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        // Packs the texture with enough space between patches for the padding to remain once it is resampled,
+        // and returns the size of the exported texture
+        Controls.prototype._packForExport = function (options) {
+            var padding = options.padding || 0;
+            this._textureManager.packingPadding = padding;
             this._textureManager.usePackedTexture();
+            var size = Chameleon.exportTextureSize(this._textureManager.packedTexture.width, options);
+            for (var nTries = 0; nTries < 4; nTries += 1) {
+                var scale = size / this._textureManager.packedTexture.width;
+                if (this._textureManager.packingPadding * scale >= padding) {
+                    break;
+                }
+                this._textureManager.packingPadding = Math.ceil(padding / scale);
+                this._textureManager.usePackedTexture();
+                size = Chameleon.exportTextureSize(this._textureManager.packedTexture.width, options);
+            }
+            return size;
+        };
+        Object.defineProperty(Controls.prototype, "hasOriginalUvs", {
+            /**
+             * Whether the model came with UVs, which bakeTexture can keep
+             */
+            get: function () {
+                return this._textureManager.originalUvs !== null;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        /**
+         * Like packTexture, but keeps the UVs that the model came with, and bakes the texture into their layout
+         */
+        Controls.prototype.bakeTexture = function (separateLayers, options) {
+            var _this = this;
+            if (separateLayers === void 0) { separateLayers = false; }
+            if (options === void 0) { options = {}; }
+            this._textureManager.useViewingTexture();
+            var size = Chameleon.exportTextureSize(Chameleon.DEFAULT_BAKE_RESOLUTION, options);
+            return this._zipTexturedModel(this._textureManager.originalUvs, separateLayers, size, options, function () { return _this._textureManager.bakeToOriginalUvs(size, size); }, function (layerIndex) { return _this._textureManager.bakeToOriginalUvs(size, size, layerIndex); });
+        };
+        // Zips the texture images together with the model and a material library that maps the texture onto it.
+        // With separate layers, the material shows the bottom layer.
+        Controls.prototype._zipTexturedModel = function (uvs, separateLayers, size, options, drawTexture, drawLayer) {
+            var _this = this;
+            var zip = new JSZip();
+            var format = options.format || 'png';
+            var extension = Chameleon.textureFileExtension(format);
+            var addTexture = function (fileName, canvas) {
+                var texture = Chameleon.finishExportTexture(canvas, size, options, _this.backgroundColor);
+                Chameleon.addCanvasToZip(zip, fileName, texture, format, options.quality);
+                textureFileNames.push(fileName);
+            };
+            var textureFileNames = [];
+            if (separateLayers) {
+                var layers = this._textureManager.layers;
+                for (var i = 0; i < layers.length; i += 1) {
+                    // Numbered from the bottom layer up
+                    addTexture('layer-' + (i + 1) + '-' + layers[i].name.replace(/[^\w-]+/g, '_') + extension, drawLayer(i));
+                }
+            }
+            else {
+                addTexture('texture' + extension, drawTexture());
+            }
+            zip.file('model.obj', Chameleon.exportObj(this.geometry, uvs, this.faceGroups, 'model.mtl', 'texture'));
+            zip.file('model.mtl', Chameleon.exportMtl('texture', textureFileNames[0]));
+            return zip.generate({ type: 'blob' });
+        };
+        /**
+         * Saves the model, its paint layers, the background color and the cameras in a zip file, which can be opened
+         * with Controls.openProject to continue painting
+         * @param settings anything else to store in the project, such as brush settings. It must be serializable as JSON.
+         */
+        Controls.prototype.saveProject = function (settings) {
+            var saved = this._textureManager.saveLayers();
+            var project = {
+                version: Chameleon.PROJECT_FILE_VERSION,
+                geometry: Chameleon.saveGeometry(this.geometry, this._textureManager.originalUvs),
+                backgroundColor: this.backgroundColor,
+                layers: saved.layers,
+                activeLayerIndex: this._textureManager.activeLayerIndex,
+                nPatches: saved.patches.length,
+                perspectiveView: this.perspectiveView,
+                orthographicCamera: Chameleon.saveCamera(this._orthographicCamera, this._orthographicCameraControls.target),
+                perspectiveCamera: Chameleon.saveCamera(this._perspectiveCamera, this._perspectiveCameraControls.target),
+                faceGroups: this.faceGroups,
+                settings: (settings === undefined) ? null : settings
+            };
             var zip = new JSZip();
-            var textureDataUrl = this._textureManager.packedTexture.toDataURL();
-            zip.file('texture.png', textureDataUrl.substr(textureDataUrl.indexOf(',') + 1), { base64: true });
-            var objData = new THREE.OBJExporter().parse(this.geometry);
-            zip.file('model.obj', objData);
+            zip.file('project.json', JSON.stringify(project));
+            saved.patches.forEach(function (patch, i) { return Chameleon.addCanvasToZip(zip, Chameleon.projectPatchFileName(i), patch); });
             return zip.generate({ type: 'blob' });
         };
+        /**
+         * Opens a project saved by saveProject. Its images are decoded asynchronously.
+         * Check the data with projectFileError first, as this throws if it cannot be opened.
+         * @param onLoad called with the new instance, and the settings that were saved in the project
+         * @param onError called instead of onLoad with a message, if the images of the project cannot be decoded
+         */
+        Controls.openProject = function (data, canvas, options, onLoad, onError) {
+            var error = Chameleon.projectFileError(data);
+            if (error) {
+                throw new Error(error);
+            }
+            var zip = new JSZip(data);
+            var project = JSON.parse(zip.file('project.json').asText());
+            var controlsOptions = {
+                onProgress: options.onProgress,
+                faceGroups: project.faceGroups || null
+            };
+            var controls = new Controls(Chameleon.restoreGeometry(project.geometry), canvas, controlsOptions);
+            var patchFileNames = [];
+            for (var i = 0; i < project.nPatches; i += 1) {
+                patchFileNames.push(Chameleon.projectPatchFileName(i));
+            }
+            Chameleon.loadCanvasesFromZip(zip, patchFileNames, function (patches) {
+                controls._textureManager.backgroundColor = project.backgroundColor;
+                controls._textureManager.loadLayers(project.layers, patches, project.activeLayerIndex);
+                Chameleon.restoreCamera(project.orthographicCamera, controls._orthographicCamera, controls._orthographicCameraControls.target);
+                Chameleon.restoreCamera(project.perspectiveCamera, controls._perspectiveCamera, controls._perspectiveCameraControls.target);
+                controls.perspectiveView = project.perspectiveView;
+                onLoad(controls, project.settings);
+            }, function (message) {
+                controls.dispose();
+                onError(message);
+            });
+        };
+        /**
+         * Gathers the texture patches that painting has piled up into a few large images, to save memory.
+         * This also happens automatically once there are many of them.
+         */
+        Controls.prototype.compact = function () {
+            this._textureManager.compact();
+        };
+        Object.defineProperty(Controls.prototype, "isReady", {
+            get: function () {
+                return this._textureManager.isReady;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        /**
+         * Stops listening to input and any background work. Call this before discarding the instance.
+         */
+        Controls.prototype.dispose = function () {
+            this.removeEventListeners();
+            this._textureManager.dispose();
+        };
         Controls.prototype.removeEventListeners = function () {
-            document.removeEventListener('mousedown', this._mousedown);
-            document.removeEventListener('mousewheel', this._mousewheel);
-            document.removeEventListener('DOMMouseScroll', this._mousewheel);
-            document.removeEventListener('mousemove', this._mousemove);
-            document.removeEventListener('mouseup', this._mouseup);
+            this.canvas.removeEventListener('pointerdown', this._pointerdown);
+            this.canvas.removeEventListener('mousewheel', this._mousewheel);
+            this.canvas.removeEventListener('DOMMouseScroll', this._mousewheel);
+            document.removeEventListener('pointermove', this._pointermove);
+            document.removeEventListener('pointerup', this._pointerup);
+            document.removeEventListener('pointercancel', this._pointerup);
+            document.removeEventListener('keydown', this._keydown);
         };
         return Controls;
     })();
@@ -1421,10 +4716,14 @@ var Chameleon;
 /// <reference path="./chameleon/brushes.ts" />
 var Chameleon;
 (function (Chameleon) {
-    function create(geometry, canvas) {
-        return new Chameleon.Controls(geometry, canvas);
+    function create(geometry, canvas, options) {
+        return new Chameleon.Controls(geometry, canvas, options);
     }
     Chameleon.create = create;
+    function openProject(data, canvas, options, onLoad, onError) {
+        Chameleon.Controls.openProject(data, canvas, options, onLoad, onError);
+    }
+    Chameleon.openProject = openProject;
 })(Chameleon || (Chameleon = {}));
 /// <reference path="./three.d.ts" />
 /// <reference path="./three-objloaderexporter.d.ts" />
@@ -1434,6 +4733,10 @@ var Chameleon;
     var chameleon;
     var screenCanvas = document.createElement('canvas');
     document.body.appendChild(screenCanvas);
+    // Shows progress while a newly loaded model is being prepared for painting
+    var statusElement = document.createElement('div');
+    statusElement.style.cssText = 'position: absolute; left: 10px; bottom: 10px; font: 14px sans-serif; color: #333;';
+    document.body.appendChild(statusElement);
     var onresize = function () {
         screenCanvas.height = window.innerHeight;
         screenCanvas.width = window.innerWidth;
@@ -1443,12 +4746,44 @@ var Chameleon;
     };
     onresize();
     window.addEventListener('resize', onresize, false);
+    // Labels of BLEND_MODES for dat.GUI, mapped to the modes
+    function blendModeOptions() {
+        var options = {};
+        Chameleon.BLEND_MODES.forEach(function (blendMode) {
+            var label = (blendMode === 'source-over') ? 'Normal' : blendMode.split('-').map(function (word) { return word.charAt(0).toUpperCase() + word.substr(1); }).join(' ');
+            options[label] = blendMode;
+        });
+        return options;
+    }
     function setUpBrushSettingsGui(settings, folder) {
         settings.brush = {
             type: null,
             size: 15,
             color: '#00d3e1',
-            texture: null
+            texture: null,
+            opacity: 1,
+            flow: 1,
+            blendMode: 'source-over',
+            spacing: 25,
+            angle: 0,
+            followStroke: false,
+            sizeJitter: 0,
+            angleJitter: 0,
+            scatter: 0,
+            tipColors: false,
+            loadTip: function () { return tipInput.click(); },
+            stabilizer: 'none',
+            lazyRadius: 20,
+            averageCount: 8,
+            smoothCurves: true,
+            tool: 'Brush',
+            fillWith: 'Color',
+            patternSize: 10,
+            fillStopsAtCreases: true,
+            fillTolerance: 1,
+            fillWithinGroup: false,
+            creaseAngle: 90,
+            stayOnSurface: true
         };
         var loadTexture = function (path) {
             var textureSideLength = 512;
@@ -1479,6 +4814,32 @@ var Chameleon;
                 canvas: loadTexture('image/blackleather_texture.jpg')
             }
         ];
+        // A soft round tip, until another one is loaded
+        var defaultTip = document.createElement('canvas');
+        defaultTip.width = defaultTip.height = 64;
+        var tipContext = defaultTip.getContext('2d');
+        var gradient = tipContext.createRadialGradient(32, 32, 0, 32, 32, 32);
+        gradient.addColorStop(0, 'rgba(0, 0, 0, 1)');
+        gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+        tipContext.fillStyle = gradient;
+        tipContext.fillRect(0, 0, 64, 64);
+        var stampBrush = new Chameleon.StampBrush(1, defaultTip);
+        var tipInput = document.createElement('input');
+        tipInput.type = 'file';
+        tipInput.accept = 'image/*';
+        tipInput.addEventListener('change', function () {
+            if (tipInput.files.length > 0) {
+                var reader = new FileReader();
+                reader.onload = function () {
+                    stampBrush.tip = Chameleon.loadBrushTip(reader.result);
+                    settings.brush.type = 'Stamp';
+                    typeController.updateDisplay();
+                    handleTypeChange(settings.brush.type);
+                };
+                reader.readAsDataURL(tipInput.files[0]);
+                tipInput.value = '';
+            }
+        });
         var brushItems = [
             {
                 name: 'Marker',
@@ -1500,6 +4861,13 @@ var Chameleon;
                 name: 'Fur',
                 instance: new Chameleon.Fur()
             },
+            {
+                name: 'Stamp',
+                instance: stampBrush,
+                sizeConfig: true,
+                colorConfig: true,
+                stampConfig: true
+            },
             {
                 name: 'Thick Brush',
                 instance: new Chameleon.ThickBrush(1, '#000000'),
@@ -1534,12 +4902,55 @@ var Chameleon;
                 instance: new Chameleon.TextureBrush(1, textureItems[0].canvas),
                 sizeConfig: true,
                 textureConfig: true
+            },
+            {
+                name: 'Clone',
+                instance: new Chameleon.CloneBrush(1),
+                sizeConfig: true
+            },
+            {
+                name: 'Eraser',
+                instance: new Chameleon.EraserBrush(1),
+                sizeConfig: true
             }
         ];
+        var toolController = folder.add(settings.brush, 'tool', ['Brush', 'Bucket Fill']).name('Tool');
         var typeController = folder.add(settings.brush, 'type', brushItems.map(function (_) { return _.name; })).name('Type');
         var sizeController = folder.add(settings.brush, 'size', 1, 40).step(0.5).name('Size');
         var colorController = folder.addColor(settings.brush, 'color').name('Color');
         var textureController = folder.add(settings.brush, 'texture', textureItems.map(function (_) { return _.name; })).name('Texture');
+        var opacityController = folder.add(settings.brush, 'opacity', 0, 1).step(0.01).name('Opacity');
+        var flowController = folder.add(settings.brush, 'flow', 0, 1).step(0.01).name('Flow');
+        var blendModeController = folder.add(settings.brush, 'blendMode', blendModeOptions()).name('Blend Mode');
+        var stampControllers = [
+            folder.add(settings.brush, 'spacing', 1, 200).step(1).name('Spacing (%)'),
+            folder.add(settings.brush, 'angle', -180, 180).step(1).name('Angle'),
+            folder.add(settings.brush, 'followStroke').name('Follow Stroke'),
+            folder.add(settings.brush, 'sizeJitter', 0, 1).step(0.01).name('Size Jitter'),
+            folder.add(settings.brush, 'angleJitter', 0, 180).step(1).name('Angle Jitter'),
+            folder.add(settings.brush, 'scatter', 0, 2).step(0.01).name('Scatter'),
+            folder.add(settings.brush, 'tipColors').name('Tip Colors'),
+            folder.add(settings.brush, 'loadTip').name('Load Tip...')
+        ];
+        var stabilizerControllers = [
+            folder.add(settings.brush, 'stabilizer', {
+                'None': 'none',
+                'Lazy Mouse': 'lazy',
+                'Moving Average': 'average'
+            }).name('Stabilizer'),
+            folder.add(settings.brush, 'lazyRadius', 0, 100).step(1).name('Lazy Radius'),
+            folder.add(settings.brush, 'averageCount', 2, 32).step(1).name('Average Of'),
+            folder.add(settings.brush, 'smoothCurves').name('Smooth Curves')
+        ];
+        var fillControllers = [
+            folder.add(settings.brush, 'fillWith', ['Color', 'Texture']).name('Fill With'),
+            folder.add(settings.brush, 'patternSize', 1, 100).step(1).name('Pattern Size (%)'),
+            folder.add(settings.brush, 'fillStopsAtCreases').name('Stop At Creases'),
+            folder.add(settings.brush, 'fillTolerance', 0, 1).step(0.01).name('Color Tolerance'),
+            folder.add(settings.brush, 'fillWithinGroup').name('Within Group')
+        ];
+        var creaseAngleController = folder.add(settings.brush, 'creaseAngle', 0, 180).step(1).name('Crease Angle');
+        var stayOnSurfaceController = folder.add(settings.brush, 'stayOnSurface').name('Stay On Surface');
         var handleSizeChange = function (newSize) {
             if (chameleon) {
                 chameleon.brush.radius = newSize / 2;
@@ -1561,6 +4972,80 @@ var Chameleon;
                 }
             }
         };
+        var handleOpacityChange = function (newOpacity) {
+            if (chameleon && (chameleon.brush instanceof Chameleon.CanvasBrush)) {
+                chameleon.brush.opacity = newOpacity;
+            }
+        };
+        var handleFlowChange = function (newFlow) {
+            if (chameleon && (chameleon.brush instanceof Chameleon.CanvasBrush)) {
+                chameleon.brush.flow = newFlow;
+            }
+        };
+        var handleBlendModeChange = function (newBlendMode) {
+            if (chameleon && (chameleon.brush instanceof Chameleon.CanvasBrush)) {
+                chameleon.brush.blendMode = newBlendMode;
+            }
+        };
+        var handleStampSettingsChange = function () {
+            stampBrush.spacing = settings.brush.spacing;
+            stampBrush.angle = settings.brush.angle;
+            stampBrush.followStroke = settings.brush.followStroke;
+            stampBrush.sizeJitter = settings.brush.sizeJitter;
+            stampBrush.angleJitter = settings.brush.angleJitter;
+            stampBrush.scatter = settings.brush.scatter;
+            stampBrush.useTipColors = settings.brush.tipColors;
+        };
+        var handleStabilizerChange = function () {
+            if (chameleon) {
+                chameleon.stabilizer.mode = settings.brush.stabilizer;
+                chameleon.stabilizer.lazyRadius = settings.brush.lazyRadius;
+                chameleon.stabilizer.averageCount = settings.brush.averageCount;
+                chameleon.stabilizer.interpolate = settings.brush.smoothCurves;
+            }
+        };
+        var handleFillChange = function () {
+            fillControllers.forEach(function (controller) {
+                controller.domElement.style.visibility = (settings.brush.tool === 'Bucket Fill') ? 'visible' : 'collapse';
+            });
+            if (!chameleon) {
+                return;
+            }
+            if (settings.brush.tool !== 'Bucket Fill') {
+                chameleon.bucketFill = null;
+                return;
+            }
+            var fillOptions = { color: settings.brush.color };
+            if (settings.brush.fillWith === 'Texture') {
+                // The pattern is sized relative to the model
+                chameleon.geometry.computeBoundingSphere();
+                // Projects saved before a texture was chosen have none
+                var textureItem = textureItems.filter(function (_) { return _.name === settings.brush.texture; })[0] || textureItems[0];
+                fillOptions.pattern = textureItem.canvas;
+                fillOptions.patternScale = chameleon.geometry.boundingSphere.radius * 2 * settings.brush.patternSize / 100;
+            }
+            if (settings.brush.fillStopsAtCreases) {
+                fillOptions.creaseAngle = settings.brush.creaseAngle;
+            }
+            if (settings.brush.fillTolerance < 1) {
+                fillOptions.tolerance = settings.brush.fillTolerance;
+            }
+            if (settings.brush.fillWithinGroup) {
+                fillOptions.faceGroups = chameleon.faceGroups;
+            }
+            chameleon.bucketFill = fillOptions;
+        };
+        var handleCreaseAngleChange = function (newCreaseAngle) {
+            if (chameleon) {
+                chameleon.creaseAngle = newCreaseAngle;
+            }
+            handleFillChange();
+        };
+        var handleStayOnSurfaceChange = function (newStayOnSurface) {
+            if (chameleon) {
+                chameleon.stayOnSurface = newStayOnSurface;
+            }
+        };
         var handleTypeChange = function (newType) {
             if (!chameleon) {
                 return;
@@ -1571,9 +5056,17 @@ var Chameleon;
                     handleSizeChange(settings.brush.size);
                     handleColorChange(settings.brush.color);
                     handleTextureChange(settings.brush.texture);
+                    handleOpacityChange(settings.brush.opacity);
+                    handleFlowChange(settings.brush.flow);
+                    handleBlendModeChange(settings.brush.blendMode);
                     sizeController.domElement.style.visibility = (brushItems[i].sizeConfig) ? 'visible' : 'collapse';
                     colorController.domElement.style.visibility = (brushItems[i].colorConfig) ? 'visible' : 'collapse';
                     textureController.domElement.style.visibility = (brushItems[i].textureConfig) ? 'visible' : 'collapse';
+                    stampControllers.forEach(function (controller) {
+                        controller.domElement.style.visibility = (brushItems[i].stampConfig) ? 'visible' : 'collapse';
+                    });
+                    // Erasing does not blend
+                    blendModeController.domElement.style.visibility = (brushItems[i].instance instanceof Chameleon.EraserBrush) ? 'collapse' : 'visible';
                     return;
                 }
             }
@@ -1582,10 +5075,304 @@ var Chameleon;
         sizeController.onChange(handleSizeChange);
         colorController.onChange(handleColorChange);
         textureController.onChange(handleTextureChange);
+        opacityController.onChange(handleOpacityChange);
+        flowController.onChange(handleFlowChange);
+        blendModeController.onChange(handleBlendModeChange);
+        stampControllers.forEach(function (controller) { return controller.onChange(handleStampSettingsChange); });
+        stabilizerControllers.forEach(function (controller) { return controller.onChange(handleStabilizerChange); });
+        fillControllers.concat(toolController, colorController, textureController).forEach(function (controller) { return controller.onFinishChange(handleFillChange); });
+        creaseAngleController.onChange(handleCreaseAngleChange);
+        stayOnSurfaceController.onChange(handleStayOnSurfaceChange);
+        // Alt+click on the model picks the color for every brush and the bucket fill
+        var handleColorPicked = function (pickedColor) {
+            settings.brush.color = pickedColor;
+            colorController.updateDisplay();
+            handleColorChange(pickedColor);
+            handleFillChange();
+        };
         settings.brush.type = brushItems[0].name;
+        settings.brush.texture = textureItems[0].name;
+        textureController.updateDisplay();
+        handleFillChange();
         return function () {
+            chameleon.onColorPicked = handleColorPicked;
+            handleStampSettingsChange();
+            handleStabilizerChange();
+            handleFillChange();
             handleTypeChange(settings.brush.type);
+            handleCreaseAngleChange(settings.brush.creaseAngle);
+            handleStayOnSurfaceChange(settings.brush.stayOnSurface);
+        };
+    }
+    function setUpSymmetryGui(settings, folder) {
+        settings.symmetry = {
+            mode: 'Off',
+            axis: 'x',
+            count: 6
+        };
+        folder.add(settings.symmetry, 'mode', ['Off', 'Mirror', 'Radial']).name('Mode').onChange(function () { return apply(); });
+        folder.add(settings.symmetry, 'axis', Chameleon.SYMMETRY_AXES).name('Axis').onChange(function () { return apply(); });
+        folder.add(settings.symmetry, 'count', 2, 16).step(1).name('Copies (Radial)').onFinishChange(function () { return apply(); });
+        // The plane or axis of symmetry goes through the center of the model
+        var apply = function () {
+            if (!chameleon) {
+                return;
+            }
+            chameleon.geometry.computeBoundingBox();
+            var boundingBox = chameleon.geometry.boundingBox;
+            var center = boundingBox.min.clone().add(boundingBox.max).multiplyScalar(0.5);
+            if (settings.symmetry.mode === 'Mirror') {
+                chameleon.symmetry = Chameleon.mirrorSymmetry(settings.symmetry.axis, center);
+            }
+            else if (settings.symmetry.mode === 'Radial') {
+                chameleon.symmetry = Chameleon.radialSymmetry(settings.symmetry.axis, center, settings.symmetry.count);
+            }
+            else {
+                chameleon.symmetry = [];
+            }
+        };
+        return apply;
+    }
+    function setUpDecalGui(settings, folder) {
+        var imageInput = document.createElement('input');
+        imageInput.type = 'file';
+        imageInput.accept = 'image/*';
+        imageInput.addEventListener('change', function () {
+            if (imageInput.files.length > 0 && chameleon) {
+                var reader = new FileReader();
+                reader.onload = function () {
+                    var image = new Image();
+                    image.onload = function () {
+                        chameleon.placeDecal(image).opacity = settings.decal.opacity;
+                    };
+                    image.src = reader.result;
+                };
+                reader.readAsDataURL(imageInput.files[0]);
+                imageInput.value = '';
+            }
+        });
+        // Scale and rotation can also be changed on the screen, so they are read from the decal itself
+        var opacity = 1;
+        settings.decal = {
+            load: function () { return imageInput.click(); },
+            get scale() {
+                return (chameleon && chameleon.decal) ? chameleon.decal.scale : 1;
+            },
+            set scale(value) {
+                if (chameleon && chameleon.decal) {
+                    chameleon.decal.scale = value;
+                    chameleon.update();
+                }
+            },
+            get rotation() {
+                return (chameleon && chameleon.decal) ? chameleon.decal.angle : 0;
+            },
+            set rotation(value) {
+                if (chameleon && chameleon.decal) {
+                    chameleon.decal.angle = value;
+                    chameleon.update();
+                }
+            },
+            get opacity() {
+                return opacity;
+            },
+            set opacity(value) {
+                opacity = value;
+                if (chameleon && chameleon.decal) {
+                    chameleon.decal.opacity = value;
+                    chameleon.update();
+                }
+            },
+            maxAngle: 80,
+            commit: function () {
+                if (chameleon) {
+                    chameleon.commitDecal(settings.decal.maxAngle);
+                }
+            },
+            cancel: function () {
+                if (chameleon) {
+                    chameleon.cancelDecal();
+                }
+            }
+        };
+        folder.add(settings.decal, 'load').name('Load Image...');
+        folder.add(settings.decal, 'scale', 0.05, 4).step(0.01).name('Scale').listen();
+        folder.add(settings.decal, 'rotation', -180, 180).step(1).name('Rotation').listen();
+        folder.add(settings.decal, 'opacity', 0, 1).step(0.01).name('Opacity');
+        folder.add(settings.decal, 'maxAngle', 0, 90).step(1).name('Max Angle');
+        folder.add(settings.decal, 'commit').name('Paint onto Model');
+        folder.add(settings.decal, 'cancel').name('Discard');
+    }
+    function setUpReferenceGui(settings, folder) {
+        var imageInput = document.createElement('input');
+        imageInput.type = 'file';
+        imageInput.accept = 'image/*';
+        imageInput.addEventListener('change', function () {
+            if (imageInput.files.length > 0 && chameleon) {
+                var reader = new FileReader();
+                reader.onload = function () {
+                    var image = new Image();
+                    image.onload = function () {
+                        chameleon.placeReference(image).opacity = settings.reference.opacity;
+                    };
+                    image.src = reader.result;
+                };
+                reader.readAsDataURL(imageInput.files[0]);
+                imageInput.value = '';
+            }
+        });
+        // Like the decal, the reference can be moved and scaled on the screen
+        var opacity = 0.5;
+        settings.reference = {
+            load: function () { return imageInput.click(); },
+            align: false,
+            get scale() {
+                return (chameleon && chameleon.reference) ? chameleon.reference.scale : 1;
+            },
+            set scale(value) {
+                if (chameleon && chameleon.reference) {
+                    chameleon.reference.scale = value;
+                    chameleon.update();
+                }
+            },
+            get rotation() {
+                return (chameleon && chameleon.reference) ? chameleon.reference.angle : 0;
+            },
+            set rotation(value) {
+                if (chameleon && chameleon.reference) {
+                    chameleon.reference.angle = value;
+                    chameleon.update();
+                }
+            },
+            get opacity() {
+                return opacity;
+            },
+            set opacity(value) {
+                opacity = value;
+                if (chameleon && chameleon.reference) {
+                    chameleon.reference.opacity = value;
+                    chameleon.update();
+                }
+            },
+            maxAngle: 80,
+            project: function () {
+                if (chameleon) {
+                    chameleon.projectReference(settings.reference.maxAngle);
+                }
+            },
+            remove: function () {
+                if (chameleon) {
+                    chameleon.reference = null;
+                    chameleon.update();
+                }
+            }
+        };
+        var handleAlignChange = function (align) {
+            if (chameleon) {
+                chameleon.alignReference = align;
+            }
+        };
+        folder.add(settings.reference, 'load').name('Load Photo...');
+        folder.add(settings.reference, 'align').name('Align (Drag, Scroll)').onChange(handleAlignChange);
+        folder.add(settings.reference, 'scale', 0.05, 4).step(0.01).name('Scale').listen();
+        folder.add(settings.reference, 'rotation', -180, 180).step(1).name('Rotation').listen();
+        folder.add(settings.reference, 'opacity', 0, 1).step(0.01).name('Opacity');
+        folder.add(settings.reference, 'maxAngle', 0, 90).step(1).name('Max Angle');
+        folder.add(settings.reference, 'project').name('Project Everywhere Visible');
+        folder.add(settings.reference, 'remove').name('Remove');
+        return function () { return handleAlignChange(settings.reference.align); };
+    }
+    function setUpLayersGui(settings, folder) {
+        var moveActiveLayer = function (offset) {
+            var index = chameleon.activeLayerIndex;
+            if (0 <= index + offset && index + offset < chameleon.layers.length) {
+                chameleon.moveLayer(index, index + offset);
+            }
+        };
+        settings.layers = {
+            active: '0',
+            name: '',
+            visible: true,
+            locked: false,
+            opacity: 1,
+            blendMode: 'source-over',
+            add: function () {
+                if (chameleon) {
+                    chameleon.addLayer();
+                    refresh();
+                }
+            },
+            remove: function () {
+                if (chameleon) {
+                    chameleon.removeLayer(chameleon.activeLayerIndex);
+                    refresh();
+                }
+            },
+            moveUp: function () {
+                if (chameleon) {
+                    moveActiveLayer(1);
+                    refresh();
+                }
+            },
+            moveDown: function () {
+                if (chameleon) {
+                    moveActiveLayer(-1);
+                    refresh();
+                }
+            }
+        };
+        var activeController = folder.add(settings.layers, 'active', ['0']).name('Active Layer');
+        var nameController = folder.add(settings.layers, 'name').name('Name');
+        var visibleController = folder.add(settings.layers, 'visible').name('Visible');
+        var lockedController = folder.add(settings.layers, 'locked').name('Locked');
+        var opacityController = folder.add(settings.layers, 'opacity', 0, 1).step(0.01).name('Opacity');
+        var blendModeController = folder.add(settings.layers, 'blendMode', blendModeOptions()).name('Blend Mode');
+        folder.add(settings.layers, 'add').name('Add Layer');
+        folder.add(settings.layers, 'remove').name('Remove Layer');
+        folder.add(settings.layers, 'moveUp').name('Move Up');
+        folder.add(settings.layers, 'moveDown').name('Move Down');
+        var handleActiveChange = function (newActive) {
+            if (chameleon) {
+                chameleon.activeLayerIndex = parseInt(newActive, 10);
+                refresh();
+            }
+        };
+        var updateActiveLayer = function (properties) {
+            if (chameleon) {
+                chameleon.updateLayer(chameleon.activeLayerIndex, properties);
+            }
+        };
+        nameController.onFinishChange(function (newName) {
+            updateActiveLayer({ name: newName });
+            refresh();
+        });
+        visibleController.onChange(function (newVisible) { return updateActiveLayer({ visible: newVisible }); });
+        lockedController.onChange(function (newLocked) { return updateActiveLayer({ locked: newLocked }); });
+        // Every face is composited again when the opacity changes, so wait until the slider is released
+        opacityController.onFinishChange(function (newOpacity) { return updateActiveLayer({ opacity: newOpacity }); });
+        blendModeController.onChange(function (newBlendMode) { return updateActiveLayer({ blendMode: newBlendMode }); });
+        // Shows the layers of the current model, listing the top layer first
+        var refresh = function () {
+            if (!chameleon) {
+                return;
+            }
+            var layers = chameleon.layers;
+            var layerOptions = {};
+            for (var i = layers.length - 1; i >= 0; i -= 1) {
+                layerOptions[(i + 1) + ': ' + layers[i].name] = String(i);
+            }
+            settings.layers.active = String(chameleon.activeLayerIndex);
+            activeController = activeController.options(layerOptions).name('Active Layer');
+            activeController.onChange(handleActiveChange);
+            var activeLayer = layers[chameleon.activeLayerIndex];
+            settings.layers.name = activeLayer.name;
+            settings.layers.visible = activeLayer.visible;
+            settings.layers.locked = activeLayer.locked;
+            settings.layers.opacity = activeLayer.opacity;
+            settings.layers.blendMode = activeLayer.blendMode;
+            [nameController, visibleController, lockedController, opacityController, blendModeController].forEach(function (controller) { return controller.updateDisplay(); });
         };
+        return refresh;
     }
     function setUpGui() {
         var settings = {
@@ -1598,11 +5385,65 @@ var Chameleon;
                 },
                 perspectiveView: false
             },
-            exportObjTexture: function () {
+            undo: function () {
+                if (chameleon) {
+                    chameleon.undo();
+                }
+            },
+            redo: function () {
+                if (chameleon) {
+                    chameleon.redo();
+                }
+            },
+            exportGlb: function () {
+                if (chameleon) {
+                    saveAs(chameleon.exportGlb(textureExportOptions()), 'model.glb');
+                    logPackingEfficiency();
+                }
+            },
+            saveProject: function () {
                 if (chameleon) {
-                    saveAs(chameleon.packTexture(), 'texture-export.zip');
+                    saveAs(chameleon.saveProject({ brush: settings.brush }), 'project.chameleon.zip');
+                }
+            },
+            exportSeparateLayers: false,
+            exportUvLayout: 'Packed',
+            exportResolution: 'Automatic',
+            exportPowerOfTwo: false,
+            exportFormat: 'png',
+            exportQuality: 0.92,
+            exportPadding: 4,
+            exportObjTexture: function () {
+                if (!chameleon) {
+                    return;
+                }
+                if (settings.exportUvLayout === 'Original') {
+                    if (chameleon.hasOriginalUvs) {
+                        saveAs(chameleon.bakeTexture(settings.exportSeparateLayers, textureExportOptions()), 'texture-export.zip');
+                        return;
+                    }
+                    console.warn('The model has no UVs of its own. Exporting with packed UVs instead.');
                 }
+                saveAs(chameleon.packTexture(settings.exportSeparateLayers, textureExportOptions()), 'texture-export.zip');
+                logPackingEfficiency();
+            }
+        };
+        var logPackingEfficiency = function () {
+            console.log('Patches cover ' + Math.round(chameleon.packingEfficiency * 100) + '% of the packed texture.');
+        };
+        var textureExportOptions = function () {
+            var format = settings.exportFormat;
+            if (!Chameleon.canEncodeTextureFormat(format)) {
+                statusElement.textContent = 'This browser cannot encode ' + format.toUpperCase() + ' images. ' + 'Exported PNG instead.';
+                format = 'png';
             }
+            return {
+                resolution: parseInt(settings.exportResolution, 10) || undefined,
+                powerOfTwo: settings.exportPowerOfTwo,
+                format: format,
+                quality: settings.exportQuality,
+                padding: settings.exportPadding
+            };
         };
         var gui = new dat.GUI({ width: 350 });
         var handleBackgroundReset = function (color) {
@@ -1611,6 +5452,8 @@ var Chameleon;
             }
         };
         gui.addColor(settings, 'backgroundColor').name('Background Reset').onChange(handleBackgroundReset);
+        gui.add(settings, 'undo').name('Undo (Ctrl+Z)');
+        gui.add(settings, 'redo').name('Redo (Ctrl+Shift+Z)');
         var cameraFolder = gui.addFolder('Camera');
         var brushFolder = gui.addFolder('Brush');
         cameraFolder.open();
@@ -1618,65 +5461,221 @@ var Chameleon;
             if (chameleon) {
                 chameleon.perspectiveView = perspectiveVIew;
             }
-            if (perspectiveVIew) {
-                brushFolder.close();
-            }
-            else {
-                brushFolder.open();
-            }
         };
         cameraFolder.add(settings.camera, 'perspectiveView').name('Perspective Viewing').onChange(handlePerspectiveView);
         cameraFolder.add(settings.camera, 'reset').name('Reset');
         brushFolder.open();
         var reapplyBrushGuiSettings = setUpBrushSettingsGui(settings, brushFolder);
-        gui.add(settings, 'exportObjTexture').name('Export Textured Model');
-        return function () {
-            handleBackgroundReset(settings.backgroundColor);
+        var symmetryFolder = gui.addFolder('Symmetry');
+        var applySymmetryGuiSettings = setUpSymmetryGui(settings, symmetryFolder);
+        var decalFolder = gui.addFolder('Decal');
+        setUpDecalGui(settings, decalFolder);
+        var referenceFolder = gui.addFolder('Reference Photo');
+        var applyReferenceGuiSettings = setUpReferenceGui(settings, referenceFolder);
+        var layersFolder = gui.addFolder('Layers');
+        layersFolder.open();
+        var refreshLayersGui = setUpLayersGui(settings, layersFolder);
+        gui.add(settings, 'saveProject').name('Save Project');
+        var exportFolder = gui.addFolder('Export');
+        exportFolder.add(settings, 'exportUvLayout', ['Packed', 'Original']).name('UV Layout');
+        exportFolder.add(settings, 'exportResolution', ['Automatic', 256, 512, 1024, 2048, 4096]).name('Resolution');
+        exportFolder.add(settings, 'exportPowerOfTwo').name('Power of Two');
+        exportFolder.add(settings, 'exportFormat', Chameleon.TEXTURE_FORMATS).name('Format');
+        exportFolder.add(settings, 'exportQuality', 0, 1).step(0.01).name('Quality (JPEG, WebP)');
+        exportFolder.add(settings, 'exportPadding', 0, 16).step(1).name('Padding');
+        exportFolder.add(settings, 'exportSeparateLayers').name('Layers Separately');
+        exportFolder.add(settings, 'exportObjTexture').name('Export Textured Model');
+        exportFolder.add(settings, 'exportGlb').name('Export glTF (GLB)');
+        var updateGuiDisplay = function (folder) {
+            folder.__controllers.forEach(function (controller) { return controller.updateDisplay(); });
+            for (var name in folder.__folders) {
+                updateGuiDisplay(folder.__folders[name]);
+            }
+        };
+        // The background color is not applied to models that come with a texture, as that would paint over it.
+        // Projects bring their own settings, which are shown in the GUI before being applied.
+        return function (keepTexture, projectSettings) {
+            if (projectSettings) {
+                settings.backgroundColor = chameleon.backgroundColor;
+                settings.camera.perspectiveView = chameleon.perspectiveView;
+                for (var key in projectSettings.brush) {
+                    settings.brush[key] = projectSettings.brush[key];
+                }
+                updateGuiDisplay(gui);
+            }
+            if (!keepTexture) {
+                handleBackgroundReset(settings.backgroundColor);
+            }
             handlePerspectiveView(settings.camera.perspectiveView);
             reapplyBrushGuiSettings();
+            applySymmetryGuiSettings();
+            applyReferenceGuiSettings();
+            refreshLayersGui();
         };
     }
     var reapplyGuiSettings = setUpGui();
-    function loadGeometry(geometry) {
+    function loadGeometry(geometry, faceGroups, texture) {
         if (chameleon) {
-            chameleon.removeEventListeners();
+            chameleon.dispose();
         }
-        chameleon = Chameleon.create(geometry, screenCanvas);
-        reapplyGuiSettings();
+        chameleon = Chameleon.create(geometry, screenCanvas, {
+            onProgress: showPreparationProgress,
+            texture: texture,
+            faceGroups: faceGroups
+        });
+        reapplyGuiSettings(!!texture);
+        // Re-applying the background color is part of loading, not something to undo
+        chameleon.clearHistory();
         console.log('New Model Loaded.');
     }
-    function object3dToGeometry(object3d) {
-        var geometry = new THREE.Geometry();
+    function openProject(data) {
+        // The current model is kept when the file cannot be opened
+        var error = Chameleon.projectFileError(data);
+        if (error) {
+            statusElement.textContent = error;
+            return;
+        }
+        if (chameleon) {
+            chameleon.dispose();
+            chameleon = null;
+        }
+        Chameleon.openProject(data, screenCanvas, { onProgress: showPreparationProgress }, function (controls, projectSettings) {
+            chameleon = controls;
+            reapplyGuiSettings(true, projectSettings || {});
+            console.log('Project Opened.');
+        }, function (message) {
+            statusElement.textContent = 'The project could not be opened. ' + message;
+        });
+    }
+    function showPreparationProgress(progress) {
+        statusElement.textContent = (progress < 1) ? 'Preparing model for painting... ' + Math.floor(progress * 100) + '%' : '';
+    }
+    // The meshes that a loaded model is merged from, in order
+    function forEachMergedMesh(object3d, callback) {
         object3d.traverse(function (child) {
             if ((child instanceof THREE.Mesh) && !(child.parent instanceof THREE.Mesh)) {
-                var mesh = child;
-                if (mesh.geometry instanceof THREE.BufferGeometry) {
-                    mesh.geometry = new THREE.Geometry().fromBufferGeometry(mesh.geometry);
-                    mesh.geometry.faceVertexUvs = [[]];
-                    mesh.geometry.uvsNeedUpdate = true;
-                }
-                THREE.GeometryUtils.merge(geometry, mesh);
+                callback(child);
+            }
+        });
+    }
+    // The UVs of the model are kept if all of its parts have them, so that textures can be baked into their layout
+    function object3dToGeometry(object3d) {
+        var geometry = new THREE.Geometry();
+        var hasUvs = true;
+        forEachMergedMesh(object3d, function (mesh) {
+            if (mesh.geometry instanceof THREE.BufferGeometry) {
+                mesh.geometry = new THREE.Geometry().fromBufferGeometry(mesh.geometry);
+            }
+            var meshUvs = mesh.geometry.faceVertexUvs[0];
+            if (!meshUvs || meshUvs.length !== mesh.geometry.faces.length) {
+                hasUvs = false;
+                // Placeholders keep the UVs of the parts merged after this one aligned with their faces
+                mesh.geometry.faceVertexUvs[0] = mesh.geometry.faces.map(function () { return [new THREE.Vector2(), new THREE.Vector2(), new THREE.Vector2()]; });
             }
+            THREE.GeometryUtils.merge(geometry, mesh);
         });
+        if (!hasUvs) {
+            geometry.faceVertexUvs = [[]];
+        }
         return geometry;
     }
+    // The named objects and groups that object3dToGeometry merged, or null when none is named.
+    // OBJLoader makes a mesh for each object, and lists where its groups start in userData.groups.
+    function meshFaceGroups(object3d) {
+        var faceGroups = [];
+        var nFaces = 0;
+        forEachMergedMesh(object3d, function (mesh) {
+            var nMeshFaces = mesh.geometry.faces.length;
+            var groups = [{ name: '', start: 0 }].concat(mesh.userData.groups || []);
+            groups.forEach(function (group, i) {
+                var end = (i + 1 < groups.length) ? groups[i + 1].start : nMeshFaces;
+                if (end > group.start) {
+                    faceGroups.push({
+                        objectName: mesh.name,
+                        groupName: group.name,
+                        start: nFaces + group.start,
+                        count: end - group.start
+                    });
+                }
+            });
+            nFaces += nMeshFaces;
+        });
+        var isAnonymous = faceGroups.every(function (faceGroup) { return !faceGroup.objectName && !faceGroup.groupName; });
+        return isAnonymous ? null : faceGroups;
+    }
+    function readFileAsText(file, onLoad) {
+        var reader = new FileReader();
+        reader.onload = function () { return onLoad(reader.result); };
+        reader.readAsText(file);
+    }
+    // The file name of the first diffuse map in an MTL file, without its directory
+    function diffuseMapName(mtlText) {
+        var match = /^\s*map_Kd\s+(.+)$/m.exec(mtlText);
+        if (!match) {
+            return null;
+        }
+        // Options such as '-s 1 1 1' may come before the file name, which is last
+        var tokens = match[1].trim().split(/\s+/);
+        var path = tokens[tokens.length - 1];
+        return path.substr(Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\')) + 1);
+    }
     var objLoader = new THREE.OBJLoader();
     screenCanvas.ondragover = function () { return false; };
     screenCanvas.ondrop = function (e) {
         e.preventDefault();
-        var file = e.dataTransfer.files[0], reader = new FileReader();
-        reader.onload = function () {
-            var object3d = objLoader.parse(reader.result);
-            loadGeometry(object3dToGeometry(object3d));
+        // A textured model can be dropped as its OBJ file together with its MTL file and diffuse map
+        var files = Array.prototype.slice.call(e.dataTransfer.files);
+        var findFile = function (pattern) {
+            for (var i = 0; i < files.length; i += 1) {
+                if (pattern.test(files[i].name)) {
+                    return files[i];
+                }
+            }
+            return null;
         };
-        reader.readAsText(file);
+        var projectFile = findFile(/\.zip$/i);
+        if (projectFile) {
+            var reader = new FileReader();
+            reader.onload = function () { return openProject(reader.result); };
+            reader.readAsArrayBuffer(projectFile);
+            return;
+        }
+        var objFile = findFile(/\.obj$/i) || files[0], mtlFile = findFile(/\.mtl$/i), imageFiles = files.filter(function (file) { return /^image\//.test(file.type); });
+        readFileAsText(objFile, function (objText) {
+            var object3d = objLoader.parse(objText);
+            var geometry = object3dToGeometry(object3d);
+            var faceGroups = meshFaceGroups(object3d);
+            var loadWithImage = function (imageFile) {
+                if (!imageFile) {
+                    loadGeometry(geometry, faceGroups);
+                    return;
+                }
+                var image = new Image();
+                image.onload = function () {
+                    URL.revokeObjectURL(image.src);
+                    loadGeometry(geometry, faceGroups, image);
+                };
+                image.src = URL.createObjectURL(imageFile);
+            };
+            if (mtlFile) {
+                readFileAsText(mtlFile, function (mtlText) {
+                    var mapName = diffuseMapName(mtlText);
+                    var mapFile = imageFiles.filter(function (file) { return !!mapName && file.name.toLowerCase() === mapName.toLowerCase(); })[0];
+                    loadWithImage(mapFile || imageFiles[0]);
+                });
+            }
+            else {
+                loadWithImage(imageFiles[0]);
+            }
+        });
     };
     window.onload = function () {
-        objLoader.load('models/chameleon.obj', function (object3d) {
+        new THREE.XHRLoader().load('models/chameleon.obj', function (objText) {
+            var object3d = objLoader.parse(objText);
             var geometry = object3dToGeometry(object3d);
             geometry.applyMatrix(new THREE.Matrix4().makeRotationY(Math.PI / 2));
             geometry.applyMatrix(new THREE.Matrix4().makeTranslation(0, -1, 0));
-            loadGeometry(geometry);
+            loadGeometry(geometry, meshFaceGroups(object3d));
         });
         // Render loop
         var render = function () {
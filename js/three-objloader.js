@@ -167,7 +167,8 @@ THREE.OBJLoader.prototype = {
             object = {
                 name: '',
                 geometry: geometry,
-                material: material
+                material: material,
+                groups: []
             };
 
             objects.push( object );
@@ -302,14 +303,24 @@ THREE.OBJLoader.prototype = {
                 object = {
                     name: line.substring( 2 ).trim(),
                     geometry: geometry,
-                    material: material
+                    material: material,
+                    groups: []
                 };
 
                 objects.push( object )
 
             } else if ( /^g /.test( line ) ) {
 
-                // group
+                // group, as the index of the first triangle after it
+
+                if ( object !== undefined ) {
+
+                    object.groups.push( {
+                        name: line.substring( 2 ).trim(),
+                        start: object.geometry.vertices.length / 9
+                    } );
+
+                }
 
             } else if ( /^usemtl /.test( line ) ) {
 
@@ -357,6 +368,7 @@ THREE.OBJLoader.prototype = {
 
             var mesh = new THREE.Mesh( buffergeometry, material );
             mesh.name = object.name;
+            mesh.userData.groups = object.groups;
 
             container.add( mesh );
 
@@ -9,6 +9,7 @@ interface BrushItem {
     sizeConfig?: boolean
     colorConfig?: boolean
     textureConfig?: boolean
+    stampConfig?: boolean
 }
 
 interface TextureItem {
@@ -25,6 +26,11 @@ declare var saveAs: any; // https://github.com/eligrey/FileSaver.js
 
     document.body.appendChild(screenCanvas);
 
+    // Shows progress while a newly loaded model is being prepared for painting
+    var statusElement = document.createElement('div');
+    statusElement.style.cssText = 'position: absolute; left: 10px; bottom: 10px; font: 14px sans-serif; color: #333;';
+    document.body.appendChild(statusElement);
+
     var onresize = () => {
         screenCanvas.height = window.innerHeight;
         screenCanvas.width = window.innerWidth;
@@ -36,12 +42,47 @@ declare var saveAs: any; // https://github.com/eligrey/FileSaver.js
     onresize();
     window.addEventListener('resize', onresize, false);
 
+    // Labels of BLEND_MODES for dat.GUI, mapped to the modes
+    function blendModeOptions(): {[label: string]: string} {
+        var options: {[label: string]: string} = {};
+        Chameleon.BLEND_MODES.forEach((blendMode) => {
+            var label = (blendMode === 'source-over') ? 'Normal' : blendMode.split('-').map(
+                (word) => word.charAt(0).toUpperCase() + word.substr(1)
+            ).join(' ');
+            options[label] = blendMode;
+        });
+        return options;
+    }
+
     function setUpBrushSettingsGui(settings: any, folder: dat.GUI) {
         settings.brush = {
             type: null,
             size: 15,
             color: '#00d3e1',
-            texture: null
+            texture: null,
+            opacity: 1,
+            flow: 1,
+            blendMode: 'source-over',
+            spacing: 25,
+            angle: 0,
+            followStroke: false,
+            sizeJitter: 0,
+            angleJitter: 0,
+            scatter: 0,
+            tipColors: false,
+            loadTip: () => tipInput.click(),
+            stabilizer: 'none',
+            lazyRadius: 20,
+            averageCount: 8,
+            smoothCurves: true,
+            tool: 'Brush',
+            fillWith: 'Color',
+            patternSize: 10,
+            fillStopsAtCreases: true,
+            fillTolerance: 1,
+            fillWithinGroup: false,
+            creaseAngle: 90,
+            stayOnSurface: true
         };
 
         var loadTexture = (path: string): HTMLCanvasElement => {
@@ -73,6 +114,34 @@ declare var saveAs: any; // https://github.com/eligrey/FileSaver.js
             }
         ];
 
+        // A soft round tip, until another one is loaded
+        var defaultTip = document.createElement('canvas');
+        defaultTip.width = defaultTip.height = 64;
+        var tipContext = defaultTip.getContext('2d');
+        var gradient = tipContext.createRadialGradient(32, 32, 0, 32, 32, 32);
+        gradient.addColorStop(0, 'rgba(0, 0, 0, 1)');
+        gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+        tipContext.fillStyle = gradient;
+        tipContext.fillRect(0, 0, 64, 64);
+        var stampBrush = new Chameleon.StampBrush(1, defaultTip);
+
+        var tipInput = document.createElement('input');
+        tipInput.type = 'file';
+        tipInput.accept = 'image/*';
+        tipInput.addEventListener('change', () => {
+            if (tipInput.files.length > 0) {
+                var reader = new FileReader();
+                reader.onload = () => {
+                    stampBrush.tip = Chameleon.loadBrushTip(reader.result);
+                    settings.brush.type = 'Stamp';
+                    typeController.updateDisplay();
+                    handleTypeChange(settings.brush.type);
+                };
+                reader.readAsDataURL(tipInput.files[0]);
+                tipInput.value = '';
+            }
+        });
+
         var brushItems: BrushItem[] = [
             {
                 name: 'Marker',
@@ -90,6 +159,12 @@ declare var saveAs: any; // https://github.com/eligrey/FileSaver.js
             }, {
                 name: 'Fur',
                 instance: new Chameleon.Fur()
+            }, {
+                name: 'Stamp',
+                instance: stampBrush,
+                sizeConfig: true,
+                colorConfig: true,
+                stampConfig: true
             }, {
                 name: 'Thick Brush',
                 instance: new Chameleon.ThickBrush(1, '#000000'),
@@ -119,13 +194,54 @@ declare var saveAs: any; // https://github.com/eligrey/FileSaver.js
                 instance: new Chameleon.TextureBrush(1, textureItems[0].canvas),
                 sizeConfig: true,
                 textureConfig: true
+            }, {
+                name: 'Clone',
+                instance: new Chameleon.CloneBrush(1),
+                sizeConfig: true
+            }, {
+                name: 'Eraser',
+                instance: new Chameleon.EraserBrush(1),
+                sizeConfig: true
             }
         ];
 
+        var toolController = folder.add(settings.brush, 'tool', ['Brush', 'Bucket Fill']).name('Tool');
         var typeController = folder.add(settings.brush, 'type', brushItems.map((_)=>_.name)).name('Type');
         var sizeController = folder.add(settings.brush, 'size', 1, 40).step(0.5).name('Size');
         var colorController = folder.addColor(settings.brush, 'color').name('Color');
         var textureController = folder.add(settings.brush, 'texture', textureItems.map((_)=>_.name)).name('Texture');
+        var opacityController = folder.add(settings.brush, 'opacity', 0, 1).step(0.01).name('Opacity');
+        var flowController = folder.add(settings.brush, 'flow', 0, 1).step(0.01).name('Flow');
+        var blendModeController = folder.add(settings.brush, 'blendMode', blendModeOptions()).name('Blend Mode');
+        var stampControllers = [
+            folder.add(settings.brush, 'spacing', 1, 200).step(1).name('Spacing (%)'),
+            folder.add(settings.brush, 'angle', -180, 180).step(1).name('Angle'),
+            folder.add(settings.brush, 'followStroke').name('Follow Stroke'),
+            folder.add(settings.brush, 'sizeJitter', 0, 1).step(0.01).name('Size Jitter'),
+            folder.add(settings.brush, 'angleJitter', 0, 180).step(1).name('Angle Jitter'),
+            folder.add(settings.brush, 'scatter', 0, 2).step(0.01).name('Scatter'),
+            folder.add(settings.brush, 'tipColors').name('Tip Colors'),
+            folder.add(settings.brush, 'loadTip').name('Load Tip...')
+        ];
+        var stabilizerControllers = [
+            folder.add(settings.brush, 'stabilizer', {
+                'None': 'none',
+                'Lazy Mouse': 'lazy',
+                'Moving Average': 'average'
+            }).name('Stabilizer'),
+            folder.add(settings.brush, 'lazyRadius', 0, 100).step(1).name('Lazy Radius'),
+            folder.add(settings.brush, 'averageCount', 2, 32).step(1).name('Average Of'),
+            folder.add(settings.brush, 'smoothCurves').name('Smooth Curves')
+        ];
+        var fillControllers = [
+            folder.add(settings.brush, 'fillWith', ['Color', 'Texture']).name('Fill With'),
+            folder.add(settings.brush, 'patternSize', 1, 100).step(1).name('Pattern Size (%)'),
+            folder.add(settings.brush, 'fillStopsAtCreases').name('Stop At Creases'),
+            folder.add(settings.brush, 'fillTolerance', 0, 1).step(0.01).name('Color Tolerance'),
+            folder.add(settings.brush, 'fillWithinGroup').name('Within Group')
+        ];
+        var creaseAngleController = folder.add(settings.brush, 'creaseAngle', 0, 180).step(1).name('Crease Angle');
+        var stayOnSurfaceController = folder.add(settings.brush, 'stayOnSurface').name('Stay On Surface');
 
         var handleSizeChange = (newSize) => {
             if (chameleon) {
@@ -134,7 +250,7 @@ declare var saveAs: any; // https://github.com/eligrey/FileSaver.js
         };
         var handleColorChange = (newColor) => {
             if (chameleon && ('color' in chameleon.brush)) {
-                (<any>chameleon.brush).color = newColor;
+                chameleon.brush.color = newColor;
             }
         };
         var handleTextureChange = (newTexture) => {
@@ -148,6 +264,81 @@ declare var saveAs: any; // https://github.com/eligrey/FileSaver.js
                 }
             }
         };
+        var handleOpacityChange = (newOpacity) => {
+            if (chameleon && (chameleon.brush instanceof Chameleon.CanvasBrush)) {
+                (<Chameleon.CanvasBrush>chameleon.brush).opacity = newOpacity;
+            }
+        };
+        var handleFlowChange = (newFlow) => {
+            if (chameleon && (chameleon.brush instanceof Chameleon.CanvasBrush)) {
+                (<Chameleon.CanvasBrush>chameleon.brush).flow = newFlow;
+            }
+        };
+        var handleBlendModeChange = (newBlendMode) => {
+            if (chameleon && (chameleon.brush instanceof Chameleon.CanvasBrush)) {
+                (<Chameleon.CanvasBrush>chameleon.brush).blendMode = newBlendMode;
+            }
+        };
+        var handleStampSettingsChange = () => {
+            stampBrush.spacing = settings.brush.spacing;
+            stampBrush.angle = settings.brush.angle;
+            stampBrush.followStroke = settings.brush.followStroke;
+            stampBrush.sizeJitter = settings.brush.sizeJitter;
+            stampBrush.angleJitter = settings.brush.angleJitter;
+            stampBrush.scatter = settings.brush.scatter;
+            stampBrush.useTipColors = settings.brush.tipColors;
+        };
+        var handleStabilizerChange = () => {
+            if (chameleon) {
+                chameleon.stabilizer.mode = settings.brush.stabilizer;
+                chameleon.stabilizer.lazyRadius = settings.brush.lazyRadius;
+                chameleon.stabilizer.averageCount = settings.brush.averageCount;
+                chameleon.stabilizer.interpolate = settings.brush.smoothCurves;
+            }
+        };
+        var handleFillChange = () => {
+            fillControllers.forEach((controller) => {
+                controller.domElement.style.visibility = (settings.brush.tool === 'Bucket Fill') ? 'visible' : 'collapse';
+            });
+            if (!chameleon) {
+                return;
+            }
+            if (settings.brush.tool !== 'Bucket Fill') {
+                chameleon.bucketFill = null;
+                return;
+            }
+
+            var fillOptions: Chameleon.FillOptions = {color: settings.brush.color};
+            if (settings.brush.fillWith === 'Texture') {
+                // The pattern is sized relative to the model
+                chameleon.geometry.computeBoundingSphere();
+                // Projects saved before a texture was chosen have none
+                var textureItem = textureItems.filter((_) => _.name === settings.brush.texture)[0] || textureItems[0];
+                fillOptions.pattern = textureItem.canvas;
+                fillOptions.patternScale = chameleon.geometry.boundingSphere.radius * 2 * settings.brush.patternSize / 100;
+            }
+            if (settings.brush.fillStopsAtCreases) {
+                fillOptions.creaseAngle = settings.brush.creaseAngle;
+            }
+            if (settings.brush.fillTolerance < 1) {
+                fillOptions.tolerance = settings.brush.fillTolerance;
+            }
+            if (settings.brush.fillWithinGroup) {
+                fillOptions.faceGroups = chameleon.faceGroups;
+            }
+            chameleon.bucketFill = fillOptions;
+        };
+        var handleCreaseAngleChange = (newCreaseAngle) => {
+            if (chameleon) {
+                chameleon.creaseAngle = newCreaseAngle;
+            }
+            handleFillChange();
+        };
+        var handleStayOnSurfaceChange = (newStayOnSurface) => {
+            if (chameleon) {
+                chameleon.stayOnSurface = newStayOnSurface;
+            }
+        };
         var handleTypeChange = (newType) => {
             if (!chameleon) {
                 return;
@@ -160,10 +351,19 @@ declare var saveAs: any; // https://github.com/eligrey/FileSaver.js
                     handleSizeChange(settings.brush.size);
                     handleColorChange(settings.brush.color);
                     handleTextureChange(settings.brush.texture);
+                    handleOpacityChange(settings.brush.opacity);
+                    handleFlowChange(settings.brush.flow);
+                    handleBlendModeChange(settings.brush.blendMode);
 
                     sizeController.domElement.style.visibility = (brushItems[i].sizeConfig) ? 'visible' : 'collapse';
                     colorController.domElement.style.visibility = (brushItems[i].colorConfig) ? 'visible' : 'collapse';
                     textureController.domElement.style.visibility = (brushItems[i].textureConfig) ? 'visible' : 'collapse';
+                    stampControllers.forEach((controller) => {
+                        controller.domElement.style.visibility = (brushItems[i].stampConfig) ? 'visible' : 'collapse';
+                    });
+                    // Erasing does not blend
+                    blendModeController.domElement.style.visibility =
+                        (brushItems[i].instance instanceof Chameleon.EraserBrush) ? 'collapse' : 'visible';
 
                     return;
                 }
@@ -174,12 +374,329 @@ declare var saveAs: any; // https://github.com/eligrey/FileSaver.js
         sizeController.onChange(handleSizeChange);
         colorController.onChange(handleColorChange);
         textureController.onChange(handleTextureChange);
+        opacityController.onChange(handleOpacityChange);
+        flowController.onChange(handleFlowChange);
+        blendModeController.onChange(handleBlendModeChange);
+        stampControllers.forEach((controller) => controller.onChange(handleStampSettingsChange));
+        stabilizerControllers.forEach((controller) => controller.onChange(handleStabilizerChange));
+        fillControllers.concat(toolController, colorController, textureController).forEach(
+            (controller) => controller.onFinishChange(handleFillChange)
+        );
+        creaseAngleController.onChange(handleCreaseAngleChange);
+        stayOnSurfaceController.onChange(handleStayOnSurfaceChange);
+
+        // Alt+click on the model picks the color for every brush and the bucket fill
+        var handleColorPicked = (pickedColor: string) => {
+            settings.brush.color = pickedColor;
+            colorController.updateDisplay();
+            handleColorChange(pickedColor);
+            handleFillChange();
+        };
 
         settings.brush.type = brushItems[0].name;
+        settings.brush.texture = textureItems[0].name;
+        textureController.updateDisplay();
+        handleFillChange();
 
         return () => {
+            chameleon.onColorPicked = handleColorPicked;
+            handleStampSettingsChange();
+            handleStabilizerChange();
+            handleFillChange();
             handleTypeChange(settings.brush.type);
+            handleCreaseAngleChange(settings.brush.creaseAngle);
+            handleStayOnSurfaceChange(settings.brush.stayOnSurface);
+        };
+    }
+
+    function setUpSymmetryGui(settings: any, folder: dat.GUI) {
+        settings.symmetry = {
+            mode: 'Off',
+            axis: 'x',
+            count: 6
+        };
+
+        folder.add(settings.symmetry, 'mode', ['Off', 'Mirror', 'Radial']).name('Mode').onChange(() => apply());
+        folder.add(settings.symmetry, 'axis', Chameleon.SYMMETRY_AXES).name('Axis').onChange(() => apply());
+        folder.add(settings.symmetry, 'count', 2, 16).step(1).name('Copies (Radial)').onFinishChange(() => apply());
+
+        // The plane or axis of symmetry goes through the center of the model
+        var apply = () => {
+            if (!chameleon) {
+                return;
+            }
+
+            chameleon.geometry.computeBoundingBox();
+            var boundingBox = chameleon.geometry.boundingBox;
+            var center = boundingBox.min.clone().add(boundingBox.max).multiplyScalar(0.5);
+            if (settings.symmetry.mode === 'Mirror') {
+                chameleon.symmetry = Chameleon.mirrorSymmetry(settings.symmetry.axis, center);
+            } else if (settings.symmetry.mode === 'Radial') {
+                chameleon.symmetry = Chameleon.radialSymmetry(settings.symmetry.axis, center, settings.symmetry.count);
+            } else {
+                chameleon.symmetry = [];
+            }
+        };
+        return apply;
+    }
+
+    function setUpDecalGui(settings: any, folder: dat.GUI) {
+        var imageInput = document.createElement('input');
+        imageInput.type = 'file';
+        imageInput.accept = 'image/*';
+        imageInput.addEventListener('change', () => {
+            if (imageInput.files.length > 0 && chameleon) {
+                var reader = new FileReader();
+                reader.onload = () => {
+                    var image = new Image();
+                    image.onload = () => {
+                        chameleon.placeDecal(image).opacity = settings.decal.opacity;
+                    };
+                    image.src = reader.result;
+                };
+                reader.readAsDataURL(imageInput.files[0]);
+                imageInput.value = '';
+            }
+        });
+
+        // Scale and rotation can also be changed on the screen, so they are read from the decal itself
+        var opacity = 1;
+        settings.decal = {
+            load: () => imageInput.click(),
+            get scale(): number {
+                return (chameleon && chameleon.decal) ? chameleon.decal.scale : 1;
+            },
+            set scale(value: number) {
+                if (chameleon && chameleon.decal) {
+                    chameleon.decal.scale = value;
+                    chameleon.update();
+                }
+            },
+            get rotation(): number {
+                return (chameleon && chameleon.decal) ? chameleon.decal.angle : 0;
+            },
+            set rotation(value: number) {
+                if (chameleon && chameleon.decal) {
+                    chameleon.decal.angle = value;
+                    chameleon.update();
+                }
+            },
+            get opacity(): number {
+                return opacity;
+            },
+            set opacity(value: number) {
+                opacity = value;
+                if (chameleon && chameleon.decal) {
+                    chameleon.decal.opacity = value;
+                    chameleon.update();
+                }
+            },
+            maxAngle: 80,
+            commit: () => {
+                if (chameleon) {
+                    chameleon.commitDecal(settings.decal.maxAngle);
+                }
+            },
+            cancel: () => {
+                if (chameleon) {
+                    chameleon.cancelDecal();
+                }
+            }
+        };
+
+        folder.add(settings.decal, 'load').name('Load Image...');
+        folder.add(settings.decal, 'scale', 0.05, 4).step(0.01).name('Scale').listen();
+        folder.add(settings.decal, 'rotation', -180, 180).step(1).name('Rotation').listen();
+        folder.add(settings.decal, 'opacity', 0, 1).step(0.01).name('Opacity');
+        folder.add(settings.decal, 'maxAngle', 0, 90).step(1).name('Max Angle');
+        folder.add(settings.decal, 'commit').name('Paint onto Model');
+        folder.add(settings.decal, 'cancel').name('Discard');
+    }
+
+    function setUpReferenceGui(settings: any, folder: dat.GUI) {
+        var imageInput = document.createElement('input');
+        imageInput.type = 'file';
+        imageInput.accept = 'image/*';
+        imageInput.addEventListener('change', () => {
+            if (imageInput.files.length > 0 && chameleon) {
+                var reader = new FileReader();
+                reader.onload = () => {
+                    var image = new Image();
+                    image.onload = () => {
+                        chameleon.placeReference(image).opacity = settings.reference.opacity;
+                    };
+                    image.src = reader.result;
+                };
+                reader.readAsDataURL(imageInput.files[0]);
+                imageInput.value = '';
+            }
+        });
+
+        // Like the decal, the reference can be moved and scaled on the screen
+        var opacity = 0.5;
+        settings.reference = {
+            load: () => imageInput.click(),
+            align: false,
+            get scale(): number {
+                return (chameleon && chameleon.reference) ? chameleon.reference.scale : 1;
+            },
+            set scale(value: number) {
+                if (chameleon && chameleon.reference) {
+                    chameleon.reference.scale = value;
+                    chameleon.update();
+                }
+            },
+            get rotation(): number {
+                return (chameleon && chameleon.reference) ? chameleon.reference.angle : 0;
+            },
+            set rotation(value: number) {
+                if (chameleon && chameleon.reference) {
+                    chameleon.reference.angle = value;
+                    chameleon.update();
+                }
+            },
+            get opacity(): number {
+                return opacity;
+            },
+            set opacity(value: number) {
+                opacity = value;
+                if (chameleon && chameleon.reference) {
+                    chameleon.reference.opacity = value;
+                    chameleon.update();
+                }
+            },
+            maxAngle: 80,
+            project: () => {
+                if (chameleon) {
+                    chameleon.projectReference(settings.reference.maxAngle);
+                }
+            },
+            remove: () => {
+                if (chameleon) {
+                    chameleon.reference = null;
+                    chameleon.update();
+                }
+            }
+        };
+
+        var handleAlignChange = (align: boolean) => {
+            if (chameleon) {
+                chameleon.alignReference = align;
+            }
+        };
+        folder.add(settings.reference, 'load').name('Load Photo...');
+        folder.add(settings.reference, 'align').name('Align (Drag, Scroll)').onChange(handleAlignChange);
+        folder.add(settings.reference, 'scale', 0.05, 4).step(0.01).name('Scale').listen();
+        folder.add(settings.reference, 'rotation', -180, 180).step(1).name('Rotation').listen();
+        folder.add(settings.reference, 'opacity', 0, 1).step(0.01).name('Opacity');
+        folder.add(settings.reference, 'maxAngle', 0, 90).step(1).name('Max Angle');
+        folder.add(settings.reference, 'project').name('Project Everywhere Visible');
+        folder.add(settings.reference, 'remove').name('Remove');
+
+        return () => handleAlignChange(settings.reference.align);
+    }
+
+    function setUpLayersGui(settings: any, folder: dat.GUI) {
+        var moveActiveLayer = (offset: number) => {
+            var index = chameleon.activeLayerIndex;
+            if (0 <= index + offset && index + offset < chameleon.layers.length) {
+                chameleon.moveLayer(index, index + offset);
+            }
+        };
+
+        settings.layers = {
+            active: '0',
+            name: '',
+            visible: true,
+            locked: false,
+            opacity: 1,
+            blendMode: 'source-over',
+            add: () => {
+                if (chameleon) {
+                    chameleon.addLayer();
+                    refresh();
+                }
+            },
+            remove: () => {
+                if (chameleon) {
+                    chameleon.removeLayer(chameleon.activeLayerIndex);
+                    refresh();
+                }
+            },
+            moveUp: () => {
+                if (chameleon) {
+                    moveActiveLayer(1);
+                    refresh();
+                }
+            },
+            moveDown: () => {
+                if (chameleon) {
+                    moveActiveLayer(-1);
+                    refresh();
+                }
+            }
         };
+
+        var activeController = folder.add(settings.layers, 'active', ['0']).name('Active Layer');
+        var nameController = folder.add(settings.layers, 'name').name('Name');
+        var visibleController = folder.add(settings.layers, 'visible').name('Visible');
+        var lockedController = folder.add(settings.layers, 'locked').name('Locked');
+        var opacityController = folder.add(settings.layers, 'opacity', 0, 1).step(0.01).name('Opacity');
+        var blendModeController = folder.add(settings.layers, 'blendMode', blendModeOptions()).name('Blend Mode');
+        folder.add(settings.layers, 'add').name('Add Layer');
+        folder.add(settings.layers, 'remove').name('Remove Layer');
+        folder.add(settings.layers, 'moveUp').name('Move Up');
+        folder.add(settings.layers, 'moveDown').name('Move Down');
+
+        var handleActiveChange = (newActive) => {
+            if (chameleon) {
+                chameleon.activeLayerIndex = parseInt(newActive, 10);
+                refresh();
+            }
+        };
+        var updateActiveLayer = (properties: Chameleon.LayerProperties) => {
+            if (chameleon) {
+                chameleon.updateLayer(chameleon.activeLayerIndex, properties);
+            }
+        };
+
+        nameController.onFinishChange((newName) => {
+            updateActiveLayer({name: newName});
+            refresh();
+        });
+        visibleController.onChange((newVisible) => updateActiveLayer({visible: newVisible}));
+        lockedController.onChange((newLocked) => updateActiveLayer({locked: newLocked}));
+        // Every face is composited again when the opacity changes, so wait until the slider is released
+        opacityController.onFinishChange((newOpacity) => updateActiveLayer({opacity: newOpacity}));
+        blendModeController.onChange((newBlendMode) => updateActiveLayer({blendMode: newBlendMode}));
+
+        // Shows the layers of the current model, listing the top layer first
+        var refresh = () => {
+            if (!chameleon) {
+                return;
+            }
+
+            var layers = chameleon.layers;
+            var layerOptions = {};
+            for (var i = layers.length - 1; i >= 0; i -= 1) {
+                layerOptions[(i + 1) + ': ' + layers[i].name] = String(i);
+            }
+            settings.layers.active = String(chameleon.activeLayerIndex);
+            activeController = activeController.options(layerOptions).name('Active Layer');
+            activeController.onChange(handleActiveChange);
+
+            var activeLayer = layers[chameleon.activeLayerIndex];
+            settings.layers.name = activeLayer.name;
+            settings.layers.visible = activeLayer.visible;
+            settings.layers.locked = activeLayer.locked;
+            settings.layers.opacity = activeLayer.opacity;
+            settings.layers.blendMode = activeLayer.blendMode;
+            [nameController, visibleController, lockedController, opacityController, blendModeController].forEach(
+                (controller) => controller.updateDisplay()
+            );
+        };
+
+        return refresh;
     }
 
     function setUpGui() {
@@ -193,12 +710,70 @@ declare var saveAs: any; // https://github.com/eligrey/FileSaver.js
                 },
                 perspectiveView: false
             },
-            exportObjTexture: () => {
+            undo: () => {
+                if (chameleon) {
+                    chameleon.undo();
+                }
+            },
+            redo: () => {
+                if (chameleon) {
+                    chameleon.redo();
+                }
+            },
+            exportGlb: () => {
+                if (chameleon) {
+                    saveAs(chameleon.exportGlb(textureExportOptions()), 'model.glb');
+                    logPackingEfficiency();
+                }
+            },
+            saveProject: () => {
                 if (chameleon) {
-                    saveAs(chameleon.packTexture(), 'texture-export.zip');
+                    saveAs(chameleon.saveProject({brush: (<any>settings).brush}), 'project.chameleon.zip');
+                }
+            },
+            exportSeparateLayers: false,
+            exportUvLayout: 'Packed',
+            exportResolution: 'Automatic',
+            exportPowerOfTwo: false,
+            exportFormat: 'png',
+            exportQuality: 0.92,
+            exportPadding: 4,
+            exportObjTexture: () => {
+                if (!chameleon) {
+                    return;
+                }
+
+                if (settings.exportUvLayout === 'Original') {
+                    if (chameleon.hasOriginalUvs) {
+                        saveAs(chameleon.bakeTexture(
+                            settings.exportSeparateLayers, textureExportOptions()
+                        ), 'texture-export.zip');
+                        return;
+                    }
+                    console.warn('The model has no UVs of its own. Exporting with packed UVs instead.');
                 }
+                saveAs(chameleon.packTexture(settings.exportSeparateLayers, textureExportOptions()), 'texture-export.zip');
+                logPackingEfficiency();
             }
         };
+        var logPackingEfficiency = () => {
+            console.log('Patches cover ' + Math.round(chameleon.packingEfficiency * 100) + '% of the packed texture.');
+        };
+        var textureExportOptions = (): Chameleon.TextureExportOptions => {
+            var format = settings.exportFormat;
+            if (!Chameleon.canEncodeTextureFormat(format)) {
+                statusElement.textContent = 'This browser cannot encode ' + format.toUpperCase() + ' images. ' +
+                    'Exported PNG instead.';
+                format = 'png';
+            }
+            return {
+                resolution: parseInt(<any>settings.exportResolution, 10) || undefined, // Automatic is not a number
+                powerOfTwo: settings.exportPowerOfTwo,
+                format: format,
+                quality: settings.exportQuality,
+                padding: settings.exportPadding
+            };
+        };
         var gui = new dat.GUI({width: 350});
 
         var handleBackgroundReset = (color) => {
@@ -207,6 +782,8 @@ declare var saveAs: any; // https://github.com/eligrey/FileSaver.js
             }
         };
         gui.addColor(settings, 'backgroundColor').name('Background Reset').onChange(handleBackgroundReset);
+        gui.add(settings, 'undo').name('Undo (Ctrl+Z)');
+        gui.add(settings, 'redo').name('Redo (Ctrl+Shift+Z)');
 
         var cameraFolder = gui.addFolder('Camera');
         var brushFolder = gui.addFolder('Brush');
@@ -216,11 +793,6 @@ declare var saveAs: any; // https://github.com/eligrey/FileSaver.js
             if (chameleon) {
                 chameleon.perspectiveView = perspectiveVIew;
             }
-            if (perspectiveVIew) {
-                brushFolder.close();
-            } else {
-                brushFolder.open();
-            }
         };
         cameraFolder.add(settings.camera, 'perspectiveView').name('Perspective Viewing').onChange(handlePerspectiveView);
         cameraFolder.add(settings.camera, 'reset').name('Reset');
@@ -229,65 +801,256 @@ declare var saveAs: any; // https://github.com/eligrey/FileSaver.js
 
         var reapplyBrushGuiSettings = setUpBrushSettingsGui(settings, brushFolder);
 
-        gui.add(settings, 'exportObjTexture').name('Export Textured Model');
+        var symmetryFolder = gui.addFolder('Symmetry');
+        var applySymmetryGuiSettings = setUpSymmetryGui(settings, symmetryFolder);
 
-        return () => {
-            handleBackgroundReset(settings.backgroundColor);
+        var decalFolder = gui.addFolder('Decal');
+        setUpDecalGui(settings, decalFolder);
+
+        var referenceFolder = gui.addFolder('Reference Photo');
+        var applyReferenceGuiSettings = setUpReferenceGui(settings, referenceFolder);
+
+        var layersFolder = gui.addFolder('Layers');
+        layersFolder.open();
+        var refreshLayersGui = setUpLayersGui(settings, layersFolder);
+
+        gui.add(settings, 'saveProject').name('Save Project');
+
+        var exportFolder = gui.addFolder('Export');
+        exportFolder.add(settings, 'exportUvLayout', ['Packed', 'Original']).name('UV Layout');
+        exportFolder.add(settings, 'exportResolution', ['Automatic', 256, 512, 1024, 2048, 4096]).name('Resolution');
+        exportFolder.add(settings, 'exportPowerOfTwo').name('Power of Two');
+        exportFolder.add(settings, 'exportFormat', Chameleon.TEXTURE_FORMATS).name('Format');
+        exportFolder.add(settings, 'exportQuality', 0, 1).step(0.01).name('Quality (JPEG, WebP)');
+        exportFolder.add(settings, 'exportPadding', 0, 16).step(1).name('Padding');
+        exportFolder.add(settings, 'exportSeparateLayers').name('Layers Separately');
+        exportFolder.add(settings, 'exportObjTexture').name('Export Textured Model');
+        exportFolder.add(settings, 'exportGlb').name('Export glTF (GLB)');
+
+        var updateGuiDisplay = (folder: dat.GUI) => {
+            folder.__controllers.forEach((controller) => controller.updateDisplay());
+            for (var name in folder.__folders) {
+                updateGuiDisplay(folder.__folders[name]);
+            }
+        };
+
+        // The background color is not applied to models that come with a texture, as that would paint over it.
+        // Projects bring their own settings, which are shown in the GUI before being applied.
+        return (keepTexture: boolean, projectSettings?: any) => {
+            if (projectSettings) {
+                settings.backgroundColor = chameleon.backgroundColor;
+                settings.camera.perspectiveView = chameleon.perspectiveView;
+                for (var key in projectSettings.brush) {
+                    (<any>settings).brush[key] = projectSettings.brush[key];
+                }
+                updateGuiDisplay(gui);
+            }
+
+            if (!keepTexture) {
+                handleBackgroundReset(settings.backgroundColor);
+            }
             handlePerspectiveView(settings.camera.perspectiveView);
             reapplyBrushGuiSettings();
+            applySymmetryGuiSettings();
+            applyReferenceGuiSettings();
+            refreshLayersGui();
         };
     }
 
     var reapplyGuiSettings = setUpGui();
 
-    function loadGeometry(geometry: THREE.Geometry) {
+    function loadGeometry(geometry: THREE.Geometry, faceGroups: Chameleon.FaceGroup[], texture?: HTMLImageElement) {
         if (chameleon) {
-            chameleon.removeEventListeners();
+            chameleon.dispose();
         }
 
-        chameleon = Chameleon.create(geometry, screenCanvas);
-        reapplyGuiSettings();
+        chameleon = Chameleon.create(geometry, screenCanvas, {
+            onProgress: showPreparationProgress,
+            texture: texture,
+            faceGroups: faceGroups
+        });
+        reapplyGuiSettings(!!texture);
+        // Re-applying the background color is part of loading, not something to undo
+        chameleon.clearHistory();
         console.log('New Model Loaded.');
     }
 
-    function object3dToGeometry(object3d: THREE.Object3D): THREE.Geometry {
-        var geometry = new THREE.Geometry();
+    function openProject(data: ArrayBuffer) {
+        // The current model is kept when the file cannot be opened
+        var error = Chameleon.projectFileError(data);
+        if (error) {
+            statusElement.textContent = error;
+            return;
+        }
+
+        if (chameleon) {
+            chameleon.dispose();
+            chameleon = null;
+        }
+
+        Chameleon.openProject(data, screenCanvas, {onProgress: showPreparationProgress}, (controls, projectSettings) => {
+            chameleon = controls;
+            reapplyGuiSettings(true, projectSettings || {});
+            console.log('Project Opened.');
+        }, (message) => {
+            statusElement.textContent = 'The project could not be opened. ' + message;
+        });
+    }
+
+    function showPreparationProgress(progress: number) {
+        statusElement.textContent = (progress < 1) ?
+            'Preparing model for painting... ' + Math.floor(progress * 100) + '%' :
+            '';
+    }
+
+    // The meshes that a loaded model is merged from, in order
+    function forEachMergedMesh(object3d: THREE.Object3D, callback: (mesh: THREE.Mesh) => any) {
         object3d.traverse((child: THREE.Object3D) => {
             if ((child instanceof THREE.Mesh) && !(child.parent instanceof THREE.Mesh)) {
-                var mesh = <THREE.Mesh>child;
-                if (mesh.geometry instanceof THREE.BufferGeometry) {
-                    mesh.geometry = new THREE.Geometry().fromBufferGeometry(<any>mesh.geometry);
-                    mesh.geometry.faceVertexUvs = [[]];
-                    mesh.geometry.uvsNeedUpdate = true;
-                }
-                THREE.GeometryUtils.merge(geometry, mesh);
+                callback(<THREE.Mesh>child);
+            }
+        });
+    }
+
+    // The UVs of the model are kept if all of its parts have them, so that textures can be baked into their layout
+    function object3dToGeometry(object3d: THREE.Object3D): THREE.Geometry {
+        var geometry = new THREE.Geometry();
+        var hasUvs = true;
+        forEachMergedMesh(object3d, (mesh) => {
+            if (mesh.geometry instanceof THREE.BufferGeometry) {
+                mesh.geometry = new THREE.Geometry().fromBufferGeometry(<any>mesh.geometry);
             }
+
+            var meshUvs = mesh.geometry.faceVertexUvs[0];
+            if (!meshUvs || meshUvs.length !== mesh.geometry.faces.length) {
+                hasUvs = false;
+                // Placeholders keep the UVs of the parts merged after this one aligned with their faces
+                mesh.geometry.faceVertexUvs[0] = mesh.geometry.faces.map(
+                    () => [new THREE.Vector2(), new THREE.Vector2(), new THREE.Vector2()]
+                );
+            }
+            THREE.GeometryUtils.merge(geometry, mesh);
         });
+
+        if (!hasUvs) {
+            geometry.faceVertexUvs = [[]];
+        }
         return geometry;
     }
 
+    // The named objects and groups that object3dToGeometry merged, or null when none is named.
+    // OBJLoader makes a mesh for each object, and lists where its groups start in userData.groups.
+    function meshFaceGroups(object3d: THREE.Object3D): Chameleon.FaceGroup[] {
+        var faceGroups: Chameleon.FaceGroup[] = [];
+        var nFaces = 0;
+        forEachMergedMesh(object3d, (mesh) => {
+            var nMeshFaces = (<THREE.Geometry>mesh.geometry).faces.length;
+            var groups: {name: string; start: number}[] = [{name: '', start: 0}].concat(mesh.userData.groups || []);
+            groups.forEach((group, i) => {
+                var end = (i + 1 < groups.length) ? groups[i + 1].start : nMeshFaces;
+                if (end > group.start) {
+                    faceGroups.push({
+                        objectName: mesh.name,
+                        groupName: group.name,
+                        start: nFaces + group.start,
+                        count: end - group.start
+                    });
+                }
+            });
+            nFaces += nMeshFaces;
+        });
+
+        var isAnonymous = faceGroups.every((faceGroup) => !faceGroup.objectName && !faceGroup.groupName);
+        return isAnonymous ? null : faceGroups;
+    }
+
+    function readFileAsText(file: File, onLoad: (text: string) => any) {
+        var reader = new FileReader();
+        reader.onload = () => onLoad(reader.result);
+        reader.readAsText(file);
+    }
+
+    // The file name of the first diffuse map in an MTL file, without its directory
+    function diffuseMapName(mtlText: string): string {
+        var match = /^\s*map_Kd\s+(.+)$/m.exec(mtlText);
+        if (!match) {
+            return null;
+        }
+
+        // Options such as '-s 1 1 1' may come before the file name, which is last
+        var tokens = match[1].trim().split(/\s+/);
+        var path = tokens[tokens.length - 1];
+        return path.substr(Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\')) + 1);
+    }
+
     var objLoader = new THREE.OBJLoader();
 
     screenCanvas.ondragover = () => false;
     screenCanvas.ondrop = (e) => {
         e.preventDefault();
 
-        var file: File = e.dataTransfer.files[0],
-            reader = new FileReader();
-
-        reader.onload = () => {
-            var object3d = objLoader.parse(reader.result);
-            loadGeometry(object3dToGeometry(object3d));
+        // A textured model can be dropped as its OBJ file together with its MTL file and diffuse map
+        var files: File[] = Array.prototype.slice.call(e.dataTransfer.files);
+        var findFile = (pattern: RegExp) => {
+            for (var i = 0; i < files.length; i += 1) {
+                if (pattern.test(files[i].name)) {
+                    return files[i];
+                }
+            }
+            return null;
         };
-        reader.readAsText(file);
+        var projectFile = findFile(/\.zip$/i);
+        if (projectFile) {
+            var reader = new FileReader();
+            reader.onload = () => openProject(reader.result);
+            reader.readAsArrayBuffer(projectFile);
+            return;
+        }
+
+        var objFile = findFile(/\.obj$/i) || files[0],
+            mtlFile = findFile(/\.mtl$/i),
+            imageFiles = files.filter((file) => /^image\//.test(file.type));
+
+        readFileAsText(objFile, (objText) => {
+            var object3d = objLoader.parse(objText);
+            var geometry = object3dToGeometry(object3d);
+            var faceGroups = meshFaceGroups(object3d);
+
+            var loadWithImage = (imageFile: File) => {
+                if (!imageFile) {
+                    loadGeometry(geometry, faceGroups);
+                    return;
+                }
+
+                var image = new Image();
+                image.onload = () => {
+                    URL.revokeObjectURL(image.src);
+                    loadGeometry(geometry, faceGroups, image);
+                };
+                image.src = URL.createObjectURL(imageFile);
+            };
+
+            if (mtlFile) {
+                readFileAsText(mtlFile, (mtlText) => {
+                    var mapName = diffuseMapName(mtlText);
+                    var mapFile = imageFiles.filter(
+                        (file) => !!mapName && file.name.toLowerCase() === mapName.toLowerCase()
+                    )[0];
+                    loadWithImage(mapFile || imageFiles[0]);
+                });
+            } else {
+                loadWithImage(imageFiles[0]);
+            }
+        });
     };
 
     window.onload = function () {
-        objLoader.load('models/chameleon.obj', (object3d) => {
+        new THREE.XHRLoader().load('models/chameleon.obj', (objText) => {
+            var object3d = objLoader.parse(objText);
             var geometry = object3dToGeometry(object3d);
             geometry.applyMatrix(new THREE.Matrix4().makeRotationY(Math.PI / 2));
             geometry.applyMatrix(new THREE.Matrix4().makeTranslation(0, -1, 0));
-            loadGeometry(geometry);
+            loadGeometry(geometry, meshFaceGroups(object3d));
         });
 
         // Render loop
@@ -2,8 +2,16 @@
 /// <reference path="./chameleon/brushes.ts" />
 
 module Chameleon {
-    export function create(geometry: THREE.Geometry, canvas?: HTMLCanvasElement) {
-        return new Controls(geometry, canvas);
+    export function create(geometry: THREE.Geometry, canvas?: HTMLCanvasElement, options?: ControlsOptions) {
+        return new Controls(geometry, canvas, options);
+    }
+
+    export function openProject(data: ArrayBuffer,
+                                canvas: HTMLCanvasElement,
+                                options: ControlsOptions,
+                                onLoad: (controls: Controls, settings: any) => any,
+                                onError: (message: string) => any) {
+        Controls.openProject(data, canvas, options, onLoad, onError);
     }
 }
 
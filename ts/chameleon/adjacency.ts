@@ -0,0 +1,143 @@
+/// <reference path="./common.ts" />
+
+module Chameleon {
+
+    var CHUNK_SIZE = 20000;
+
+    /**
+     * Finds the faces that share an edge with each face. Vertices closer than epsilon along every axis are treated as
+     * the same vertex, so that adjacency is not broken where the model duplicates vertices (e.g. along UV seams).
+     *
+     * Vertices are welded by hashing their positions into a grid of epsilon-sized cells, and faces are matched through
+     * a map of welded edges, so this takes near-linear time. The work is split into chunks run with setTimeout, so that
+     * the page stays responsive on large models.
+     *
+     * @param onProgress called after each chunk with the fraction of work done
+     * @param onComplete called with the indices of adjacent faces for each face
+     * @returns a function that cancels the remaining work
+     */
+    export function buildFaceAdjacency(geometry: THREE.Geometry,
+                                       epsilon: number,
+                                       onProgress: (progress: number) => any,
+                                       onComplete: (adjacentFacesList: Uint32Array[]) => any): () => void {
+        var vertices = geometry.vertices,
+            faces = geometry.faces;
+        var totalWork = vertices.length + faces.length * 2;
+
+        var weldedIndices = new Uint32Array(vertices.length);
+        var cells: {[key: string]: number[]} = Object.create(null);
+        var nWelded = 0;
+
+        var weldVertex = (vertexIndex: number) => {
+            var vertex = vertices[vertexIndex];
+            var cx = Math.floor(vertex.x / epsilon),
+                cy = Math.floor(vertex.y / epsilon),
+                cz = Math.floor(vertex.z / epsilon);
+
+            // A vertex within epsilon can be in any of the neighbouring cells
+            for (var dx = -1; dx <= 1; dx += 1) {
+                for (var dy = -1; dy <= 1; dy += 1) {
+                    for (var dz = -1; dz <= 1; dz += 1) {
+                        var cell = cells[(cx + dx) + ',' + (cy + dy) + ',' + (cz + dz)];
+                        if (!cell) {
+                            continue;
+                        }
+                        for (var i = 0; i < cell.length; i += 1) {
+                            var other = vertices[cell[i]];
+                            if (Math.abs(vertex.x - other.x) < epsilon &&
+                                Math.abs(vertex.y - other.y) < epsilon &&
+                                Math.abs(vertex.z - other.z) < epsilon) {
+                                weldedIndices[vertexIndex] = weldedIndices[cell[i]];
+                                return;
+                            }
+                        }
+                    }
+                }
+            }
+
+            var key = cx + ',' + cy + ',' + cz;
+            if (!cells[key]) {
+                cells[key] = [];
+            }
+            cells[key].push(vertexIndex);
+            weldedIndices[vertexIndex] = nWelded;
+            nWelded += 1;
+        };
+
+        var edgeFaces: {[key: string]: number[]} = Object.create(null);
+        var addEdge = (v1: number, v2: number, faceIndex: number) => {
+            if (v1 === v2) {
+                return; // Degenerate edge
+            }
+            var key = v1 < v2 ? v1 + '_' + v2 : v2 + '_' + v1;
+            if (!edgeFaces[key]) {
+                edgeFaces[key] = [];
+            }
+            edgeFaces[key].push(faceIndex);
+        };
+
+        var adjacentFaces: number[][] = new Array(faces.length);
+        var linkFaces = (faceIndex: number) => {
+            var face = faces[faceIndex];
+            var a = weldedIndices[face.a], b = weldedIndices[face.b], c = weldedIndices[face.c];
+            var keys = [
+                a < b ? a + '_' + b : b + '_' + a,
+                b < c ? b + '_' + c : c + '_' + b,
+                c < a ? c + '_' + a : a + '_' + c
+            ];
+
+            var neighbours: number[] = [];
+            for (var i = 0; i < keys.length; i += 1) {
+                var sharing = edgeFaces[keys[i]];
+                if (!sharing) {
+                    continue;
+                }
+                for (var j = 0; j < sharing.length; j += 1) {
+                    if (sharing[j] !== faceIndex && neighbours.indexOf(sharing[j]) < 0) {
+                        neighbours.push(sharing[j]);
+                    }
+                }
+            }
+            adjacentFaces[faceIndex] = neighbours;
+        };
+
+        // Each step processes one vertex or face, in three passes: welding vertices, collecting edges, linking faces
+        var step = 0;
+        var timeoutId: number = null;
+        var runChunk = () => {
+            var chunkEnd = Math.min(step + CHUNK_SIZE, totalWork);
+            for (; step < chunkEnd; step += 1) {
+                if (step < vertices.length) {
+                    weldVertex(step);
+                } else if (step < vertices.length + faces.length) {
+                    var faceIndex = step - vertices.length;
+                    var face = faces[faceIndex];
+                    addEdge(weldedIndices[face.a], weldedIndices[face.b], faceIndex);
+                    addEdge(weldedIndices[face.b], weldedIndices[face.c], faceIndex);
+                    addEdge(weldedIndices[face.c], weldedIndices[face.a], faceIndex);
+                } else {
+                    linkFaces(step - vertices.length - faces.length);
+                }
+            }
+
+            if (onProgress) {
+                onProgress(totalWork > 0 ? step / totalWork : 1);
+            }
+
+            if (step < totalWork) {
+                timeoutId = setTimeout(runChunk, 0);
+            } else {
+                timeoutId = null;
+                onComplete(adjacentFaces.map((neighbours) => new Uint32Array(neighbours)));
+            }
+        };
+        timeoutId = setTimeout(runChunk, 0);
+
+        return () => {
+            if (timeoutId !== null) {
+                clearTimeout(timeoutId);
+                timeoutId = null;
+            }
+        };
+    }
+}
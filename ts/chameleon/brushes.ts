@@ -1,345 +1,479 @@
 /// <reference path="./common.ts" />
+/// <reference path="./layers.ts" />
 
 module Chameleon {
 
     export interface Brush {
         radius: number;
-        startStroke(canvas: HTMLCanvasElement, position: THREE.Vector2);
-        continueStoke(position: THREE.Vector2);
+        color?: string; // Only for brushes that paint in a color of their choosing
+
+        /**
+         * How far from the stroke the brush may paint, in pixels, which can be more than the radius
+         */
+        paintedRadius(): number;
+
+        startStroke(canvas: HTMLCanvasElement, position: THREE.Vector2, sample?: StrokeSample);
+        continueStoke(position: THREE.Vector2, sample?: StrokeSample);
         finishStroke();
     }
 
-    export class Pencil implements Brush {
-        get radius(): number {
-            return 1;
-        }
-
-        private _canvasContext: CanvasRenderingContext2D = null;
+    function pressureOf(sample?: StrokeSample): number {
+        return sample ? sample.pressure : 1;
+    }
 
-        startStroke(canvas: HTMLCanvasElement, position: THREE.Vector2) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.beginPath();
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
-            this._canvasContext.lineWidth = this.radius * 2;
+    /**
+     * A brush that paints with the 2D canvas API. Subclasses paint into context in beginStroke and paint.
+     *
+     * A stroke that is not fully opaque or not blended normally is painted into a buffer of its own, which is laid
+     * over the canvas as it was before the stroke after every step. This way the stroke as a whole gets the opacity
+     * and the blend mode, however often it overlaps itself.
+     */
+    export class CanvasBrush implements Brush {
+        radius: number;
+        opacity: number = 1; // Of the whole stroke, in [0, 1]
+        flow: number = 1; // Of each bit of paint, which builds up where the stroke overlaps itself. In [0, 1]
+        blendMode: string = 'source-over'; // One of BLEND_MODES
+
+        /**
+         * Where the stroke is painted, with globalAlpha set to the flow. Only set during a stroke.
+         */
+        context: CanvasRenderingContext2D = null;
+
+        private _canvas: HTMLCanvasElement = null;
+        private _canvasBeforeStroke: HTMLCanvasElement = null;
+        private _strokeBuffer: HTMLCanvasElement = null;
+
+        paintedRadius(): number {
+            return this.radius;
+        }
+
+        /**
+         * How the stroke is composited onto the canvas
+         */
+        compositeOperation(): string {
+            return this.blendMode;
+        }
+
+        startStroke(canvas: HTMLCanvasElement, position: THREE.Vector2, sample?: StrokeSample) {
+            console.assert(BLEND_MODES.indexOf(this.blendMode) >= 0);
+            if (this.opacity < 1 || this.compositeOperation() !== 'source-over') {
+                this._canvas = canvas;
+                this._canvasBeforeStroke = <HTMLCanvasElement>document.createElement('canvas');
+                this._canvasBeforeStroke.width = canvas.width;
+                this._canvasBeforeStroke.height = canvas.height;
+                this._canvasBeforeStroke.getContext('2d').drawImage(canvas, 0, 0);
+                this._strokeBuffer = <HTMLCanvasElement>document.createElement('canvas');
+                this._strokeBuffer.width = canvas.width;
+                this._strokeBuffer.height = canvas.height;
+                this.context = this._strokeBuffer.getContext('2d');
+            } else {
+                this.context = canvas.getContext('2d');
+            }
 
-            this._canvasContext.moveTo(position.x, position.y);
+            this.context.save(); // Assumption: nobody else will call this until the stroke is finished
+            this.context.globalAlpha = this.flow;
+            this.beginStroke(position, sample);
+            this._compositeStroke();
         }
 
-        continueStoke(position: THREE.Vector2) {
-            if (this._canvasContext) {
-                this._canvasContext.lineTo(position.x, position.y);
-                this._canvasContext.stroke();
+        continueStoke(position: THREE.Vector2, sample?: StrokeSample) {
+            if (this.context) {
+                this.paint(position, sample);
+                this._compositeStroke();
             }
         }
 
         finishStroke() {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
+            if (this.context) {
+                this.context.restore();
+                this.context = null;
+                this._canvas = this._canvasBeforeStroke = this._strokeBuffer = null;
+            }
+        }
+
+        /**
+         * Sets up context for the stroke, and may paint at its start
+         */
+        beginStroke(position: THREE.Vector2, sample?: StrokeSample) {
+        }
+
+        /**
+         * Paints the stroke up to a new position
+         */
+        paint(position: THREE.Vector2, sample?: StrokeSample) {
+        }
+
+        private _compositeStroke() {
+            if (this._strokeBuffer) {
+                var canvasContext = this._canvas.getContext('2d');
+                canvasContext.save();
+                canvasContext.globalCompositeOperation = 'copy';
+                canvasContext.drawImage(this._canvasBeforeStroke, 0, 0);
+                canvasContext.globalCompositeOperation = this.compositeOperation();
+                canvasContext.globalAlpha = this.opacity;
+                canvasContext.drawImage(this._strokeBuffer, 0, 0);
+                canvasContext.restore();
             }
         }
     }
 
-    export class MarkerBrush implements Brush {
-        private _canvasContext: CanvasRenderingContext2D = null;
+    export class Pencil extends CanvasBrush implements Brush {
+        private _lastPosition = new THREE.Vector2();
 
-        startStroke(canvas: HTMLCanvasElement, position: THREE.Vector2) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.beginPath();
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
+        get radius(): number {
+            return 1;
+        }
 
-            this._canvasContext.lineWidth = this.radius * 2;
-            this._canvasContext.strokeStyle = this.color;
-            this._canvasContext.lineJoin = this._canvasContext.lineCap = 'round';
-            this._canvasContext.moveTo(position.x, position.y);
+        beginStroke(position: THREE.Vector2) {
+            this.context.lineWidth = this.radius * 2;
+            this._lastPosition.copy(position);
         }
 
-        continueStoke(position: THREE.Vector2) {
-            if (this._canvasContext) {
-                this._canvasContext.lineTo(position.x, position.y);
-                this._canvasContext.stroke();
-            }
+        // Segment by segment, so that the flow does not build up where the stroke is stroked again
+        paint(position: THREE.Vector2) {
+            this.context.beginPath();
+            this.context.moveTo(this._lastPosition.x, this._lastPosition.y);
+            this.context.lineTo(position.x, position.y);
+            this.context.stroke();
+
+            this._lastPosition.copy(position);
         }
+    }
 
-        finishStroke() {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
-            }
+    export class MarkerBrush extends CanvasBrush implements Brush {
+        private _lastPosition = new THREE.Vector2();
+
+        beginStroke(position: THREE.Vector2, sample?: StrokeSample) {
+            this.context.strokeStyle = this.color;
+            this.context.lineJoin = this.context.lineCap = 'round';
+            this._lastPosition.copy(position);
+        }
+
+        paint(position: THREE.Vector2, sample?: StrokeSample) {
+            // Stroke segment by segment, so that the line width can follow the pen pressure
+            this.context.lineWidth = this.radius * 2 * pressureOf(sample);
+            this.context.beginPath();
+            this.context.moveTo(this._lastPosition.x, this._lastPosition.y);
+            this.context.lineTo(position.x, position.y);
+            this.context.stroke();
+
+            this._lastPosition.copy(position);
         }
 
         constructor(public radius: number,
                     public color: string) {
+            super();
         }
     }
 
-    export class BlurryMarkerBrush implements Brush {
-        private _canvasContext: CanvasRenderingContext2D = null;
+    /**
+     * Strokes like MarkerBrush, but removes paint instead of adding it. The blend mode does not apply.
+     */
+    export class EraserBrush extends CanvasBrush implements Brush {
+        /**
+         * The color that erased pixels get, or null to make them transparent.
+         * Controls sets this to the background color on the bottom layer, which stays opaque.
+         */
+        backgroundColor: string = null;
 
-        startStroke(canvas: HTMLCanvasElement, position: THREE.Vector2) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.beginPath();
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
+        private _lastPosition = new THREE.Vector2();
 
-            this._canvasContext.lineWidth = this.radius;
-            this._canvasContext.strokeStyle = this.color;
-            this._canvasContext.lineJoin = this._canvasContext.lineCap = 'round';
-            this._canvasContext.shadowBlur = this.radius;
-            this._canvasContext.shadowColor = this.color;
-            this._canvasContext.moveTo(position.x, position.y);
+        compositeOperation(): string {
+            return (this.backgroundColor === null) ? 'destination-out' : 'source-over';
         }
 
-        continueStoke(position: THREE.Vector2) {
-            if (this._canvasContext) {
-                this._canvasContext.lineTo(position.x, position.y);
-                this._canvasContext.stroke();
-            }
+        beginStroke(position: THREE.Vector2, sample?: StrokeSample) {
+            this.context.strokeStyle = (this.backgroundColor === null) ? '#000000' : this.backgroundColor;
+            this.context.lineJoin = this.context.lineCap = 'round';
+            this._lastPosition.copy(position);
         }
 
-        finishStroke() {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
-            }
+        paint(position: THREE.Vector2, sample?: StrokeSample) {
+            this.context.lineWidth = this.radius * 2 * pressureOf(sample);
+            this.context.beginPath();
+            this.context.moveTo(this._lastPosition.x, this._lastPosition.y);
+            this.context.lineTo(position.x, position.y);
+            this.context.stroke();
+
+            this._lastPosition.copy(position);
         }
 
-        constructor(public radius: number,
-                    public color: string) {
+        constructor(public radius: number) {
+            super();
         }
     }
 
-    export class CalligraphyBrush implements Brush {
-        get radius(): number {
-            return 32 / 2;
+    export class BlurryMarkerBrush extends CanvasBrush implements Brush {
+        private _lastPosition = new THREE.Vector2();
+
+        beginStroke(position: THREE.Vector2) {
+            this.context.lineWidth = this.radius;
+            this.context.strokeStyle = this.color;
+            this.context.lineJoin = this.context.lineCap = 'round';
+            this.context.shadowBlur = this.radius;
+            this.context.shadowColor = this.color;
+            this._lastPosition.copy(position);
         }
 
-        private img = new Image();
+        // Segment by segment, so that the flow does not build up where the stroke is stroked again
+        paint(position: THREE.Vector2) {
+            this.context.beginPath();
+            this.context.moveTo(this._lastPosition.x, this._lastPosition.y);
+            this.context.lineTo(position.x, position.y);
+            this.context.stroke();
 
-        private _canvasContext: CanvasRenderingContext2D = null;
+            this._lastPosition.copy(position);
+        }
+
+        constructor(public radius: number,
+                    public color: string) {
+            super();
+        }
+    }
+
+    /**
+     * Loads an image to use as the tip of a StampBrush
+     */
+    export function loadBrushTip(url: string): HTMLImageElement {
+        var image = new Image();
+        image.src = url;
+        return image;
+    }
+
+    /**
+     * Paints a stroke by stamping an image, the tip, along it. By default, the tip is a mask that is filled with the
+     * color of the brush.
+     */
+    export class StampBrush extends CanvasBrush implements Brush {
+        color: string = '#000000';
+        useTipColors: boolean = false; // Stamp the tip as it is, instead of filling it with the color
+
+        spacing: number = 25; // Distance between stamps, in percent of the diameter
+        angle: number = 0; // In degrees
+        followStroke: boolean = false; // Turn the tip in the direction of the stroke
+        sizeJitter: number = 0; // How much smaller stamps may randomly get, in [0, 1]
+        angleJitter: number = 0; // How far stamps may randomly turn either way, in degrees
+        scatter: number = 0; // How far stamps may randomly move off the stroke either way, in diameters
+
+        private _stamp: HTMLCanvasElement = null;
         private _lastPosition = new THREE.Vector2();
+        private _distanceToNextStamp = 0;
 
-        startStroke(canvas: HTMLCanvasElement, position: THREE.Vector2) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.beginPath();
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
-            this.img.src = 'image/brush3.png';
-            this._canvasContext.lineJoin = this._canvasContext.lineCap = 'round';
+        beginStroke(position: THREE.Vector2, sample?: StrokeSample) {
+            this._stamp = this._prepareStamp();
             this._lastPosition.copy(position);
+            this._stampAt(position, 0, pressureOf(sample));
+            this._distanceToNextStamp = this._spacingInPixels(pressureOf(sample));
         }
 
-        continueStoke(position: THREE.Vector2) {
-            if (this._canvasContext) {
-                var dist = this._lastPosition.distanceTo(position);
-                var angle = angleBetween(this._lastPosition, position);
+        paint(position: THREE.Vector2, sample?: StrokeSample) {
+            var pressure = pressureOf(sample);
+            var distance = this._lastPosition.distanceTo(position);
+            var direction = Math.atan2(position.y - this._lastPosition.y, position.x - this._lastPosition.x);
+            var spacing = this._spacingInPixels(pressure);
 
-                for (var i = 0; i < dist; i++) {
-                    var x = this._lastPosition.x + (Math.sin(angle) * i) - this.radius;
-                    var y = this._lastPosition.y + (Math.cos(angle) * i) - this.radius;
-                    this._canvasContext.drawImage(this.img, x, y);
-                }
-
-                this._lastPosition.copy(position);
+            // Stamps are evenly spaced along the whole stroke, not just within each segment of it
+            var t = this._distanceToNextStamp;
+            for (; t <= distance; t += spacing) {
+                this._stampAt(this._lastPosition.clone().lerp(position, t / distance), direction, pressure);
             }
+            this._distanceToNextStamp = t - distance;
+            this._lastPosition.copy(position);
         }
 
-        finishStroke() {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
-            }
+        paintedRadius(): number {
+            var size = this._tipSize();
+            var aspect = size ? size.height / size.width : 1;
+            // The tip may be turned any way, so it reaches as far as half of its diagonal, and it may be scattered
+            return this.radius * Math.sqrt(1 + aspect * aspect) + this.scatter * this.radius * 2;
         }
-    }
 
-    export class Fur implements Brush {
-        get radius(): number {
-            return 32 * 1.415 / 2;
+        // null until the tip has loaded
+        private _tipSize(): {width: number; height: number} {
+            var width = (this.tip instanceof HTMLImageElement) ?
+                (<HTMLImageElement>this.tip).naturalWidth : this.tip.width;
+            var height = (this.tip instanceof HTMLImageElement) ?
+                (<HTMLImageElement>this.tip).naturalHeight : this.tip.height;
+            return (width && height) ? {width: width, height: height} : null;
         }
 
-        private img = new Image();
-        private _canvasContext: CanvasRenderingContext2D = null;
-        private _lastPosition: THREE.Vector2 = new THREE.Vector2();
+        private _spacingInPixels(pressure: number): number {
+            return Math.max(this.spacing / 100 * this.radius * 2 * pressure, 1);
+        }
 
-        startStroke(canvas: HTMLCanvasElement, position: THREE.Vector2) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.beginPath();
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
+        // null until the tip has loaded
+        private _prepareStamp(): HTMLCanvasElement {
+            var size = this._tipSize();
+            if (!size) {
+                return null;
+            }
 
-            this.img.src = 'image/brush3.png';
-            this.img.width = 10;
-            this._canvasContext.lineJoin = this._canvasContext.lineCap = 'round';
-            this._lastPosition.copy(position);
+            var stamp = <HTMLCanvasElement>document.createElement('canvas');
+            var width = stamp.width = size.width;
+            var height = stamp.height = size.height;
+            var stampContext = stamp.getContext('2d');
+            stampContext.drawImage(this.tip, 0, 0);
+            if (!this.useTipColors) {
+                stampContext.globalCompositeOperation = 'source-in';
+                stampContext.fillStyle = this.color;
+                stampContext.fillRect(0, 0, width, height);
+            }
+            return stamp;
         }
 
-        continueStoke(position: THREE.Vector2) {
-            if (this._canvasContext) {
-                var dist = this._lastPosition.distanceTo(position);
-                var angle = angleBetween(this._lastPosition, position);
-
-                for (var i = 0; i < dist; i++) {
-                    var x = this._lastPosition.x + (Math.sin(angle) * i);
-                    var y = this._lastPosition.y + (Math.cos(angle) * i);
-                    this._canvasContext.save();
-                    this._canvasContext.translate(x, y);
-                    this._canvasContext.scale(0.5, 0.5);
-                    this._canvasContext.rotate(Math.PI * 180 / getRandomInt(0, 180));
-                    this._canvasContext.drawImage(this.img, 0, 0);
-                    this._canvasContext.restore();
-                }
+        private _stampAt(position: THREE.Vector2, direction: number, pressure: number) {
+            if (!this._stamp) {
+                return;
+            }
 
-                this._lastPosition.copy(position);
+            var width = this.radius * 2 * pressure * (1 - this.sizeJitter * Math.random());
+            var height = width * this._stamp.height / this._stamp.width;
+            var angle = (this.angle + getRandomFloat(-this.angleJitter, this.angleJitter)) * Math.PI / 180;
+            if (this.followStroke) {
+                angle += direction;
             }
+            var offset = getRandomFloat(-this.scatter, this.scatter) * this.radius * 2;
+
+            this.context.save();
+            // Scattered across the direction of the stroke
+            this.context.translate(position.x - Math.sin(direction) * offset, position.y + Math.cos(direction) * offset);
+            this.context.rotate(angle);
+            this.context.drawImage(this._stamp, -width / 2, -height / 2, width, height);
+            this.context.restore();
         }
 
-        finishStroke() {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
-            }
+        constructor(public radius: number,
+                    public tip: HTMLImageElement|HTMLCanvasElement) {
+            super();
         }
     }
 
-    export class ThickBrush implements Brush {
-        private _canvasContext: CanvasRenderingContext2D = null;
-        private _lastPosition = new THREE.Vector2();
-
-        startStroke(canvas: HTMLCanvasElement, position: THREE.Vector2) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.beginPath();
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
-
-            this._canvasContext.lineWidth = this.radius / 10;
-            this._canvasContext.strokeStyle = this.color;
-            this._canvasContext.lineJoin = this._canvasContext.lineCap = 'round';
-            this._lastPosition.copy(position);
+    export class CalligraphyBrush extends StampBrush {
+        constructor() {
+            super(32 / 2, loadBrushTip('image/brush3.png'));
+            this.useTipColors = true;
+            this.spacing = 3;
         }
+    }
 
-        continueStoke(position: THREE.Vector2) {
-            if (this._canvasContext) {
-                this._canvasContext.beginPath();
-                this._canvasContext.globalAlpha = 0.85;
+    export class Fur extends StampBrush {
+        constructor() {
+            super(32 / 2 / 2, loadBrushTip('image/brush3.png'));
+            this.useTipColors = true;
+            this.spacing = 6;
+            this.angleJitter = 180;
+            this.scatter = 0.5;
+        }
+    }
 
-                for (var i = -this.radius * 0.9; i <= this.radius * 0.9; i += this.radius / 20) {
-                    this._canvasContext.beginPath();
-                    this._canvasContext.moveTo(this._lastPosition.x + i, this._lastPosition.y + i);
-                    this._canvasContext.lineTo(position.x + i, position.y + i);
-                    this._canvasContext.stroke();
-                }
+    export class ThickBrush extends CanvasBrush implements Brush {
+        private _lastPosition = new THREE.Vector2();
 
-                this._lastPosition.copy(position);
-            }
+        beginStroke(position: THREE.Vector2) {
+            this.context.beginPath();
+            this.context.lineWidth = this.radius / 10;
+            this.context.strokeStyle = this.color;
+            this.context.lineJoin = this.context.lineCap = 'round';
+            this.context.globalAlpha = 0.85 * this.flow;
+            this._lastPosition.copy(position);
         }
 
-        finishStroke() {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
+        paint(position: THREE.Vector2) {
+            for (var i = -this.radius * 0.9; i <= this.radius * 0.9; i += this.radius / 20) {
+                this.context.beginPath();
+                this.context.moveTo(this._lastPosition.x + i, this._lastPosition.y + i);
+                this.context.lineTo(position.x + i, position.y + i);
+                this.context.stroke();
             }
+
+            this._lastPosition.copy(position);
         }
 
         constructor(public radius: number,
                     public color: string) {
+            super();
         }
     }
 
-    export class InkDropBrush implements Brush {
-        private _canvasContext: CanvasRenderingContext2D = null;
+    export class InkDropBrush extends CanvasBrush implements Brush {
         private _lastPosition = new THREE.Vector2();
 
         drawDrop(position: THREE.Vector2) {
-            this._canvasContext.beginPath();
-            this._canvasContext.globalAlpha = Math.random();
-            this._canvasContext.arc(
+            this.context.beginPath();
+            this.context.globalAlpha = Math.random() * this.flow;
+            this.context.arc(
                 position.x, position.y,
                 getRandomInt(this.radius / 3, this.radius),
                 30, 270, false
             );
-            this._canvasContext.fill();
+            this.context.fill();
         }
 
-        startStroke(canvas: HTMLCanvasElement, position: THREE.Vector2) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
-
-            this._canvasContext.fillStyle = this.color;
-            this._canvasContext.lineJoin = this._canvasContext.lineCap = 'round';
+        beginStroke(position: THREE.Vector2) {
+            this.context.fillStyle = this.color;
+            this.context.lineJoin = this.context.lineCap = 'round';
             this._lastPosition.copy(position);
             this.drawDrop(position);
         }
 
-        continueStoke(position: THREE.Vector2) {
-            if (this._canvasContext && position.distanceTo(this._lastPosition) > this.radius * 2 / 3) {
+        paint(position: THREE.Vector2) {
+            if (position.distanceTo(this._lastPosition) > this.radius * 2 / 3) {
                 this._lastPosition.copy(position);
                 this.drawDrop(position);
             }
         }
 
-        finishStroke() {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
-            }
-        }
-
         constructor(public radius: number,
                     public color: string) {
+            super();
         }
     }
 
-    export class StarBrush implements Brush {
-        private _canvasContext: CanvasRenderingContext2D = null;
+    export class StarBrush extends CanvasBrush implements Brush {
         private _lastPosition: THREE.Vector2 = new THREE.Vector2();
 
         drawStar(position: THREE.Vector2, angle: number) {
             var length = this.radius / 2;
             var x = position.x, y = position.y;
-            this._canvasContext.save();
-            this._canvasContext.translate(x, y);
-            this._canvasContext.beginPath();
-            this._canvasContext.rotate(Math.PI / 180 * angle);
+            this.context.save();
+            this.context.translate(x, y);
+            this.context.beginPath();
+            this.context.rotate(Math.PI / 180 * angle);
             for (var i = 5; i--;) {
-                this._canvasContext.lineTo(0, length);
-                this._canvasContext.translate(0, length);
-                this._canvasContext.rotate((Math.PI * 2 / 10));
-                this._canvasContext.lineTo(0, -length);
-                this._canvasContext.translate(0, -length);
-                this._canvasContext.rotate(-(Math.PI * 6 / 10));
+                this.context.lineTo(0, length);
+                this.context.translate(0, length);
+                this.context.rotate((Math.PI * 2 / 10));
+                this.context.lineTo(0, -length);
+                this.context.translate(0, -length);
+                this.context.rotate(-(Math.PI * 6 / 10));
             }
-            this._canvasContext.lineTo(0, length);
-            this._canvasContext.closePath();
-            this._canvasContext.stroke();
-            this._canvasContext.restore();
+            this.context.lineTo(0, length);
+            this.context.closePath();
+            this.context.stroke();
+            this.context.restore();
         }
 
-        startStroke(canvas: HTMLCanvasElement, position: THREE.Vector2) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.save();
-            this._canvasContext.strokeStyle = this.color;
-            this._canvasContext.lineJoin = this._canvasContext.lineCap = 'round';
+        beginStroke(position: THREE.Vector2) {
+            this.context.strokeStyle = this.color;
+            this.context.lineJoin = this.context.lineCap = 'round';
             this.drawStar(position, getRandomInt(0, 180));
             this._lastPosition.copy(position);
         }
 
-        continueStoke(position: THREE.Vector2) {
-            if (this._canvasContext && this._lastPosition.distanceTo(position) > this.radius) {
+        paint(position: THREE.Vector2) {
+            if (this._lastPosition.distanceTo(position) > this.radius) {
                 this.drawStar(position, getRandomInt(0, 180));
                 this._lastPosition.copy(position);
             }
         }
 
-        finishStroke() {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
-            }
-        }
-
         constructor(public radius: number,
                     public color: string) {
+            super();
         }
     }
 
-    export class RandomStarBrush implements Brush {
-        private _canvasContext: CanvasRenderingContext2D = null;
+    export class RandomStarBrush extends CanvasBrush implements Brush {
         private _lastPosition: THREE.Vector2 = new THREE.Vector2();
 
         drawStar(position: THREE.Vector2) {
@@ -350,127 +484,129 @@ module Chameleon {
                 color = ('rgb(' + getRandomInt(0, 255) + ',' + getRandomInt(0, 255) + ',' + getRandomInt(0, 255) + ')'),
                 length = this.radius / 3.5;
 
-            this._canvasContext.save();
-            this._canvasContext.translate(position.x, position.y);
-            this._canvasContext.beginPath();
-            this._canvasContext.globalAlpha = opacity;
-            this._canvasContext.rotate(Math.PI / 180 * angle);
-            this._canvasContext.scale(scale, scale);
-            this._canvasContext.strokeStyle = color;
-            this._canvasContext.lineWidth = width;
+            this.context.save();
+            this.context.translate(position.x, position.y);
+            this.context.beginPath();
+            this.context.globalAlpha = opacity * this.flow;
+            this.context.rotate(Math.PI / 180 * angle);
+            this.context.scale(scale, scale);
+            this.context.strokeStyle = color;
+            this.context.lineWidth = width;
             for (var i = 5; i--;) {
-                this._canvasContext.lineTo(0, length);
-                this._canvasContext.translate(0, length);
-                this._canvasContext.rotate((Math.PI * 2 / 10));
-                this._canvasContext.lineTo(0, -length);
-                this._canvasContext.translate(0, -length);
-                this._canvasContext.rotate(-(Math.PI * 6 / 10));
+                this.context.lineTo(0, length);
+                this.context.translate(0, length);
+                this.context.rotate((Math.PI * 2 / 10));
+                this.context.lineTo(0, -length);
+                this.context.translate(0, -length);
+                this.context.rotate(-(Math.PI * 6 / 10));
             }
-            this._canvasContext.lineTo(0, length);
-            this._canvasContext.closePath();
-            this._canvasContext.stroke();
-            this._canvasContext.restore();
+            this.context.lineTo(0, length);
+            this.context.closePath();
+            this.context.stroke();
+            this.context.restore();
         }
 
-        startStroke(canvas: HTMLCanvasElement, position: THREE.Vector2) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.save();
+        beginStroke(position: THREE.Vector2) {
             this._lastPosition.copy(position);
             this.drawStar(position);
         }
 
-        continueStoke(position: THREE.Vector2) {
-            if (this._canvasContext && position.distanceTo(this._lastPosition) > this.radius * 2 / 3) {
+        paint(position: THREE.Vector2) {
+            if (position.distanceTo(this._lastPosition) > this.radius * 2 / 3) {
                 this._lastPosition.copy(position);
                 this.drawStar(position);
             }
         }
 
-        finishStroke() {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
-            }
-        }
-
         constructor(public radius: number) {
+            super();
         }
     }
 
-    export class SprayBrush implements Brush {
-        private _canvasContext: CanvasRenderingContext2D = null;
+    export class SprayBrush extends CanvasBrush implements Brush {
         private _density = 70;
 
-        startStroke(canvas: HTMLCanvasElement, position: THREE.Vector2) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.beginPath();
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
-
-            this._canvasContext.fillStyle = this.color;
-        }
-
-        continueStoke(position: THREE.Vector2) {
-            if (this._canvasContext) {
-                for (var i = this._density; i--;) {
-                    var dotRadius = getRandomFloat(0, this.radius);
-                    var angle = getRandomFloat(0, Math.PI * 2);
-                    var dotWidth = getRandomFloat(1, 2);
-                    this._canvasContext.globalAlpha = Math.random();
-                    this._canvasContext.fillRect(
-                        position.x + dotRadius * Math.cos(angle),
-                        position.y + dotRadius * Math.sin(angle),
-                        dotWidth, dotWidth
-                    );
-                }
-            }
-        }
-
-        finishStroke() {
-            if (this._canvasContext) {
-                this._canvasContext.restore();
-                this._canvasContext = null;
+        beginStroke(position: THREE.Vector2) {
+            this.context.beginPath();
+            this.context.fillStyle = this.color;
+        }
+
+        paint(position: THREE.Vector2, sample?: StrokeSample) {
+            for (var i = Math.max(1, Math.round(this._density * pressureOf(sample))); i--;) {
+                var dotRadius = getRandomFloat(0, this.radius);
+                var angle = getRandomFloat(0, Math.PI * 2);
+                var dotWidth = getRandomFloat(1, 2);
+                this.context.globalAlpha = Math.random() * this.flow;
+                this.context.fillRect(
+                    position.x + dotRadius * Math.cos(angle),
+                    position.y + dotRadius * Math.sin(angle),
+                    dotWidth, dotWidth
+                );
             }
         }
 
         constructor(public radius: number,
                     public color: string) {
+            super();
         }
     }
 
-    export class TextureBrush implements Brush {
-        private _canvasContext: CanvasRenderingContext2D = null;
+    export class TextureBrush extends CanvasBrush implements Brush {
+        private _lastPosition = new THREE.Vector2();
 
-        startStroke(canvas: HTMLCanvasElement, position: THREE.Vector2) {
-            this._canvasContext = canvas.getContext('2d');
-            this._canvasContext.beginPath();
-            this._canvasContext.save(); // Assumption: nobody else will call this until the stroke is finished
+        beginStroke(position: THREE.Vector2, sample?: StrokeSample) {
+            this.context.lineJoin = this.context.lineCap = 'round';
+            this.context.strokeStyle = this.context.createPattern(this.texture, 'repeat');
+            this._lastPosition.copy(position);
+        }
+
+        paint(position: THREE.Vector2, sample?: StrokeSample) {
+            // Stroke segment by segment, so that the line width can follow the pen pressure
+            this.context.lineWidth = this.radius * 2 * pressureOf(sample);
+            this.context.beginPath();
+            this.context.moveTo(this._lastPosition.x, this._lastPosition.y);
+            this.context.lineTo(position.x, position.y);
+            this.context.stroke();
 
-            this._canvasContext.lineWidth = this.radius * 2;
-            this._canvasContext.lineJoin = this._canvasContext.lineCap = 'round';
-            this._canvasContext.strokeStyle = this._canvasContext.createPattern(this.texture, 'repeat');
-            this._canvasContext.moveTo(position.x, position.y);
+            this._lastPosition.copy(position);
         }
 
-        continueStoke(position: THREE.Vector2) {
-            if (this._canvasContext) {
-                this._canvasContext.lineTo(position.x, position.y);
-                this._canvasContext.moveTo(position.x, position.y);
-                this._canvasContext.stroke();
-            }
+        constructor(public radius: number,
+                    public texture: HTMLCanvasElement) {
+            super();
         }
+    }
 
-        finishStroke() {
-            if (this._canvasContext) {
-                this._canvasContext.moveTo(0, 0);
-                this._canvasContext.restore();
-                this._canvasContext = null;
-            }
+    /**
+     * Strokes like MarkerBrush, but paints with the pixels of a source image that lie under the stroke,
+     * such as a photo aligned with the model on the screen
+     */
+    export class CloneBrush extends CanvasBrush implements Brush {
+        sourceOffset = new THREE.Vector2(); // Where the top-left corner of the source is on the canvas
+        private _lastPosition = new THREE.Vector2();
+
+        beginStroke(position: THREE.Vector2, sample?: StrokeSample) {
+            // A pattern starts at the origin of the context, so the context is moved to the source
+            this.context.translate(this.sourceOffset.x, this.sourceOffset.y);
+            this.context.lineJoin = this.context.lineCap = 'round';
+            this.context.strokeStyle = this.source ?
+                this.context.createPattern(this.source, 'no-repeat') : 'transparent';
+            this._lastPosition.subVectors(position, this.sourceOffset);
+        }
+
+        paint(position: THREE.Vector2, sample?: StrokeSample) {
+            this.context.lineWidth = this.radius * 2 * pressureOf(sample);
+            this.context.beginPath();
+            this.context.moveTo(this._lastPosition.x, this._lastPosition.y);
+            this._lastPosition.subVectors(position, this.sourceOffset);
+            this.context.lineTo(this._lastPosition.x, this._lastPosition.y);
+            this.context.stroke();
         }
 
         constructor(public radius: number,
-                    public texture: HTMLCanvasElement) {
+                    public source: HTMLCanvasElement = null) {
+            super();
         }
     }
 
 }
-
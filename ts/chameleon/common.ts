@@ -8,6 +8,26 @@ module Chameleon {
         height: number;
     }
 
+    /**
+     * Input data accompanying each position of a stroke
+     */
+    export interface StrokeSample {
+        pressure: number; // In [0, 1]. Always 1 for input devices that are not pressure-sensitive
+        tiltX: number; // In degrees, [-90, 90]
+        tiltY: number; // In degrees, [-90, 90]
+        timeStamp: number;
+    }
+
+    export function strokeSampleFromPointerEvent(event: PointerEvent): StrokeSample {
+        return {
+            // Mice and touch screens report a constant pressure, which should not shrink the brush
+            pressure: event.pointerType === 'pen' ? event.pressure : 1,
+            tiltX: event.tiltX || 0,
+            tiltY: event.tiltY || 0,
+            timeStamp: event.timeStamp
+        };
+    }
+
     export function mousePositionInCanvas(event: MouseEvent, canvasBox: Box) {
         return new THREE.Vector2(
             event.pageX - canvasBox.left,
@@ -29,8 +49,58 @@ module Chameleon {
         return Math.random() * (max - min) + min;
     }
 
-    export function angleBetween(point1: THREE.Vector2, point2: THREE.Vector2) {
-        return Math.atan2(point2.x - point1.x, point2.y - point1.y);
+    /**
+     * Draws the triangle of the image at source onto the triangle at target, stretching it with an affine transform.
+     * Both triangles are given in pixels as [x0, y0, x1, y1, x2, y2]. The target triangle is grown by about a pixel,
+     * so that no seams show between neighbouring triangles.
+     */
+    export function drawTriangle(context: CanvasRenderingContext2D,
+                                 image: HTMLCanvasElement,
+                                 source: number[],
+                                 target: number[]) {
+        var centerX = (target[0] + target[2] + target[4]) / 3,
+            centerY = (target[1] + target[3] + target[5]) / 3;
+
+        context.save();
+        context.beginPath();
+        for (var i = 0; i < 3; i += 1) {
+            var dx = target[i * 2] - centerX, dy = target[i * 2 + 1] - centerY;
+            var length = Math.sqrt(dx * dx + dy * dy) || 1;
+            context.lineTo(target[i * 2] + dx / length, target[i * 2 + 1] + dy / length);
+        }
+        context.closePath();
+        context.clip();
+
+        var u1x = source[2] - source[0], u1y = source[3] - source[1],
+            u2x = source[4] - source[0], u2y = source[5] - source[1],
+            v1x = target[2] - target[0], v1y = target[3] - target[1],
+            v2x = target[4] - target[0], v2y = target[5] - target[1];
+        var det = u1x * u2y - u2x * u1y;
+
+        if (Math.abs(det) < 1e-6) {
+            // The source triangle is a single point (e.g. a patch of one pixel), so fill the target with that pixel
+            var x = Math.min(Math.max(Math.floor(source[0]), 0), image.width - 1),
+                y = Math.min(Math.max(Math.floor(source[1]), 0), image.height - 1);
+            var minX = Math.min(target[0], target[2], target[4]) - 2,
+                minY = Math.min(target[1], target[3], target[5]) - 2,
+                maxX = Math.max(target[0], target[2], target[4]) + 2,
+                maxY = Math.max(target[1], target[3], target[5]) + 2;
+            context.drawImage(image, x, y, 1, 1, minX, minY, maxX - minX, maxY - minY);
+        } else {
+            // The linear part maps the source edges onto the target edges
+            var a = (v1x * u2y - v2x * u1y) / det,
+                b = (v1y * u2y - v2y * u1y) / det,
+                c = (v2x * u1x - v1x * u2x) / det,
+                d = (v2y * u1x - v1y * u2x) / det;
+            context.transform(
+                a, b, c, d,
+                target[0] - a * source[0] - c * source[1],
+                target[1] - b * source[0] - d * source[1]
+            );
+            context.drawImage(image, 0, 0);
+        }
+
+        context.restore();
     }
 
 }
\ No newline at end of file
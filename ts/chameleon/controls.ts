@@ -1,13 +1,37 @@
 /// <reference path="../jszip.d.ts" />
-/// <reference path="../three-objloaderexporter.d.ts" />
 /// <reference path="./common.ts" />
 /// <reference path="./camera-controls.ts" />
 /// <reference path="./texture-manager.ts" />
 /// <reference path="./brushes.ts" />
+/// <reference path="./stroke-stabilizer.ts" />
+/// <reference path="./symmetry.ts" />
+/// <reference path="./image-overlay.ts" />
+/// <reference path="./project.ts" />
+/// <reference path="./gltf-exporter.ts" />
+/// <reference path="./obj-exporter.ts" />
+/// <reference path="./texture-export.ts" />
 
 module Chameleon {
     enum ControlsState {
-        Idle, Draw, View
+        Idle, Draw, View, MoveOverlay, PickColor
+    }
+
+    export interface ControlsOptions {
+        /**
+         * Called with the fraction of work done while the model is being prepared for painting.
+         * Painting is disabled until this reaches 1.
+         */
+        onProgress?: (progress: number) => any;
+
+        /**
+         * Image to start painting over, mapped by the UVs of the geometry, such as the diffuse map of a textured model
+         */
+        texture?: HTMLImageElement | HTMLCanvasElement;
+
+        /**
+         * Names of the objects and groups that the faces of the geometry came from, which exported models keep
+         */
+        faceGroups?: FaceGroup[];
     }
 
     export class Controls {
@@ -15,6 +39,7 @@ module Chameleon {
         private _state: ControlsState = ControlsState.Idle;
 
         geometry: THREE.Geometry;
+        faceGroups: FaceGroup[];
         private _mesh: THREE.Mesh = new THREE.Mesh();
         canvas: HTMLCanvasElement;
 
@@ -46,9 +71,23 @@ module Chameleon {
             }
 
             this._perspectiveView = value;
-            if (value) {
-                this._textureManager.useViewingTexture();
-            }
+            this._textureManager.camera = value ? this._perspectiveCamera : this._orthographicCamera;
+        }
+
+        get creaseAngle(): number {
+            return this._textureManager.creaseAngle;
+        }
+
+        set creaseAngle(value: number) {
+            this._textureManager.creaseAngle = value;
+        }
+
+        get stayOnSurface(): boolean {
+            return this._textureManager.stayOnSurface;
+        }
+
+        set stayOnSurface(value: boolean) {
+            this._textureManager.stayOnSurface = value;
         }
 
         get backgroundColor(): string {
@@ -89,6 +128,51 @@ module Chameleon {
 
         brush: Brush = new Pencil();
 
+        /**
+         * Smooths strokes between the pointer and the brush
+         */
+        stabilizer = new StrokeStabilizer();
+
+        /**
+         * Transforms that map the model onto itself, such as those of mirrorSymmetry and radialSymmetry.
+         * Every stroke is painted again through each of them.
+         */
+        symmetry: THREE.Matrix4[] = [];
+
+        private _strokeScreenPoints: StrokePoint[] = []; // Of the stroke being painted, on the screen canvas
+
+        /**
+         * When set, clicking on the model fills a region of it instead of painting a stroke
+         */
+        bucketFill: FillOptions = null;
+
+        /**
+         * An image waiting to be painted onto the model by commitDecal. While it is shown, dragging moves it and
+         * the mouse wheel scales it.
+         */
+        decal: ImageOverlay = null;
+
+        /**
+         * A photo laid over the screen, which CloneBrush and projectReference paint from
+         */
+        reference: ImageOverlay = null;
+
+        /**
+         * While set, dragging and the mouse wheel move and scale the reference instead of painting
+         */
+        alignReference: boolean = false;
+
+        private _overlayDragStart: THREE.Vector2 = null; // Pointer position minus overlay position
+
+        /**
+         * Called with the color picked from the model by Alt+click, after it has been given to the brush
+         */
+        onColorPicked: (color: string) => any = null;
+
+        // The overlay that the pointer moves, if any. The decal goes first, as it hides the reference.
+        private get _movableOverlay(): ImageOverlay {
+            return this.decal || (this.alignReference ? this.reference : null);
+        }
 
         private _textureManager: TextureManager;
 
@@ -112,38 +196,182 @@ module Chameleon {
                 this._renderer.render(this._scene, this._orthographicCamera);
             }
 
-            this.canvas.getContext('2d').drawImage(this._renderer.domElement, 0, 0);
+            var context = this.canvas.getContext('2d');
+            context.drawImage(this._renderer.domElement, 0, 0);
+            [this.reference, this.decal].forEach((overlay) => {
+                if (overlay) {
+                    context.save();
+                    // The screen canvas may have more pixels than canvasBox, such as on Retina displays
+                    context.scale(this.canvas.width / this.canvasBox.width, this.canvas.height / this.canvasBox.height);
+                    context.globalAlpha = overlay.opacity;
+                    overlay.draw(context);
+                    context.restore();
+                }
+            });
+        }
+
+        /**
+         * Shows an image as the decal, in the middle of the screen and small enough to fit in half of it
+         */
+        placeDecal(image: HTMLImageElement | HTMLCanvasElement): ImageOverlay {
+            var center = new THREE.Vector2(this.canvasBox.width / 2, this.canvasBox.height / 2);
+            this.decal = new ImageOverlay(image, center);
+            this.decal.scale = Math.min(
+                this.canvasBox.width / 2 / image.width, this.canvasBox.height / 2 / image.height, 1
+            );
+            this.update();
+            return this.decal;
+        }
+
+        /**
+         * Shows a photo as the reference, in the middle of the screen and fitted to it
+         */
+        placeReference(image: HTMLImageElement | HTMLCanvasElement): ImageOverlay {
+            var center = new THREE.Vector2(this.canvasBox.width / 2, this.canvasBox.height / 2);
+            this.reference = new ImageOverlay(image, center);
+            this.reference.scale = Math.min(this.canvasBox.width / image.width, this.canvasBox.height / image.height);
+            this.update();
+            return this.reference;
+        }
+
+        /**
+         * Paints the decal onto the faces under it, through the current camera, as a single step of the history
+         *
+         * @param maxAngle faces turned further than this away from the camera are left out, in degrees
+         * @returns the number of faces painted
+         */
+        commitDecal(maxAngle: number = 90): number {
+            if (!this.decal || this._state !== ControlsState.Idle ||
+                !this._textureManager.isReady || !this._textureManager.canPaint) {
+                return 0;
+            }
+
+            var image = <HTMLCanvasElement>document.createElement('canvas');
+            image.width = this.canvasBox.width;
+            image.height = this.canvasBox.height;
+            this.decal.draw(image.getContext('2d'));
+            var nFaces = this._textureManager.projectImage(image, {opacity: this.decal.opacity, maxAngle: maxAngle});
+
+            this.decal = null;
+            this.update();
+            return nFaces;
         }
 
-        private _mousedown = (event: MouseEvent) => {
+        /**
+         * Paints the reference onto every face that it covers and that can be seen, as a single step of the history
+         *
+         * @param maxAngle faces turned further than this away from the camera are left out, in degrees
+         * @returns the number of faces painted
+         */
+        projectReference(maxAngle: number = 90): number {
+            if (!this.reference || this._state !== ControlsState.Idle ||
+                !this._textureManager.isReady || !this._textureManager.canPaint) {
+                return 0;
+            }
+
+            var nFaces = this._textureManager.projectImage(this._referenceImage(), {maxAngle: maxAngle});
+            this.update();
+            return nFaces;
+        }
+
+        // The reference as it is laid over the screen, fully opaque
+        private _referenceImage(): HTMLCanvasElement {
+            var image = <HTMLCanvasElement>document.createElement('canvas');
+            image.width = this.canvasBox.width;
+            image.height = this.canvasBox.height;
+            if (this.reference) {
+                this.reference.draw(image.getContext('2d'));
+            }
+            return image;
+        }
+
+        cancelDecal() {
+            this.decal = null;
+            this.update();
+        }
+
+        // Only the pointer that started the current interaction is followed, so a second finger does not interfere
+        private _pointerId: number = null;
+
+        private _pointerdown = (event: PointerEvent) => {
             event.preventDefault();
             event.stopPropagation();
 
-            if (this._state !== ControlsState.Idle) {
+            if (this._state !== ControlsState.Idle || !event.isPrimary) {
+                return;
+            }
+
+            this._pointerId = event.pointerId;
+
+            var overlay = this._movableOverlay;
+            if (!event.shiftKey && overlay) {
+                var position = mousePositionInCanvas(event, this.canvasBox);
+                if (!overlay.contains(position)) {
+                    this._pointerId = null;
+                    return;
+                }
+                this._state = ControlsState.MoveOverlay;
+                this._overlayDragStart = position.sub(overlay.position);
+                document.addEventListener('pointermove', this._pointermove, false);
+                document.addEventListener('pointerup', this._pointerup, false);
+                document.addEventListener('pointercancel', this._pointerup, false);
                 return;
             }
 
+            if (!event.shiftKey && !event.altKey && this._textureManager.isReady && !this._textureManager.canPaint) {
+                return; // The active layer is hidden or locked
+            }
+
             // Hold shift key to rotate and pan
-            if (this.perspectiveView || event.shiftKey) {
+            if (event.shiftKey || !this._textureManager.isReady) {
                 this._state = ControlsState.View;
                 this._textureManager.useViewingTexture();
                 this._perspectiveCameraControls.onMouseDown(event);
                 this._orthographicCameraControls.onMouseDown(event);
+            } else if (event.altKey) {
+                // Hold Alt to pick a color from the model. The drawing texture is only used to find the face.
+                this._state = ControlsState.PickColor;
+                this._textureManager.useDrawingTexture();
+                this._showPickedColor(mousePositionInCanvas(event, this.canvasBox));
+            } else if (this.bucketFill) {
+                this._textureManager.useDrawingTexture();
+                var faceIndex = this._textureManager.faceIndexAt(
+                    this._textureManager.toDrawingPosition(mousePositionInCanvas(event, this.canvasBox))
+                );
+                if (faceIndex >= 0) {
+                    this._textureManager.fill(faceIndex, this.bucketFill);
+                }
+                this._textureManager.useViewingTexture();
+                this._pointerId = null;
+                return;
             } else {
                 this._state = ControlsState.Draw;
                 this._textureManager.useDrawingTexture();
 
-                var pos = mousePositionInCanvas(event, this.canvasBox);
-                this.brush.startStroke(this._textureManager.drawingCanvas, pos);
-                this._textureManager.onStrokePainted(pos, this.brush.radius, true);
+                if (this.brush instanceof EraserBrush) {
+                    // Only the bottom layer is opaque. Erasing the layers above it shows what is below.
+                    (<EraserBrush>this.brush).backgroundColor =
+                        (this._textureManager.activeLayerIndex === 0) ? this.backgroundColor : null;
+                }
+                if (this.brush instanceof CloneBrush) {
+                    (<CloneBrush>this.brush).source = this._referenceImage();
+                }
+
+                var point = {
+                    position: mousePositionInCanvas(event, this.canvasBox),
+                    sample: strokeSampleFromPointerEvent(event)
+                };
+                this._strokeScreenPoints = [point];
+                this._startStroke(point.position, point.sample);
             }
 
-            document.addEventListener('mousemove', this._mousemove, false);
-            document.addEventListener('mouseup', this._mouseup, false);
+            document.addEventListener('pointermove', this._pointermove, false);
+            document.addEventListener('pointerup', this._pointerup, false);
+            document.addEventListener('pointercancel', this._pointerup, false);
         };
 
-        private _mousemove = (event: MouseEvent) => {
-            if (this._state === ControlsState.Idle) {
+        private _pointermove = (event: PointerEvent) => {
+            if (this._state === ControlsState.Idle || event.pointerId !== this._pointerId) {
                 return;
             }
 
@@ -156,34 +384,173 @@ module Chameleon {
                     this._orthographicCameraControls.onMouseMove(event);
                     break;
                 case ControlsState.Draw:
-                    var pos = mousePositionInCanvas(event, this.canvasBox);
-                    this.brush.continueStoke(pos);
-                    this._textureManager.onStrokePainted(pos, this.brush.radius, false);
+                    var point = {
+                        position: mousePositionInCanvas(event, this.canvasBox),
+                        sample: strokeSampleFromPointerEvent(event)
+                    };
+                    this._strokeScreenPoints.push(point);
+                    this._addToStroke(point.position, point.sample);
+                    break;
+                case ControlsState.PickColor:
+                    this._showPickedColor(mousePositionInCanvas(event, this.canvasBox));
+                    break;
+                case ControlsState.MoveOverlay:
+                    var position = mousePositionInCanvas(event, this.canvasBox);
+                    this._movableOverlay.position = position.sub(this._overlayDragStart);
+                    this.update();
                     break;
                 default:
                     debugger;
             }
         };
 
-        private _mouseup = (event: MouseEvent) => {
+        private _startStroke(screenPos: THREE.Vector2, sample: StrokeSample) {
+            var pos = this._textureManager.toDrawingPosition(screenPos);
+            if (this.brush instanceof CloneBrush) {
+                // The source is laid over the screen, which moves on the drawing canvas with the camera
+                (<CloneBrush>this.brush).sourceOffset = this._textureManager.toDrawingPosition(new THREE.Vector2());
+            }
+            this.stabilizer.start(pos, sample);
+            this.brush.startStroke(this._textureManager.drawingCanvas, pos, sample);
+            this._textureManager.onStrokePainted(pos, this.brush.paintedRadius(), true);
+        }
+
+        private _addToStroke(screenPos: THREE.Vector2, sample: StrokeSample) {
+            this._continueStroke(this.stabilizer.add(this._textureManager.toDrawingPosition(screenPos), sample));
+        }
+
+        private _finishStroke() {
+            this._continueStroke(this.stabilizer.finish());
+            this.brush.finishStroke();
+        }
+
+        // Every point is tracked on the model, so that the faces along the whole path of the brush are painted
+        private _continueStroke(points: StrokePoint[]) {
+            points.forEach((point) => {
+                this.brush.continueStoke(point.position, point.sample);
+                this._textureManager.onStrokePainted(point.position, this.brush.paintedRadius(), false);
+            });
+        }
+
+        // Shows a swatch of the color under the pointer next to it
+        private _showPickedColor(screenPos: THREE.Vector2) {
+            var color = this._textureManager.colorAt(this._textureManager.toDrawingPosition(screenPos));
+            this.update();
+            if (!color) {
+                return;
+            }
+
+            var context = this.canvas.getContext('2d');
+            context.save();
+            context.scale(this.canvas.width / this.canvasBox.width, this.canvas.height / this.canvasBox.height);
+            context.beginPath();
+            context.arc(screenPos.x + 24, screenPos.y - 24, 16, 0, Math.PI * 2);
+            context.fillStyle = color;
+            context.fill();
+            context.lineWidth = 2;
+            context.strokeStyle = '#FFFFFF';
+            context.stroke();
+            context.restore();
+        }
+
+        /**
+         * Paints the stroke that was just committed again through each transform of the symmetry. The camera is moved
+         * by the transform as well, so the copy lands on the faces that the camera would see there, even where they
+         * face away from the actual camera.
+         */
+        private _paintSymmetricStrokes() {
+            var camera = this._textureManager.camera;
+            this.symmetry.forEach((transform) => {
+                var symmetricCamera = camera.clone();
+                var matrix = new THREE.Matrix4().multiplyMatrices(transform, camera.matrixWorld);
+                var isMirrored = transform.determinant() < 0;
+                if (isMirrored) {
+                    // A camera cannot be mirrored, so it is flipped across its own x axis too, which mirrors the screen
+                    matrix.multiply(new THREE.Matrix4().makeScale(-1, 1, 1));
+                    if (symmetricCamera instanceof THREE.OrthographicCamera) {
+                        var orthographicCamera = <THREE.OrthographicCamera>symmetricCamera;
+                        var left = orthographicCamera.left;
+                        orthographicCamera.left = -orthographicCamera.right;
+                        orthographicCamera.right = -left;
+                        orthographicCamera.updateProjectionMatrix();
+                    }
+                }
+                matrix.decompose(symmetricCamera.position, symmetricCamera.quaternion, symmetricCamera.scale);
+                symmetricCamera.updateMatrixWorld(true);
+                symmetricCamera.matrixWorldInverse.getInverse(symmetricCamera.matrixWorld);
+
+                this._textureManager.camera = symmetricCamera;
+                this._textureManager.useDrawingTexture();
+                this._strokeScreenPoints.forEach((point, i) => {
+                    var screenPos = isMirrored ?
+                        new THREE.Vector2(this.canvasBox.width - point.position.x, point.position.y) : point.position;
+                    if (i === 0) {
+                        this._startStroke(screenPos, point.sample);
+                    } else {
+                        this._addToStroke(screenPos, point.sample);
+                    }
+                });
+                this._finishStroke();
+                this._textureManager.useViewingTexture();
+            });
+            this._textureManager.camera = camera;
+        }
+
+        private _pointerup = (event: PointerEvent) => {
+            if (event.pointerId !== this._pointerId) {
+                return;
+            }
+
             event.preventDefault();
             event.stopPropagation();
 
-            this.brush.finishStroke();
+            if (this._state === ControlsState.Draw) {
+                this._finishStroke();
+                // Commit the stroke to the viewing texture, so that each stroke can be undone on its own,
+                // together with its symmetric copies
+                this._textureManager.beginEditGroup();
+                this._textureManager.useViewingTexture();
+                this._paintSymmetricStrokes();
+                this._textureManager.endEditGroup();
+                this._strokeScreenPoints = [];
+            } else if (this._state === ControlsState.PickColor) {
+                var color = this._textureManager.colorAt(
+                    this._textureManager.toDrawingPosition(mousePositionInCanvas(event, this.canvasBox))
+                );
+                this._textureManager.useViewingTexture();
+                if (color) {
+                    if ('color' in this.brush) {
+                        this.brush.color = color;
+                    }
+                    if (this.onColorPicked) {
+                        this.onColorPicked(color);
+                    }
+                }
+            }
             this.update();
             this._perspectiveCameraControls.onMouseUp(event);
             this._orthographicCameraControls.onMouseUp(event);
             this._state = ControlsState.Idle;
+            this._pointerId = null;
 
-            document.removeEventListener('mousemove', this._mousemove);
-            document.removeEventListener('mouseup', this._mouseup);
+            document.removeEventListener('pointermove', this._pointermove);
+            document.removeEventListener('pointerup', this._pointerup);
+            document.removeEventListener('pointercancel', this._pointerup);
         };
 
         private _mousewheel = (event: MouseWheelEvent) => {
             event.preventDefault();
             event.stopPropagation();
 
-            if (this._state === ControlsState.Draw || !this.perspectiveView && !event.shiftKey) {
+            if (this._state === ControlsState.Idle && this._movableOverlay && !event.shiftKey) {
+                var delta = event.wheelDelta ? event.wheelDelta / 120 : -event.detail / 3;
+                this._movableOverlay.scale *= Math.pow(1.1, delta);
+                this.update();
+                return;
+            }
+
+            if (this._state !== ControlsState.Idle && this._state !== ControlsState.View ||
+                !this.perspectiveView && !event.shiftKey) {
                 return;
             }
 
@@ -192,6 +559,85 @@ module Chameleon {
             this._orthographicCameraControls.onMouseWheel(event);
         };
 
+        private _keydown = (event: KeyboardEvent) => {
+            // Ctrl+Z to undo, Ctrl+Shift+Z to redo (Cmd instead of Ctrl on Mac)
+            if (!(event.ctrlKey || event.metaKey) || event.keyCode !== 90) {
+                return;
+            }
+
+            // Text fields, such as those of the GUI, undo their own edits
+            var target = <HTMLElement>event.target;
+            if (target && (/^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName) || target.isContentEditable)) {
+                return;
+            }
+
+            event.preventDefault();
+            if (event.shiftKey) {
+                this.redo();
+            } else {
+                this.undo();
+            }
+        };
+
+        get canUndo(): boolean {
+            return this._textureManager.canUndo;
+        }
+
+        get canRedo(): boolean {
+            return this._textureManager.canRedo;
+        }
+
+        undo(): boolean {
+            if (this._state !== ControlsState.Idle) {
+                return false;
+            }
+
+            return this._textureManager.undo();
+        }
+
+        redo(): boolean {
+            if (this._state !== ControlsState.Idle) {
+                return false;
+            }
+
+            return this._textureManager.redo();
+        }
+
+        clearHistory() {
+            this._textureManager.clearHistory();
+        }
+
+        /**
+         * The paint layers, from bottom to top. Use the methods below to change them.
+         */
+        get layers(): PaintLayer[] {
+            return this._textureManager.layers;
+        }
+
+        get activeLayerIndex(): number {
+            return this._textureManager.activeLayerIndex;
+        }
+
+        set activeLayerIndex(value: number) {
+            this._textureManager.activeLayerIndex = value;
+        }
+
+        addLayer(name?: string): number {
+            return this._textureManager.addLayer(name);
+        }
+
+        removeLayer(index: number): boolean {
+            return this._textureManager.removeLayer(index);
+        }
+
+        moveLayer(index: number, newIndex: number) {
+            this._textureManager.moveLayer(index, newIndex);
+        }
+
+        updateLayer(index: number, properties: LayerProperties) {
+            this._textureManager.updateLayer(index, properties);
+        }
+
         private _boundingBallRadius: number;
 
         private static _computeBoundingBallRadius(geometry: THREE.Geometry): number {
@@ -256,30 +702,230 @@ module Chameleon {
             this._textureManager.useViewingTexture();
         }
 
-        packTexture(): HTMLCanvasElement {
+        /**
+         * @param separateLayers export one image per layer, instead of a single image with the layers composited
+         */
+        packTexture(separateLayers: boolean = false, options: TextureExportOptions = {}): Blob {
+            var size = this._packForExport(options);
+
+            return this._zipTexturedModel(
+                this._textureManager.packedTextureUvs,
+                separateLayers,
+                size,
+                options,
+                () => this._textureManager.packedTexture,
+                (layerIndex) => this._textureManager.packLayer(layerIndex)
+            );
+        }
+
+        /**
+         * Exports the model with the packed texture as a binary glTF 2.0 file (.glb)
+         */
+        exportGlb(options: TextureExportOptions = {}): Blob {
+            var size = this._packForExport(options);
+            var texture = finishExportTexture(this._textureManager.packedTexture, size, options, this.backgroundColor);
+
+            return exportGlb(
+                this.geometry, this._textureManager.packedTextureUvs, texture, options.format, options.quality
+            );
+        }
+
+        /**
+         * The fraction of the packed texture covered by patches, as of the last export that packed it
+         */
+        get packingEfficiency(): number {
+            return this._textureManager.packingEfficiency;
+        }
+
+        // Packs the texture with enough space between patches for the padding to remain once it is resampled,
+        // and returns the size of the exported texture
+        private _packForExport(options: TextureExportOptions): number {
+            var padding = options.padding || 0;
+            this._textureManager.packingPadding = padding;
             this._textureManager.usePackedTexture();
+            var size = exportTextureSize(this._textureManager.packedTexture.width, options);
+
+            // Wider gaps make the packed texture larger, and so shrink it more, which can take a few tries to settle
+            for (var nTries = 0; nTries < 4; nTries += 1) {
+                var scale = size / this._textureManager.packedTexture.width;
+                if (this._textureManager.packingPadding * scale >= padding) {
+                    break;
+                }
+
+                this._textureManager.packingPadding = Math.ceil(padding / scale);
+                this._textureManager.usePackedTexture();
+                size = exportTextureSize(this._textureManager.packedTexture.width, options);
+            }
 
+            return size;
+        }
+
+        /**
+         * Whether the model came with UVs, which bakeTexture can keep
+         */
+        get hasOriginalUvs(): boolean {
+            return this._textureManager.originalUvs !== null;
+        }
+
+        /**
+         * Like packTexture, but keeps the UVs that the model came with, and bakes the texture into their layout
+         */
+        bakeTexture(separateLayers: boolean = false, options: TextureExportOptions = {}): Blob {
+            this._textureManager.useViewingTexture();
+            var size = exportTextureSize(DEFAULT_BAKE_RESOLUTION, options);
+
+            return this._zipTexturedModel(
+                this._textureManager.originalUvs,
+                separateLayers,
+                size,
+                options,
+                () => this._textureManager.bakeToOriginalUvs(size, size),
+                (layerIndex) => this._textureManager.bakeToOriginalUvs(size, size, layerIndex)
+            );
+        }
+
+        // Zips the texture images together with the model and a material library that maps the texture onto it.
+        // With separate layers, the material shows the bottom layer.
+        private _zipTexturedModel(uvs: THREE.Vector2[][],
+                                  separateLayers: boolean,
+                                  size: number,
+                                  options: TextureExportOptions,
+                                  drawTexture: () => HTMLCanvasElement,
+                                  drawLayer: (layerIndex: number) => HTMLCanvasElement): Blob {
             var zip = new JSZip();
+            var format = options.format || 'png';
+            var extension = textureFileExtension(format);
+            var addTexture = (fileName: string, canvas: HTMLCanvasElement) => {
+                var texture = finishExportTexture(canvas, size, options, this.backgroundColor);
+                addCanvasToZip(zip, fileName, texture, format, options.quality);
+                textureFileNames.push(fileName);
+            };
+
+            var textureFileNames: string[] = [];
+            if (separateLayers) {
+                var layers = this._textureManager.layers;
+                for (var i = 0; i < layers.length; i += 1) {
+                    // Numbered from the bottom layer up
+                    addTexture('layer-' + (i + 1) + '-' + layers[i].name.replace(/[^\w-]+/g, '_') + extension, drawLayer(i));
+                }
+            } else {
+                addTexture('texture' + extension, drawTexture());
+            }
 
-            var textureDataUrl = this._textureManager.packedTexture.toDataURL();
-            zip.file('texture.png', textureDataUrl.substr(textureDataUrl.indexOf(',') + 1), {base64: true});
+            zip.file('model.obj', exportObj(this.geometry, uvs, this.faceGroups, 'model.mtl', 'texture'));
+            zip.file('model.mtl', exportMtl('texture', textureFileNames[0]));
 
-            var objData = new THREE.OBJExporter().parse(this.geometry);
-            zip.file('model.obj', objData);
+            return zip.generate({type: 'blob'});
+        }
+
+        /**
+         * Saves the model, its paint layers, the background color and the cameras in a zip file, which can be opened
+         * with Controls.openProject to continue painting
+         * @param settings anything else to store in the project, such as brush settings. It must be serializable as JSON.
+         */
+        saveProject(settings?: any): Blob {
+            var saved = this._textureManager.saveLayers();
+            var project: ProjectFile = {
+                version: PROJECT_FILE_VERSION,
+                geometry: saveGeometry(this.geometry, this._textureManager.originalUvs),
+                backgroundColor: this.backgroundColor,
+                layers: saved.layers,
+                activeLayerIndex: this._textureManager.activeLayerIndex,
+                nPatches: saved.patches.length,
+                perspectiveView: this.perspectiveView,
+                orthographicCamera: saveCamera(this._orthographicCamera, this._orthographicCameraControls.target),
+                perspectiveCamera: saveCamera(this._perspectiveCamera, this._perspectiveCameraControls.target),
+                faceGroups: this.faceGroups,
+                settings: (settings === undefined) ? null : settings
+            };
+
+            var zip = new JSZip();
+            zip.file('project.json', JSON.stringify(project));
+            saved.patches.forEach((patch, i) => addCanvasToZip(zip, projectPatchFileName(i), patch));
 
             return zip.generate({type: 'blob'});
         }
 
+        /**
+         * Opens a project saved by saveProject. Its images are decoded asynchronously.
+         * Check the data with projectFileError first, as this throws if it cannot be opened.
+         * @param onLoad called with the new instance, and the settings that were saved in the project
+         * @param onError called instead of onLoad with a message, if the images of the project cannot be decoded
+         */
+        static openProject(data: ArrayBuffer,
+                           canvas: HTMLCanvasElement,
+                           options: ControlsOptions,
+                           onLoad: (controls: Controls, settings: any) => any,
+                           onError: (message: string) => any) {
+            var error = projectFileError(data);
+            if (error) {
+                throw new Error(error);
+            }
+            var zip = new JSZip(data);
+            var project = <ProjectFile>JSON.parse(zip.file('project.json').asText());
+
+            var controlsOptions: ControlsOptions = {
+                onProgress: options.onProgress,
+                faceGroups: project.faceGroups || null
+            };
+            var controls = new Controls(restoreGeometry(project.geometry), canvas, controlsOptions);
+
+            var patchFileNames: string[] = [];
+            for (var i = 0; i < project.nPatches; i += 1) {
+                patchFileNames.push(projectPatchFileName(i));
+            }
+            loadCanvasesFromZip(zip, patchFileNames, (patches) => {
+                controls._textureManager.backgroundColor = project.backgroundColor;
+                controls._textureManager.loadLayers(project.layers, patches, project.activeLayerIndex);
+
+                restoreCamera(
+                    project.orthographicCamera, controls._orthographicCamera, controls._orthographicCameraControls.target
+                );
+                restoreCamera(
+                    project.perspectiveCamera, controls._perspectiveCamera, controls._perspectiveCameraControls.target
+                );
+                controls.perspectiveView = project.perspectiveView;
+
+                onLoad(controls, project.settings);
+            }, (message) => {
+                controls.dispose();
+                onError(message);
+            });
+        }
+
+        /**
+         * Gathers the texture patches that painting has piled up into a few large images, to save memory.
+         * This also happens automatically once there are many of them.
+         */
+        compact() {
+            this._textureManager.compact();
+        }
+
+        get isReady(): boolean {
+            return this._textureManager.isReady;
+        }
+
+        /**
+         * Stops listening to input and any background work. Call this before discarding the instance.
+         */
+        dispose() {
+            this.removeEventListeners();
+            this._textureManager.dispose();
+        }
+
         removeEventListeners() {
-            document.removeEventListener('mousedown', this._mousedown);
-            document.removeEventListener('mousewheel', this._mousewheel);
-            document.removeEventListener('DOMMouseScroll', this._mousewheel);
-            document.removeEventListener('mousemove', this._mousemove);
-            document.removeEventListener('mouseup', this._mouseup);
+            this.canvas.removeEventListener('pointerdown', this._pointerdown);
+            this.canvas.removeEventListener('mousewheel', this._mousewheel);
+            this.canvas.removeEventListener('DOMMouseScroll', this._mousewheel);
+            document.removeEventListener('pointermove', this._pointermove);
+            document.removeEventListener('pointerup', this._pointerup);
+            document.removeEventListener('pointercancel', this._pointerup);
+            document.removeEventListener('keydown', this._keydown);
         }
 
-        constructor(geometry: THREE.Geometry, canvas?: HTMLCanvasElement) {
+        constructor(geometry: THREE.Geometry, canvas?: HTMLCanvasElement, options: ControlsOptions = {}) {
             this.geometry = geometry.clone();
+            this.faceGroups = options.faceGroups || null;
             // Note that a crucial assumption is that this Mesh object will never be transformed (rotated, scaled, or translated)
             // This is crucial for both TextureManager and CameraControls to work properly
             this._mesh.geometry = this.geometry;
@@ -289,13 +935,18 @@ module Chameleon {
             }
             this.canvas = canvas;
             this.canvas.addEventListener('contextmenu', (e) => e.preventDefault(), false);
-            this.canvas.addEventListener('mousedown', this._mousedown, false);
+            // Let touch and pen input reach the pointer event handlers instead of scrolling the page
+            (<any>this.canvas.style).touchAction = 'none';
+            this.canvas.addEventListener('pointerdown', this._pointerdown, false);
             this.canvas.addEventListener('mousewheel', this._mousewheel, false);
             this.canvas.addEventListener('DOMMouseScroll', this._mousewheel, false); // firefox
+            document.addEventListener('keydown', this._keydown, false);
 
             this._initializeCamera();
 
-            this._textureManager = new TextureManager(this._mesh, this._renderer, this._orthographicCamera);
+            this._textureManager = new TextureManager(
+                this._mesh, this._renderer, this._orthographicCamera, options.onProgress, options.texture
+            );
 
             this.handleResize();
             this.update();
@@ -0,0 +1,157 @@
+/// <reference path="./common.ts" />
+/// <reference path="./texture-export.ts" />
+
+module Chameleon {
+
+    var GLB_MAGIC = 0x46546C67; // 'glTF'
+    var GLB_CHUNK_JSON = 0x4E4F534A; // 'JSON'
+    var GLB_CHUNK_BIN = 0x004E4942; // 'BIN'
+    var GL_FLOAT = 5126;
+    var GL_ARRAY_BUFFER = 34962;
+    var GL_LINEAR = 9729;
+    var GL_CLAMP_TO_EDGE = 33071;
+
+    function alignTo4(n: number): number {
+        return Math.ceil(n / 4) * 4;
+    }
+
+    function binaryStringToBytes(binary: string): Uint8Array {
+        var bytes = new Uint8Array(binary.length);
+        for (var i = 0; i < binary.length; i += 1) {
+            bytes[i] = binary.charCodeAt(i);
+        }
+        return bytes;
+    }
+
+    function canvasToBytes(canvas: HTMLCanvasElement, format: string, quality: number): Uint8Array {
+        var dataUrl = canvasToDataUrl(canvas, format, quality);
+        return binaryStringToBytes(atob(dataUrl.substr(dataUrl.indexOf(',') + 1)));
+    }
+
+    /**
+     * Writes a binary glTF 2.0 file (.glb) of a textured mesh, with the texture embedded as an image and used as
+     * the base color of a non-metallic, fully rough PBR material
+     *
+     * @param uvs UVs of each face into the texture
+     * @param format one of TEXTURE_FORMATS. WebP images need the EXT_texture_webp extension to be supported.
+     */
+    export function exportGlb(geometry: THREE.Geometry,
+                              uvs: THREE.Vector2[][],
+                              texture: HTMLCanvasElement,
+                              format: string = 'png',
+                              quality?: number): Blob {
+        // Vertices are not shared between faces, as UVs and normals are given per face
+        var nVertices = geometry.faces.length * 3;
+        var positions = new Float32Array(nVertices * 3),
+            normals = new Float32Array(nVertices * 3),
+            texCoords = new Float32Array(nVertices * 2);
+        var min = [Infinity, Infinity, Infinity],
+            max = [-Infinity, -Infinity, -Infinity];
+
+        geometry.faces.forEach((face, faceIndex) => {
+            var vertexIndices = [face.a, face.b, face.c];
+            for (var j = 0; j < 3; j += 1) {
+                var i = faceIndex * 3 + j;
+                var vertex = geometry.vertices[vertexIndices[j]];
+                var normal = face.vertexNormals[j] || face.normal;
+
+                positions.set([vertex.x, vertex.y, vertex.z], i * 3);
+                normals.set([normal.x, normal.y, normal.z], i * 3);
+                // glTF puts the origin of texture coordinates at the top left corner of the image
+                texCoords.set([uvs[faceIndex][j].x, 1 - uvs[faceIndex][j].y], i * 2);
+
+                var coordinates = [vertex.x, vertex.y, vertex.z];
+                for (var k = 0; k < 3; k += 1) {
+                    min[k] = Math.min(min[k], coordinates[k]);
+                    max[k] = Math.max(max[k], coordinates[k]);
+                }
+            }
+        });
+        var image = canvasToBytes(texture, format, quality);
+
+        // Lay out the binary chunk, keeping every part aligned to 4 bytes
+        var parts: Uint8Array[] = [
+            new Uint8Array(positions.buffer),
+            new Uint8Array(normals.buffer),
+            new Uint8Array(texCoords.buffer),
+            image
+        ];
+        var bufferViews = [];
+        var byteOffset = 0;
+        parts.forEach((part, i) => {
+            var bufferView: any = {buffer: 0, byteOffset: byteOffset, byteLength: part.length};
+            if (i < 3) {
+                bufferView.target = GL_ARRAY_BUFFER;
+            }
+            bufferViews.push(bufferView);
+            byteOffset += alignTo4(part.length);
+        });
+        var binLength = byteOffset;
+
+        var json: any = {
+            asset: {version: '2.0', generator: 'chameleon.js'},
+            scene: 0,
+            scenes: [{nodes: [0]}],
+            nodes: [{mesh: 0}],
+            meshes: [{
+                primitives: [{
+                    attributes: {POSITION: 0, NORMAL: 1, TEXCOORD_0: 2},
+                    material: 0
+                }]
+            }],
+            materials: [{
+                pbrMetallicRoughness: {
+                    baseColorTexture: {index: 0},
+                    metallicFactor: 0,
+                    roughnessFactor: 1
+                }
+            }],
+            textures: [{source: 0, sampler: 0}],
+            samplers: [{
+                magFilter: GL_LINEAR,
+                minFilter: GL_LINEAR,
+                wrapS: GL_CLAMP_TO_EDGE,
+                wrapT: GL_CLAMP_TO_EDGE
+            }],
+            images: [{bufferView: 3, mimeType: textureMimeType(format)}],
+            accessors: [
+                {bufferView: 0, componentType: GL_FLOAT, count: nVertices, type: 'VEC3', min: min, max: max},
+                {bufferView: 1, componentType: GL_FLOAT, count: nVertices, type: 'VEC3'},
+                {bufferView: 2, componentType: GL_FLOAT, count: nVertices, type: 'VEC2'}
+            ],
+            bufferViews: bufferViews,
+            buffers: [{byteLength: binLength}]
+        };
+        if (format === 'webp') {
+            json.extensionsUsed = json.extensionsRequired = ['EXT_texture_webp'];
+            json.textures = [{sampler: 0, extensions: {EXT_texture_webp: {source: 0}}}];
+        }
+
+        // Everything in the JSON is ASCII, so its characters are its UTF-8 bytes
+        var jsonBytes = binaryStringToBytes(JSON.stringify(json));
+        var jsonLength = alignTo4(jsonBytes.length);
+
+        // A 12-byte header, followed by the JSON and binary chunks with 8-byte headers of their own
+        var glb = new ArrayBuffer(12 + 8 + jsonLength + 8 + binLength);
+        var view = new DataView(glb);
+        var bytes = new Uint8Array(glb);
+
+        view.setUint32(0, GLB_MAGIC, true);
+        view.setUint32(4, 2, true);
+        view.setUint32(8, glb.byteLength, true);
+
+        view.setUint32(12, jsonLength, true);
+        view.setUint32(16, GLB_CHUNK_JSON, true);
+        bytes.set(jsonBytes, 20);
+        for (var i = 20 + jsonBytes.length; i < 20 + jsonLength; i += 1) {
+            bytes[i] = 0x20; // The JSON chunk is padded with spaces
+        }
+
+        var binStart = 20 + jsonLength;
+        view.setUint32(binStart, binLength, true);
+        view.setUint32(binStart + 4, GLB_CHUNK_BIN, true);
+        parts.forEach((part, i) => bytes.set(part, binStart + 8 + bufferViews[i].byteOffset));
+
+        return new Blob([glb], {type: 'model/gltf-binary'});
+    }
+}
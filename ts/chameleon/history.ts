@@ -0,0 +1,110 @@
+/// <reference path="./common.ts" />
+/// <reference path="./layers.ts" />
+
+module Chameleon {
+
+    /**
+     * The state of a set of faces in a paint layer: for each face, the material holding its patch and the UVs into it
+     */
+    export class FacePatchSnapshot {
+        materials: THREE.Material[];
+        uvs: Float32Array; // 6 numbers per face: u0, v0, u1, v1, u2, v2
+
+        constructor(nFaces: number) {
+            this.materials = new Array(nFaces);
+            this.uvs = new Float32Array(nFaces * 6);
+        }
+    }
+
+    /**
+     * A reversible change to a paint layer. Only the faces touched by the change are stored.
+     */
+    export class PatchEdit {
+        constructor(public layer: PaintLayer,
+                    public faceIndices: number[],
+                    public before: FacePatchSnapshot,
+                    public after: FacePatchSnapshot) {
+        }
+    }
+
+    /**
+     * Bounded undo/redo stacks of patch edits. Each step is a list of edits that are undone and redone together.
+     */
+    export class EditHistory {
+        private _undoStack: PatchEdit[][] = [];
+        private _redoStack: PatchEdit[][] = [];
+        private _group: PatchEdit[] = null; // Collects the edits pushed between beginGroup and endGroup
+
+        get canUndo(): boolean {
+            return this._undoStack.length > 0;
+        }
+
+        get canRedo(): boolean {
+            return this._redoStack.length > 0;
+        }
+
+        push(edits: PatchEdit[]) {
+            if (this._group) {
+                this._group = this._group.concat(edits);
+                return;
+            }
+
+            this._undoStack.push(edits);
+            if (this._undoStack.length > this.limit) {
+                this._undoStack.shift();
+            }
+            this._redoStack = [];
+        }
+
+        /**
+         * Makes the edits pushed until endGroup a single step
+         */
+        beginGroup() {
+            console.assert(this._group === null);
+            this._group = [];
+        }
+
+        endGroup() {
+            var edits = this._group;
+            this._group = null;
+            if (edits.length > 0) {
+                this.push(edits);
+            }
+        }
+
+        undo(): PatchEdit[] {
+            var edits = this._undoStack.pop();
+            if (edits) {
+                this._redoStack.push(edits);
+            }
+            return edits;
+        }
+
+        redo(): PatchEdit[] {
+            var edits = this._redoStack.pop();
+            if (edits) {
+                this._undoStack.push(edits);
+            }
+            return edits;
+        }
+
+        /**
+         * Visits every edit that can be undone or redone, including those of a group that has not ended yet
+         */
+        forEachEdit(callback: (edit: PatchEdit) => any) {
+            var steps = this._undoStack.concat(this._redoStack);
+            if (this._group) {
+                steps.push(this._group);
+            }
+            steps.forEach((edits) => edits.forEach(callback));
+        }
+
+        clear() {
+            this._undoStack = [];
+            this._redoStack = [];
+        }
+
+        constructor(public limit: number) {
+        }
+    }
+}
@@ -0,0 +1,39 @@
+/// <reference path="./common.ts" />
+
+module Chameleon {
+
+    /**
+     * An image laid over the screen, which can be moved, scaled and rotated before it is painted onto the model
+     */
+    export class ImageOverlay {
+        position: THREE.Vector2; // Of the center of the image, on the screen canvas
+        scale: number = 1;
+        angle: number = 0; // Clockwise, in degrees
+        opacity: number = 1;
+
+        constructor(public image: HTMLImageElement | HTMLCanvasElement, position: THREE.Vector2) {
+            this.position = position.clone();
+        }
+
+        /**
+         * Draws the image in its place, at the current opacity of the context
+         */
+        draw(context: CanvasRenderingContext2D) {
+            context.save();
+            context.translate(this.position.x, this.position.y);
+            context.rotate(this.angle * Math.PI / 180);
+            context.scale(this.scale, this.scale);
+            context.drawImage(this.image, -this.image.width / 2, -this.image.height / 2);
+            context.restore();
+        }
+
+        contains(point: THREE.Vector2): boolean {
+            // Undo the rotation and the scale, to compare against the image as it is
+            var angle = -this.angle * Math.PI / 180;
+            var dx = point.x - this.position.x, dy = point.y - this.position.y;
+            var x = (dx * Math.cos(angle) - dy * Math.sin(angle)) / this.scale,
+                y = (dx * Math.sin(angle) + dy * Math.cos(angle)) / this.scale;
+            return Math.abs(x) <= this.image.width / 2 && Math.abs(y) <= this.image.height / 2;
+        }
+    }
+}
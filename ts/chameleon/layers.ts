@@ -0,0 +1,79 @@
+/// <reference path="./common.ts" />
+
+module Chameleon {
+
+    /**
+     * Values for PaintLayer.blendMode, which are the compositing operations supported by canvas 2D contexts
+     */
+    export var BLEND_MODES = [
+        'source-over', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn',
+        'hard-light', 'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity'
+    ];
+
+    export interface LayerProperties {
+        name?: string;
+        visible?: boolean;
+        locked?: boolean; // Locked layers cannot be painted on
+        opacity?: number; // In [0, 1]
+        blendMode?: string; // One of BLEND_MODES
+    }
+
+    /**
+     * A paint layer as stored in a project file, whose faces refer to the patch images of the project by index
+     */
+    export interface SavedLayer extends LayerProperties {
+        patchIndices: number[]; // For each face. -1 where the layer is empty.
+        uvs: number[]; // 6 numbers per face: u0, v0, u1, v1, u2, v2
+    }
+
+    /**
+     * A named layer of paint. Like the viewing texture, it holds for each face the material with its patch and the UVs
+     * into that patch. The viewing texture shows the composite of all visible layers.
+     */
+    export class PaintLayer implements LayerProperties {
+        visible: boolean = true;
+        locked: boolean = false;
+        opacity: number = 1;
+        blendMode: string = 'source-over';
+        material: THREE.MeshFaceMaterial = new THREE.MeshFaceMaterial(); // The material of each face
+        renderMaterial: THREE.MeshFaceMaterial = new THREE.MeshFaceMaterial(); // Kept up to date by TextureManager
+        uvs: THREE.Vector2[][] = [];
+
+        constructor(public name: string, nFaces: number, initialMaterial: THREE.Material) {
+            for (var i = 0; i < nFaces; i += 1) {
+                this.material.materials.push(initialMaterial);
+                this.uvs.push([
+                    new THREE.Vector2(0.5, 0.5),
+                    new THREE.Vector2(0.5, 0.5),
+                    new THREE.Vector2(0.5, 0.5)
+                ]);
+            }
+        }
+
+        /**
+         * Whether the layer shows as is, i.e. visible, fully opaque and not blended
+         */
+        get isPlain(): boolean {
+            return this.visible && this.opacity === 1 && this.blendMode === 'source-over';
+        }
+
+        setProperties(properties: LayerProperties) {
+            if (properties.name !== undefined) {
+                this.name = properties.name;
+            }
+            if (properties.visible !== undefined) {
+                this.visible = properties.visible;
+            }
+            if (properties.locked !== undefined) {
+                this.locked = properties.locked;
+            }
+            if (properties.opacity !== undefined) {
+                this.opacity = Math.min(Math.max(properties.opacity, 0), 1);
+            }
+            if (properties.blendMode !== undefined) {
+                console.assert(BLEND_MODES.indexOf(properties.blendMode) >= 0);
+                this.blendMode = properties.blendMode;
+            }
+        }
+    }
+}
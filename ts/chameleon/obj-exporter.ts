@@ -0,0 +1,86 @@
+/// <reference path="./common.ts" />
+
+module Chameleon {
+
+    /**
+     * A named object or group of an OBJ file, as a range of consecutive faces
+     */
+    export interface FaceGroup {
+        objectName: string;
+        groupName: string; // Empty for faces that are not in any group of the object
+        start: number; // Index of the first face
+        count: number;
+    }
+
+    /**
+     * Writes a model in OBJ format
+     *
+     * @param uvs UVs of each face
+     * @param faceGroups objects and groups to divide the faces into, or null to write a single anonymous object
+     * @param mtlFileName material library that holds the material named materialName, which is used for all faces
+     */
+    export function exportObj(geometry: THREE.Geometry,
+                              uvs: THREE.Vector2[][],
+                              faceGroups: FaceGroup[],
+                              mtlFileName: string,
+                              materialName: string): string {
+        var lines: string[] = ['mtllib ' + mtlFileName];
+
+        geometry.vertices.forEach((vertex) => lines.push('v ' + vertex.x + ' ' + vertex.y + ' ' + vertex.z));
+        uvs.forEach((faceUvs) => faceUvs.forEach((uv) => lines.push('vt ' + uv.x + ' ' + uv.y)));
+        geometry.faces.forEach((face) => {
+            for (var j = 0; j < 3; j += 1) {
+                var normal = face.vertexNormals[j] || face.normal;
+                lines.push('vn ' + normal.x + ' ' + normal.y + ' ' + normal.z);
+            }
+        });
+
+        var groupStartingAt: {[faceIndex: number]: FaceGroup} = {};
+        (faceGroups || []).forEach((faceGroup) => groupStartingAt[faceGroup.start] = faceGroup);
+
+        var objectName: string = null, groupName = '';
+        geometry.faces.forEach((face, faceIndex) => {
+            var faceGroup = groupStartingAt[faceIndex];
+            if (faceGroup) {
+                if (faceGroup.objectName !== objectName) {
+                    objectName = faceGroup.objectName;
+                    groupName = '';
+                    lines.push('o ' + (objectName || 'object'));
+                }
+                // Faces outside any group that follow a group go into the default group
+                if (faceGroup.groupName !== groupName) {
+                    groupName = faceGroup.groupName;
+                    lines.push('g ' + (groupName || 'default'));
+                }
+            }
+            if (faceIndex === 0 || faceGroup) {
+                lines.push('usemtl ' + materialName);
+            }
+
+            // Texture coordinates and normals are written per face vertex, in the same order as the faces
+            var j = faceIndex * 3 + 1;
+            lines.push(
+                'f ' + (face.a + 1) + '/' + j + '/' + j +
+                ' ' + (face.b + 1) + '/' + (j + 1) + '/' + (j + 1) +
+                ' ' + (face.c + 1) + '/' + (j + 2) + '/' + (j + 2)
+            );
+        });
+
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Writes a material library with a single material, whose diffuse color comes from a texture image
+     */
+    export function exportMtl(materialName: string, textureFileName: string): string {
+        return [
+            'newmtl ' + materialName,
+            'Ka 1 1 1',
+            'Kd 1 1 1',
+            'Ks 0 0 0',
+            'd 1',
+            'illum 1',
+            'map_Kd ' + textureFileName
+        ].join('\n') + '\n';
+    }
+}
@@ -0,0 +1,199 @@
+/// <reference path="../jszip.d.ts" />
+/// <reference path="./common.ts" />
+/// <reference path="./layers.ts" />
+/// <reference path="./obj-exporter.ts" />
+/// <reference path="./texture-export.ts" />
+
+module Chameleon {
+
+    export interface SavedGeometry {
+        vertices: number[]; // x, y, z of each vertex
+        faces: number[]; // a, b, c of each face
+        vertexNormals: number[]; // 9 numbers per face
+        uvs: number[]; // The UVs that the model came with, 6 numbers per face, or null
+    }
+
+    export interface SavedCamera {
+        position: number[];
+        up: number[];
+        target: number[];
+        zoom: number;
+    }
+
+    /**
+     * The contents of project.json in a project file. The patch images are stored next to it as patches/<index>.png.
+     */
+    export interface ProjectFile {
+        version: number;
+        geometry: SavedGeometry;
+        backgroundColor: string;
+        layers: SavedLayer[];
+        activeLayerIndex: number;
+        nPatches: number;
+        perspectiveView: boolean;
+        orthographicCamera: SavedCamera;
+        perspectiveCamera: SavedCamera;
+        faceGroups: FaceGroup[]; // Null when the model had no named objects or groups
+        settings: any;
+    }
+
+    export var PROJECT_FILE_VERSION = 1;
+
+    /**
+     * Why data cannot be opened as a project file, or null if it can. It may be another zip file, such as an export,
+     * or a project saved by a newer version.
+     */
+    export function projectFileError(data: ArrayBuffer): string {
+        try {
+            var zip = new JSZip(data);
+            var projectJson = zip.file('project.json');
+            if (!projectJson) {
+                return 'This zip file is not a project.';
+            }
+            var project = <ProjectFile>JSON.parse(projectJson.asText());
+        } catch (e) {
+            return 'This file is not a project.';
+        }
+
+        if (!(project.version <= PROJECT_FILE_VERSION)) {
+            return 'This project was saved by a newer version (' + project.version + ').';
+        }
+        for (var i = 0; i < project.nPatches; i += 1) {
+            if (!zip.file(projectPatchFileName(i))) {
+                return 'This project is missing ' + projectPatchFileName(i) + '.';
+            }
+        }
+        return null;
+    }
+
+    export function projectPatchFileName(patchIndex: number): string {
+        return 'patches/' + patchIndex + '.png';
+    }
+
+    export function saveGeometry(geometry: THREE.Geometry, uvs: THREE.Vector2[][]): SavedGeometry {
+        var vertices: number[] = [], faces: number[] = [], vertexNormals: number[] = [];
+        geometry.vertices.forEach((vertex) => vertices.push(vertex.x, vertex.y, vertex.z));
+        geometry.faces.forEach((face) => {
+            faces.push(face.a, face.b, face.c);
+            for (var j = 0; j < 3; j += 1) {
+                var normal = face.vertexNormals[j] || face.normal;
+                vertexNormals.push(normal.x, normal.y, normal.z);
+            }
+        });
+
+        var savedUvs: number[] = null;
+        if (uvs) {
+            savedUvs = [];
+            uvs.forEach((faceUvs) => faceUvs.forEach((uv) => savedUvs.push(uv.x, uv.y)));
+        }
+
+        return {vertices: vertices, faces: faces, vertexNormals: vertexNormals, uvs: savedUvs};
+    }
+
+    export function restoreGeometry(saved: SavedGeometry): THREE.Geometry {
+        var geometry = new THREE.Geometry();
+        for (var i = 0; i < saved.vertices.length; i += 3) {
+            geometry.vertices.push(new THREE.Vector3(saved.vertices[i], saved.vertices[i + 1], saved.vertices[i + 2]));
+        }
+
+        for (var i = 0; i < saved.faces.length / 3; i += 1) {
+            var vertexNormals: THREE.Vector3[] = [];
+            for (var j = 0; j < 3; j += 1) {
+                var k = i * 9 + j * 3;
+                vertexNormals.push(
+                    new THREE.Vector3(saved.vertexNormals[k], saved.vertexNormals[k + 1], saved.vertexNormals[k + 2])
+                );
+            }
+            geometry.faces.push(new THREE.Face3(
+                saved.faces[i * 3], saved.faces[i * 3 + 1], saved.faces[i * 3 + 2], vertexNormals
+            ));
+
+            if (saved.uvs) {
+                var faceUvs: THREE.Vector2[] = [];
+                for (var j = 0; j < 3; j += 1) {
+                    faceUvs.push(new THREE.Vector2(saved.uvs[i * 6 + j * 2], saved.uvs[i * 6 + j * 2 + 1]));
+                }
+                geometry.faceVertexUvs[0].push(faceUvs);
+            }
+        }
+        geometry.computeFaceNormals();
+
+        return geometry;
+    }
+
+    export function saveCamera(camera: THREE.Camera, target: THREE.Vector3): SavedCamera {
+        return {
+            position: camera.position.toArray(),
+            up: camera.up.toArray(),
+            target: target.toArray(),
+            zoom: (<any>camera).zoom
+        };
+    }
+
+    export function restoreCamera(saved: SavedCamera, camera: THREE.Camera, target: THREE.Vector3) {
+        camera.position.fromArray(saved.position);
+        camera.up.fromArray(saved.up);
+        target.fromArray(saved.target);
+        camera.lookAt(target);
+        (<any>camera).zoom = saved.zoom;
+        (<any>camera).updateProjectionMatrix();
+    }
+
+    export function addCanvasToZip(zip: JSZip,
+                                   fileName: string,
+                                   canvas: HTMLCanvasElement,
+                                   format: string = 'png',
+                                   quality?: number) {
+        var dataUrl = canvasToDataUrl(canvas, format, quality);
+        zip.file(fileName, dataUrl.substr(dataUrl.indexOf(',') + 1), {base64: true});
+    }
+
+    /**
+     * Decodes PNG images stored in a zip file, which finishes asynchronously
+     * @param onError called instead of onLoad with a message, if an image is missing or cannot be decoded
+     */
+    export function loadCanvasesFromZip(zip: JSZip,
+                                        fileNames: string[],
+                                        onLoad: (canvases: HTMLCanvasElement[]) => any,
+                                        onError: (message: string) => any) {
+        var canvases: HTMLCanvasElement[] = new Array(fileNames.length);
+        var nRemaining = fileNames.length;
+        if (nRemaining === 0) {
+            onLoad(canvases);
+            return;
+        }
+
+        var missingFileName = fileNames.filter((fileName) => !zip.file(fileName))[0];
+        if (missingFileName) {
+            onError('The file is missing ' + missingFileName + '.');
+            return;
+        }
+
+        var hasFailed = false;
+        fileNames.forEach((fileName, i) => {
+            var image = new Image();
+            image.onload = () => {
+                URL.revokeObjectURL(image.src);
+
+                var canvas = <HTMLCanvasElement>document.createElement('canvas');
+                canvas.width = image.width;
+                canvas.height = image.height;
+                canvas.getContext('2d').drawImage(image, 0, 0);
+                canvases[i] = canvas;
+
+                nRemaining -= 1;
+                if (nRemaining === 0) {
+                    onLoad(canvases);
+                }
+            };
+            image.onerror = () => {
+                URL.revokeObjectURL(image.src);
+                if (!hasFailed) {
+                    hasFailed = true;
+                    onError('The image ' + fileName + ' is damaged.');
+                }
+            };
+            image.src = URL.createObjectURL(new Blob([zip.file(fileName).asUint8Array()], {type: 'image/png'}));
+        });
+    }
+}
@@ -0,0 +1,244 @@
+/// <reference path="./common.ts" />
+
+module Chameleon {
+
+    export interface RectSize {
+        width: number;
+        height: number;
+    }
+
+    /**
+     * Where a rectangle was placed. A rotated rectangle is turned by 90 degrees, so it takes up height x width.
+     */
+    export interface PackedRect {
+        x: number;
+        y: number;
+        isRotated: boolean;
+    }
+
+    export interface PackingResult {
+        size: number; // Width and height of the square atlas
+        rects: PackedRect[]; // In the same order as the sizes given
+        efficiency: number; // The fraction of the atlas covered by rectangles
+    }
+
+    /**
+     * Where a rectangle was placed by packRectsIntoPages. Rectangles are not rotated.
+     */
+    export interface PagedRect {
+        page: number;
+        x: number;
+        y: number;
+    }
+
+    interface FreeRect {
+        x: number;
+        y: number;
+        width: number;
+        height: number;
+    }
+
+    function containsRect(outer: FreeRect, inner: FreeRect): boolean {
+        return inner.x >= outer.x && inner.y >= outer.y &&
+            inner.x + inner.width <= outer.x + outer.width &&
+            inner.y + inner.height <= outer.y + outer.height;
+    }
+
+    /**
+     * Packs rectangles into a square bin with the MaxRects algorithm, which keeps track of all maximal free rectangles
+     * and puts each rectangle where it leaves the shortest side of a free rectangle (Best Short Side Fit)
+     */
+    class MaxRectsBin {
+        private _freeRects: FreeRect[];
+
+        constructor(public size: number) {
+            this._freeRects = [{x: 0, y: 0, width: size, height: size}];
+        }
+
+        /**
+         * @returns null if the rectangle does not fit
+         */
+        insert(width: number, height: number, allowRotation: boolean): PackedRect {
+            var best: PackedRect = null;
+            var bestShortSide = Infinity, bestLongSide = Infinity;
+            var tryFit = (freeRect: FreeRect, w: number, h: number, isRotated: boolean) => {
+                if (w > freeRect.width || h > freeRect.height) {
+                    return;
+                }
+                var shortSide = Math.min(freeRect.width - w, freeRect.height - h);
+                var longSide = Math.max(freeRect.width - w, freeRect.height - h);
+                if (shortSide < bestShortSide || (shortSide === bestShortSide && longSide < bestLongSide)) {
+                    best = {x: freeRect.x, y: freeRect.y, isRotated: isRotated};
+                    bestShortSide = shortSide;
+                    bestLongSide = longSide;
+                }
+            };
+
+            this._freeRects.forEach((freeRect) => {
+                tryFit(freeRect, width, height, false);
+                if (allowRotation && width !== height) {
+                    tryFit(freeRect, height, width, true);
+                }
+            });
+
+            if (best) {
+                this._splitFreeRects({
+                    x: best.x,
+                    y: best.y,
+                    width: best.isRotated ? height : width,
+                    height: best.isRotated ? width : height
+                });
+            }
+            return best;
+        }
+
+        // Replaces each free rectangle that overlaps the used one by the free rectangles around it
+        private _splitFreeRects(used: FreeRect) {
+            var newFreeRects: FreeRect[] = [];
+            this._freeRects.forEach((free) => {
+                if (used.x >= free.x + free.width || used.x + used.width <= free.x ||
+                    used.y >= free.y + free.height || used.y + used.height <= free.y) {
+                    newFreeRects.push(free);
+                    return;
+                }
+
+                if (used.x > free.x) {
+                    newFreeRects.push({x: free.x, y: free.y, width: used.x - free.x, height: free.height});
+                }
+                if (used.x + used.width < free.x + free.width) {
+                    newFreeRects.push({
+                        x: used.x + used.width,
+                        y: free.y,
+                        width: free.x + free.width - used.x - used.width,
+                        height: free.height
+                    });
+                }
+                if (used.y > free.y) {
+                    newFreeRects.push({x: free.x, y: free.y, width: free.width, height: used.y - free.y});
+                }
+                if (used.y + used.height < free.y + free.height) {
+                    newFreeRects.push({
+                        x: free.x,
+                        y: used.y + used.height,
+                        width: free.width,
+                        height: free.y + free.height - used.y - used.height
+                    });
+                }
+            });
+
+            // Only maximal free rectangles are kept
+            this._freeRects = newFreeRects.filter((rect, i) => {
+                for (var j = 0; j < newFreeRects.length; j += 1) {
+                    if (j !== i && containsRect(newFreeRects[j], rect) &&
+                        (!containsRect(rect, newFreeRects[j]) || j < i)) {
+                        return false;
+                    }
+                }
+                return true;
+            });
+        }
+    }
+
+    /**
+     * Packs rectangles into the smallest square atlas it can find, growing it until every rectangle is placed
+     *
+     * @param allowRotation whether rectangles may be turned by 90 degrees to fit better
+     */
+    export function packRects(sizes: RectSize[], allowRotation: boolean = true): PackingResult {
+        var totalArea = 0, minSize = 1;
+        sizes.forEach((rectSize) => {
+            totalArea += rectSize.width * rectSize.height;
+            // Rotating does not help a rectangle fit into a square
+            minSize = Math.max(minSize, rectSize.width, rectSize.height);
+        });
+
+        // Large rectangles go first, while there is still room for them
+        var order = sizes.map((rectSize, i) => i);
+        order.sort((l, r) =>
+            Math.max(sizes[r].width, sizes[r].height) - Math.max(sizes[l].width, sizes[l].height) ||
+            sizes[r].width * sizes[r].height - sizes[l].width * sizes[l].height
+        );
+
+        var size = Math.max(Math.ceil(Math.sqrt(totalArea)), minSize);
+        while (true) {
+            var bin = new MaxRectsBin(size);
+            var rects: PackedRect[] = new Array(sizes.length);
+            var isPacked = order.every((i) => {
+                rects[i] = bin.insert(sizes[i].width, sizes[i].height, allowRotation);
+                return rects[i] !== null;
+            });
+
+            if (isPacked) {
+                return {size: size, rects: rects, efficiency: totalArea / (size * size)};
+            }
+            size = Math.max(size + 1, Math.ceil(size * 1.05));
+        }
+    }
+
+    /**
+     * Packs rectangles into a square atlas row by row, tallest first. It wastes more room than packRects, but takes
+     * little more than sorting time, so it suits many rectangles.
+     */
+    export function packRectsOnShelves(sizes: RectSize[]): PackingResult {
+        var totalArea = 0, width = 1;
+        sizes.forEach((rectSize) => {
+            totalArea += rectSize.width * rectSize.height;
+            width = Math.max(width, rectSize.width);
+        });
+        // Rows are not filled completely, so they are made a bit wider than a tight square would be
+        width = Math.max(width, Math.ceil(Math.sqrt(totalArea * 1.2)));
+
+        var order = sizes.map((rectSize, i) => i);
+        order.sort((l, r) => sizes[r].height - sizes[l].height);
+
+        var rects: PackedRect[] = new Array(sizes.length);
+        var x = 0, shelfY = 0, shelfHeight = 0;
+        order.forEach((i) => {
+            if (x + sizes[i].width > width) {
+                x = 0;
+                shelfY += shelfHeight;
+                shelfHeight = 0;
+            }
+            rects[i] = {x: x, y: shelfY, isRotated: false};
+            x += sizes[i].width;
+            shelfHeight = Math.max(shelfHeight, sizes[i].height);
+        });
+
+        var size = Math.max(width, shelfY + shelfHeight);
+        return {size: size, rects: rects, efficiency: totalArea / (size * size)};
+    }
+
+    /**
+     * Packs rectangles into as few pages as it can, each page up to pageSize x pageSize. Every page is cropped to the
+     * rectangles on it, and a rectangle larger than a page gets a page of its own.
+     */
+    export function packRectsIntoPages(sizes: RectSize[], pageSize: number): {pages: RectSize[]; rects: PagedRect[]} {
+        var order = sizes.map((rectSize, i) => i);
+        order.sort((l, r) => sizes[r].width * sizes[r].height - sizes[l].width * sizes[l].height);
+
+        var bins: MaxRectsBin[] = [];
+        var pages: RectSize[] = [];
+        var rects: PagedRect[] = new Array(sizes.length);
+        order.forEach((i) => {
+            var width = sizes[i].width, height = sizes[i].height;
+            for (var page = 0; page < bins.length; page += 1) {
+                // Pages of their own are not shared
+                var rect = (bins[page].size === pageSize) ? bins[page].insert(width, height, false) : null;
+                if (rect) {
+                    break;
+                }
+            }
+            if (page === bins.length) {
+                bins.push(new MaxRectsBin(Math.max(pageSize, width, height)));
+                pages.push({width: 0, height: 0});
+                rect = bins[page].insert(width, height, false);
+            }
+
+            rects[i] = {page: page, x: rect.x, y: rect.y};
+            pages[page].width = Math.max(pages[page].width, rect.x + width);
+            pages[page].height = Math.max(pages[page].height, rect.y + height);
+        });
+
+        return {pages: pages, rects: rects};
+    }
+}
@@ -0,0 +1,159 @@
+/// <reference path="./common.ts" />
+
+module Chameleon {
+
+    /**
+     * 'none' follows the pointer exactly. 'lazy' pulls the brush along on a string, so that it only moves once the
+     * pointer is farther away than the length of the string. 'average' puts the brush at the average of the latest
+     * pointer positions.
+     */
+    export var STABILIZER_MODES = ['none', 'lazy', 'average'];
+
+    export interface StrokePoint {
+        position: THREE.Vector2;
+        sample: StrokeSample;
+    }
+
+    function lerpSample(from: StrokeSample, to: StrokeSample, t: number): StrokeSample {
+        return {
+            pressure: from.pressure + (to.pressure - from.pressure) * t,
+            tiltX: from.tiltX + (to.tiltX - from.tiltX) * t,
+            tiltY: from.tiltY + (to.tiltY - from.tiltY) * t,
+            timeStamp: from.timeStamp + (to.timeStamp - from.timeStamp) * t
+        };
+    }
+
+    // The point at t of the uniform Catmull-Rom spline segment from p1 to p2
+    function catmullRom(p0: number, p1: number, p2: number, p3: number, t: number): number {
+        return 0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t * t +
+            (3 * p1 - p0 - 3 * p2 + p3) * t * t * t);
+    }
+
+    /**
+     * Smooths the pointer positions of a stroke and fills in the curve between them, so that the brush gets closely
+     * spaced points along a smooth path
+     */
+    export class StrokeStabilizer {
+        mode: string = 'none'; // One of STABILIZER_MODES
+        lazyRadius: number = 20; // Length of the string in 'lazy' mode, in pixels
+        averageCount: number = 8; // How many pointer positions are averaged in 'average' mode
+        interpolate: boolean = true; // Draw a spline through the points, instead of straight lines
+        segmentLength: number = 4; // The spline is divided into straight pieces of about this length, in pixels
+
+        private _pointerPoints: StrokePoint[] = []; // The latest ones, for 'average' mode
+        private _points: StrokePoint[] = []; // The latest smoothed ones, up to the four the spline needs
+
+        start(position: THREE.Vector2, sample: StrokeSample) {
+            var point = {position: position.clone(), sample: sample};
+            this._pointerPoints = [point];
+            this._points = [point];
+        }
+
+        /**
+         * @returns the points that the brush should be moved to, in order
+         */
+        add(position: THREE.Vector2, sample: StrokeSample): StrokePoint[] {
+            var point = this._stabilize({position: position.clone(), sample: sample});
+            return point ? this._addSmoothed(point) : [];
+        }
+
+        /**
+         * @returns the points that the brush should be moved to at the end of the stroke
+         */
+        finish(): StrokePoint[] {
+            var points: StrokePoint[] = [];
+            // The average lags behind, so it catches up with the pointer. The lazy brush stays where it is.
+            if (this.mode === 'average' && this._pointerPoints.length > 0) {
+                points = this._addSmoothed(this._pointerPoints[this._pointerPoints.length - 1]);
+            }
+
+            var n = this._points.length;
+            if (this.interpolate && n >= 2) {
+                points = points.concat(this._curve(
+                    this._points[Math.max(n - 3, 0)], this._points[n - 2], this._points[n - 1], this._points[n - 1]
+                ));
+            }
+
+            this._pointerPoints = [];
+            this._points = [];
+            return points;
+        }
+
+        // null if the brush does not move
+        private _stabilize(point: StrokePoint): StrokePoint {
+            var last = this._points[this._points.length - 1];
+            switch (this.mode) {
+                case 'lazy':
+                    var distance = point.position.distanceTo(last.position);
+                    if (distance <= this.lazyRadius) {
+                        return null;
+                    }
+                    return {
+                        position: last.position.clone().lerp(point.position, 1 - this.lazyRadius / distance),
+                        sample: point.sample
+                    };
+                case 'average':
+                    this._pointerPoints.push(point);
+                    if (this._pointerPoints.length > this.averageCount) {
+                        this._pointerPoints.splice(0, this._pointerPoints.length - this.averageCount);
+                    }
+                    var average: StrokePoint = {
+                        position: new THREE.Vector2(),
+                        sample: {pressure: 0, tiltX: 0, tiltY: 0, timeStamp: point.sample.timeStamp}
+                    };
+                    var nPoints = this._pointerPoints.length;
+                    this._pointerPoints.forEach((pointerPoint) => {
+                        average.position.add(pointerPoint.position);
+                        average.sample.pressure += pointerPoint.sample.pressure / nPoints;
+                        average.sample.tiltX += pointerPoint.sample.tiltX / nPoints;
+                        average.sample.tiltY += pointerPoint.sample.tiltY / nPoints;
+                    });
+                    average.position.divideScalar(nPoints);
+                    return average;
+                default:
+                    console.assert(this.mode === 'none');
+                    return point;
+            }
+        }
+
+        private _addSmoothed(point: StrokePoint): StrokePoint[] {
+            var last = this._points[this._points.length - 1];
+            if (point.position.equals(last.position)) {
+                return [];
+            }
+
+            if (!this.interpolate) {
+                this._points = [point];
+                return [point];
+            }
+
+            // A piece of the spline is known once the point after its end is
+            this._points.push(point);
+            if (this._points.length > 4) {
+                this._points.shift();
+            }
+            var n = this._points.length;
+            if (n < 3) {
+                return [];
+            }
+            return this._curve(this._points[Math.max(n - 4, 0)], this._points[n - 3], this._points[n - 2], point);
+        }
+
+        // Points along the spline from p1 to p2, without p1
+        private _curve(p0: StrokePoint, p1: StrokePoint, p2: StrokePoint, p3: StrokePoint): StrokePoint[] {
+            var nPieces = Math.max(Math.ceil(p1.position.distanceTo(p2.position) / this.segmentLength), 1);
+            var points: StrokePoint[] = [];
+            for (var i = 1; i <= nPieces; i += 1) {
+                var t = i / nPieces;
+                points.push({
+                    position: new THREE.Vector2(
+                        catmullRom(p0.position.x, p1.position.x, p2.position.x, p3.position.x, t),
+                        catmullRom(p0.position.y, p1.position.y, p2.position.y, p3.position.y, t)
+                    ),
+                    sample: lerpSample(p1.sample, p2.sample, t)
+                });
+            }
+            return points;
+        }
+    }
+}
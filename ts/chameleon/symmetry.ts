@@ -0,0 +1,39 @@
+/// <reference path="./common.ts" />
+
+module Chameleon {
+
+    export var SYMMETRY_AXES = ['x', 'y', 'z'];
+
+    function axisVector(axis: string): THREE.Vector3 {
+        console.assert(SYMMETRY_AXES.indexOf(axis) >= 0);
+        return new THREE.Vector3(axis === 'x' ? 1 : 0, axis === 'y' ? 1 : 0, axis === 'z' ? 1 : 0);
+    }
+
+    // Applies a transform about a center instead of the origin
+    function aboutCenter(transform: THREE.Matrix4, center: THREE.Vector3): THREE.Matrix4 {
+        return new THREE.Matrix4().makeTranslation(center.x, center.y, center.z).
+            multiply(transform).
+            multiply(new THREE.Matrix4().makeTranslation(-center.x, -center.y, -center.z));
+    }
+
+    /**
+     * The reflection across the plane through center that is perpendicular to an axis
+     */
+    export function mirrorSymmetry(axis: string, center: THREE.Vector3): THREE.Matrix4[] {
+        var scale = new THREE.Vector3(1, 1, 1).sub(axisVector(axis).multiplyScalar(2));
+        return [aboutCenter(new THREE.Matrix4().makeScale(scale.x, scale.y, scale.z), center)];
+    }
+
+    /**
+     * The rotations about the line through center along an axis that repeat a stroke count times around it
+     */
+    export function radialSymmetry(axis: string, center: THREE.Vector3, count: number): THREE.Matrix4[] {
+        var transforms: THREE.Matrix4[] = [];
+        for (var i = 1; i < count; i += 1) {
+            transforms.push(aboutCenter(
+                new THREE.Matrix4().makeRotationAxis(axisVector(axis), Math.PI * 2 * i / count), center
+            ));
+        }
+        return transforms;
+    }
+}
@@ -0,0 +1,151 @@
+/// <reference path="./common.ts" />
+
+module Chameleon {
+
+    export interface TextureExportOptions {
+        /**
+         * Width and height of the exported texture in pixels. The packed texture is resampled to it.
+         * By default, the packed texture keeps its own size, and textures baked into the original UVs are 1024 pixels.
+         */
+        resolution?: number;
+
+        /**
+         * Round the size up to a power of two
+         */
+        powerOfTwo?: boolean;
+
+        /**
+         * One of TEXTURE_FORMATS
+         */
+        format?: string;
+
+        /**
+         * Quality of JPEG and WebP images, in [0, 1]
+         */
+        quality?: number;
+
+        /**
+         * Gutter in pixels around each patch of the texture, filled by extending the edge pixels of the patch,
+         * so that filtering and mipmaps do not pick up the background across UV seams
+         */
+        padding?: number;
+    }
+
+    export var TEXTURE_FORMATS = ['png', 'jpeg', 'webp'];
+
+    export var DEFAULT_BAKE_RESOLUTION = 1024;
+
+    export function textureMimeType(format: string): string {
+        console.assert(TEXTURE_FORMATS.indexOf(format) >= 0);
+        return 'image/' + format;
+    }
+
+    export function textureFileExtension(format: string): string {
+        return (format === 'jpeg') ? '.jpg' : '.' + format;
+    }
+
+    /**
+     * The side length of an exported texture, given the size it would naturally have
+     */
+    export function exportTextureSize(naturalSize: number, options: TextureExportOptions): number {
+        var size = options.resolution || naturalSize;
+        if (options.powerOfTwo) {
+            size = Math.pow(2, Math.ceil(Math.log(size) / Math.LN2));
+        }
+        return Math.max(Math.round(size), 1);
+    }
+
+    /**
+     * Scales a canvas to a new size. Reductions are done by halves, so that every source pixel is accounted for.
+     */
+    export function resampleCanvas(canvas: HTMLCanvasElement, width: number, height: number): HTMLCanvasElement {
+        var source = canvas;
+        do {
+            var resampled = <HTMLCanvasElement>document.createElement('canvas');
+            resampled.width = Math.max(width, Math.ceil(source.width / 2));
+            resampled.height = Math.max(height, Math.ceil(source.height / 2));
+            resampled.getContext('2d').drawImage(source, 0, 0, resampled.width, resampled.height);
+            source = resampled;
+        } while (source.width !== width || source.height !== height);
+
+        return source;
+    }
+
+    /**
+     * Fills transparent pixels within nPixels of painted ones with the color of their painted neighbors, in place
+     */
+    export function dilateCanvas(canvas: HTMLCanvasElement, nPixels: number) {
+        var context = canvas.getContext('2d');
+        var copy = <HTMLCanvasElement>document.createElement('canvas');
+        copy.width = canvas.width;
+        copy.height = canvas.height;
+        var copyContext = copy.getContext('2d');
+
+        context.save();
+        // Shifted copies are only drawn where the canvas is still transparent
+        context.globalCompositeOperation = 'destination-over';
+        for (var i = 0; i < nPixels; i += 1) {
+            copyContext.clearRect(0, 0, copy.width, copy.height);
+            copyContext.drawImage(canvas, 0, 0);
+            for (var dx = -1; dx <= 1; dx += 1) {
+                for (var dy = -1; dy <= 1; dy += 1) {
+                    if (dx !== 0 || dy !== 0) {
+                        context.drawImage(copy, dx, dy);
+                    }
+                }
+            }
+        }
+        context.restore();
+    }
+
+    /**
+     * Prepares an image for export at the given size, which dilates it by the padding and, for formats without
+     * transparency, fills what remains transparent with the background color
+     */
+    export function finishExportTexture(canvas: HTMLCanvasElement,
+                                        size: number,
+                                        options: TextureExportOptions,
+                                        backgroundColor: string): HTMLCanvasElement {
+        // Always a copy, so the texture in use is left as it is
+        var result = resampleCanvas(canvas, size, size);
+
+        if (options.padding > 0) {
+            dilateCanvas(result, options.padding);
+        }
+
+        if ((options.format || 'png') === 'jpeg') {
+            var context = result.getContext('2d');
+            context.save();
+            context.globalCompositeOperation = 'destination-over';
+            context.fillStyle = backgroundColor;
+            context.fillRect(0, 0, result.width, result.height);
+            context.restore();
+        }
+
+        return result;
+    }
+
+    /**
+     * Whether this browser can encode images in one of TEXTURE_FORMATS. PNG always works.
+     */
+    export function canEncodeTextureFormat(format: string): boolean {
+        var canvas = <HTMLCanvasElement>document.createElement('canvas');
+        canvas.width = canvas.height = 1;
+        // Browsers fall back to PNG for formats that they cannot encode
+        return canvas.toDataURL(textureMimeType(format)).indexOf('data:' + textureMimeType(format)) === 0;
+    }
+
+    /**
+     * Encodes a canvas as a data URL in one of TEXTURE_FORMATS. Check the format with canEncodeTextureFormat first,
+     * as this throws if the browser cannot encode it.
+     */
+    export function canvasToDataUrl(canvas: HTMLCanvasElement, format: string = 'png', quality?: number): string {
+        var mimeType = textureMimeType(format);
+        var dataUrl = canvas.toDataURL(mimeType, quality);
+        // Browsers fall back to PNG for formats that they cannot encode
+        if (dataUrl.indexOf('data:' + mimeType) !== 0) {
+            throw new Error('This browser cannot encode ' + format.toUpperCase() + ' images');
+        }
+        return dataUrl;
+    }
+}
@@ -1,9 +1,84 @@
 /// <reference path="./common.ts" />
+/// <reference path="./layers.ts" />
+/// <reference path="./history.ts" />
+/// <reference path="./adjacency.ts" />
+/// <reference path="./rect-packer.ts" />
+/// <reference path="./obj-exporter.ts" />
 
 module Chameleon {
 
     var EPSILON = 1e-3;
 
+    /**
+     * A Lambert material that looks up its map by the screen position of each fragment, rather than by interpolated UVs.
+     * Interpolating screen-space UVs across a face gives a distorted image under perspective projection.
+     */
+    function createScreenSpaceMaterial(map: THREE.Texture, screenToUv: THREE.Vector4): THREE.ShaderMaterial {
+        var lambert = THREE.ShaderLib['lambert'];
+        var uniforms = THREE.UniformsUtils.clone(lambert.uniforms);
+        uniforms.map.value = map;
+        // Maps normalized device coordinates to UVs of the map: uv = ndc * screenToUv.xy + screenToUv.zw
+        uniforms.screenToUv = {type: 'v4', value: screenToUv};
+
+        var vertexShader = lambert.vertexShader;
+        vertexShader = 'varying vec4 vScreenPosition;\n' +
+            vertexShader.substr(0, vertexShader.lastIndexOf('}')) +
+            'vScreenPosition = gl_Position;\n}';
+
+        var fragmentShader = 'uniform vec4 screenToUv;\nvarying vec4 vScreenPosition;\n' + lambert.fragmentShader.replace(
+            'texture2D( map, vUv )',
+            'texture2D( map, vScreenPosition.xy / vScreenPosition.w * screenToUv.xy + screenToUv.zw )'
+        );
+
+        var material = new THREE.ShaderMaterial({
+            uniforms: uniforms,
+            vertexShader: vertexShader,
+            fragmentShader: fragmentShader,
+            lights: true,
+            transparent: true
+        });
+        // Makes WebGLRenderer define USE_MAP for the shaders
+        (<any>material).map = map;
+
+        return material;
+    }
+
+    function createPatchMaterial(canvas: HTMLCanvasElement): THREE.MeshLambertMaterial {
+        var material = new THREE.MeshLambertMaterial({
+            map: new THREE.Texture(canvas),
+            transparent: true
+        });
+        material.map.needsUpdate = true;
+
+        return material;
+    }
+
+    /**
+     * The triangle (in pixels, as taken by drawTriangle) that UVs map to on a patch
+     */
+    function patchTriangle(image: HTMLCanvasElement, uvs: THREE.Vector2[]): number[] {
+        return [
+            uvs[0].x * image.width, (1 - uvs[0].y) * image.height,
+            uvs[1].x * image.width, (1 - uvs[1].y) * image.height,
+            uvs[2].x * image.width, (1 - uvs[2].y) * image.height
+        ];
+    }
+
+    function sampleBilinear(image: ImageData, x: number, y: number, result: Float32Array) {
+        x = Math.min(Math.max(x - 0.5, 0), image.width - 1);
+        y = Math.min(Math.max(y - 0.5, 0), image.height - 1);
+        var x0 = Math.floor(x), y0 = Math.floor(y),
+            x1 = Math.min(x0 + 1, image.width - 1), y1 = Math.min(y0 + 1, image.height - 1),
+            fx = x - x0, fy = y - y0;
+        var i00 = (y0 * image.width + x0) * 4, i10 = (y0 * image.width + x1) * 4,
+            i01 = (y1 * image.width + x0) * 4, i11 = (y1 * image.width + x1) * 4;
+        for (var c = 0; c < 4; c += 1) {
+            result[c] =
+                (image.data[i00 + c] * (1 - fx) + image.data[i10 + c] * fx) * (1 - fy) +
+                (image.data[i01 + c] * (1 - fx) + image.data[i11 + c] * fx) * fy;
+        }
+    }
+
     class AffectedFacesRecorder {
         private _nAffectedFaces: number = 0;
         private _affectedFaces: Uint32Array;
@@ -42,6 +117,45 @@ module Chameleon {
         contains(faceIndex: number): boolean {
             return !!this._isFaceAffected[faceIndex];
         }
+
+        toArray(): number[] {
+            var faceIndices: number[] = new Array(this._nAffectedFaces);
+            for (var i = 0; i < this._nAffectedFaces; i += 1) {
+                faceIndices[i] = this._affectedFaces[i];
+            }
+            return faceIndices;
+        }
+    }
+
+    /**
+     * What a bucket fill spreads over, and what it fills the faces with. The fill spreads from the clicked face to
+     * the faces connected to it, as long as they are within all of the bounds that are given.
+     */
+    export interface FillOptions {
+        color?: string; // Used when there is no pattern
+
+        /**
+         * Image that is repeated over the faces. Each face is projected onto the plane of the two axes that it faces
+         * away from the least, so that neighbouring faces line up.
+         */
+        pattern?: HTMLCanvasElement;
+
+        patternScale?: number; // The size of the pattern on the model, in model units
+
+        creaseAngle?: number; // Do not spread across edges sharper than this, in degrees
+
+        /**
+         * Do not spread to faces whose color in the active layer differs from that of the clicked face by more than
+         * this, in [0, 1]
+         */
+        tolerance?: number;
+
+        faceGroups?: FaceGroup[]; // Do not spread beyond the group of the clicked face
+    }
+
+    export interface ProjectionOptions {
+        opacity?: number; // In [0, 1]
+        maxAngle?: number; // Faces turned further than this away from the camera are not painted, in degrees
     }
 
     export enum TextureInUse {
@@ -55,29 +169,69 @@ module Chameleon {
         private _textureInUse: TextureInUse;
         private _mesh: THREE.Mesh;
         private _renderer: THREE.WebGLRenderer;
-        private _camera: THREE.OrthographicCamera;
-        private _viewingTextureUvs: THREE.Vector2[][];
-        private _viewingMaterial: THREE.MeshFaceMaterial;
+        private _camera: THREE.Camera;
+        private _viewingTextureUvs: THREE.Vector2[][]; // The viewing texture is the composite of the visible layers
+        private _viewingMaterial: THREE.MeshFaceMaterial; // The material of each face
+        // Faces that share their materials in the viewing texture and in every layer are rendered together, in a
+        // single draw call. The materialIndex of each face is its render group.
+        private _viewingRenderMaterial: THREE.MeshFaceMaterial = new THREE.MeshFaceMaterial();
+        private _isMeshRegroupNeeded: boolean = false;
+        private _isDrawingRegroupNeeded: boolean = false;
         private _viewingBackgroundMaterial: THREE.MeshLambertMaterial;
+        private _transparentMaterial: THREE.MeshLambertMaterial;
+        private _layers: PaintLayer[];
+        private _activeLayerIndex: number = 0;
+        private _nextLayerNumber: number = 1;
+        private _originalUvs: THREE.Vector2[][] = null;
         private _packedTextureUvs: THREE.Vector2[][];
         private _packedTextureCanvas: HTMLCanvasElement;
         private _packedTextureMaterial: THREE.MeshLambertMaterial;
         private _drawingTextureUvs: THREE.Vector2[][];
-        private _drawingCanvas: HTMLCanvasElement;
-        private _drawingMaterial: THREE.MeshLambertMaterial;
+        private _drawingCanvas: HTMLCanvasElement; // Holds the active layer only
+        private _drawingTexture: THREE.Texture;
+        // When there are other layers to show, the drawing texture shows _drawingCanvas between the layers below and above
+        private _isDrawingLayered: boolean = false;
+        private _drawingDisplayCanvas: HTMLCanvasElement;
+        private _drawingBelowCanvas: HTMLCanvasElement;
+        private _drawingAboveCanvases: HTMLCanvasElement[] = [];
+        private _drawingAboveLayers: PaintLayer[] = [];
+        private _drawingMaterial: THREE.ShaderMaterial;
         private _drawingTextureMesh: THREE.Mesh;
+        private _drawingGeometry: THREE.Geometry;
         private _drawingTextureScene: THREE.Scene;
         private _drawingVertexUvs: THREE.Vector2[];
+        private _drawingVertexWs: Float32Array; // The w component of each vertex's clip coordinates
+        private _drawingRegion: THREE.Box2 = new THREE.Box2(); // The area covered by the drawing texture, in NDC
+        private _drawingScreenToUv: THREE.Vector4 = new THREE.Vector4(0.5, 0.5, 0.5, 0.5);
+        private _drawingScreenOffset: THREE.Vector2 = new THREE.Vector2(); // Pixel position of the screen's top-left corner
         private _affectedFaces: AffectedFacesRecorder;
         private _prePos: THREE.Vector2 = new THREE.Vector2();
         private _preIndex: number = 0;
         private _isFloodFillEmpty: Uint8Array;
         private _isFloodFill: Uint8Array;
-        private _nAdjacentFaces: Uint8Array;
+        private _isOnStrokeSurface: Uint8Array; // Faces reachable from where the stroke started without crossing a crease
         private _AdjacentFacesList: Uint32Array[];
-        private _backgroundSinglePixelCanvas = <HTMLCanvasElement>document.createElement('canvas');
+        private _isAdjacencyReady = false;
+        private _cancelAdjacency: () => void;
+        private _history: EditHistory = new EditHistory(50);
         backgroundColor: string = '#FFFFFF';
 
+        get historyLimit(): number {
+            return this._history.limit;
+        }
+
+        set historyLimit(value: number) {
+            this._history.limit = value;
+        }
+
+        get canUndo(): boolean {
+            return this._history.canUndo;
+        }
+
+        get canRedo(): boolean {
+            return this._history.canRedo;
+        }
+
         get drawingContext() {
             return this._drawingCanvas.getContext('2d');
         }
@@ -86,6 +240,19 @@ module Chameleon {
             return this._drawingCanvas;
         }
 
+        /**
+         * The drawing texture may extend beyond the screen, so that faces partly outside of it can still be painted.
+         * This is the largest width or height it may grow to.
+         */
+        maxDrawingTextureSize: number = 4096;
+
+        /**
+         * Converts a position on the screen canvas to a position on the drawing canvas
+         */
+        toDrawingPosition(screenPos: THREE.Vector2): THREE.Vector2 {
+            return screenPos.clone().add(this._drawingScreenOffset);
+        }
+
         get geometry() {
             return this._mesh.geometry;
         }
@@ -94,14 +261,108 @@ module Chameleon {
             return this._packedTextureCanvas;
         }
 
+        get packedTextureUvs(): THREE.Vector2[][] {
+            return this._packedTextureUvs;
+        }
+
+        private _packingEfficiency: number = 0;
+
+        /**
+         * The fraction of the packed texture covered by patches, as of when it was last packed
+         */
+        get packingEfficiency(): number {
+            return this._packingEfficiency;
+        }
+
+        /**
+         * The UVs that the model came with, or null if it had none
+         */
+        get originalUvs(): THREE.Vector2[][] {
+            return this._originalUvs;
+        }
+
+        private _creaseAngle: number = 90;
+        private _creaseCosine: number = 0;
+
+        /**
+         * Brush strokes do not spread across an edge where the normals of the adjacent faces differ by more than this
+         * angle (in degrees). 180 lets strokes spread across any edge.
+         */
+        get creaseAngle(): number {
+            return this._creaseAngle;
+        }
+
+        set creaseAngle(value: number) {
+            this._creaseAngle = value;
+            this._creaseCosine = Math.cos(value / 180 * Math.PI);
+        }
+
+        /**
+         * Keep a stroke on the surface it started on, i.e. the faces reachable from there without crossing a crease.
+         * Where the brush moves across another surface in front of it, neither surface is painted.
+         */
+        stayOnSurface: boolean = true;
+
+        private _packingPadding: number = 0;
+
+        /**
+         * Space in pixels that the packed texture leaves free around each patch
+         */
+        get packingPadding(): number {
+            return this._packingPadding;
+        }
+
+        set packingPadding(value: number) {
+            if (this._packingPadding !== value) {
+                // The packed texture is laid out again the next time it is used
+                this.useViewingTexture();
+                this._packingPadding = value;
+            }
+        }
+
+        /**
+         * Whether face adjacency, which brush strokes need in order to spread across faces, has been computed
+         */
+        get isReady(): boolean {
+            return this._isAdjacencyReady;
+        }
+
+        /**
+         * Stops any preparation work still running in the background
+         */
+        dispose() {
+            this._cancelAdjacency();
+        }
+
+        get camera(): THREE.Camera {
+            return this._camera;
+        }
+
+        /**
+         * Can be either an OrthographicCamera or a PerspectiveCamera
+         */
+        set camera(value: THREE.Camera) {
+            if (this._camera !== value) {
+                // The drawing texture is only valid for the camera it was generated with
+                this.useViewingTexture();
+                this._camera = value;
+            }
+        }
+
         useViewingTexture(): TextureManager {
             if (this._textureInUse !== TextureInUse.Viewing) {
                 if (this._textureInUse === TextureInUse.Drawing) {
                     this._updateViewingFromDrawingTexture();
                 }
 
+                var wasDrawing = (this._textureInUse === TextureInUse.Drawing);
                 this._applyViewingTexture();
                 this._textureInUse = TextureInUse.Viewing;
+
+                if (wasDrawing && this.compactionThreshold > 0 &&
+                    this._collectPatchMaterials(true).length > this.compactionThreshold) {
+                    this.compact();
+                }
             }
 
             return this;
@@ -125,45 +386,1060 @@ module Chameleon {
             return this;
         }
 
+        /**
+         * Fills the bottom layer with the background color and clears the layers above it
+         */
         backgroundReset() {
             this.useViewingTexture();
 
-            var context = this._backgroundSinglePixelCanvas.getContext('2d');
-            context.beginPath();
-            context.fillStyle = this.backgroundColor;
-            context.fillRect(0, 0, 1, 1);
+            var faceIndices = this._allFaceIndices();
+
+            // A new material is created instead of repainting the old one, so that undoing the reset
+            // brings back faces that still showed the previous background color
+            this._viewingBackgroundMaterial = this._createBackgroundMaterial();
+            var edits = this._layers.map((layer, layerIndex) => {
+                var before = this._snapshotFaces(layer, faceIndices);
+                var material = (layerIndex === 0) ? this._viewingBackgroundMaterial : this._transparentMaterial;
+                for (var i = 0; i < this.geometry.faces.length; i += 1) {
+                    layer.material.materials[i] = material;
+                    for (var j = 0; j < layer.uvs[i].length; j += 1) {
+                        layer.uvs[i][j].set(0.5, 0.5);
+                    }
+                }
+                return new PatchEdit(layer, faceIndices, before, this._snapshotFaces(layer, faceIndices));
+            });
+            this._compositeFaces(faceIndices);
 
-            this._viewingBackgroundMaterial.map.needsUpdate = true;
+            this._history.push(edits);
+        }
 
-            for (var i = 0; i < this.geometry.faces.length; i += 1) {
-                this._viewingMaterial.materials[i] = this._viewingBackgroundMaterial;
-                for (var j = 0; j < this._viewingTextureUvs[i].length; j += 1) {
-                    this._viewingTextureUvs[i][j].set(0.5, 0.5);
+        undo(): boolean {
+            this.useViewingTexture();
+
+            var edits = this._history.undo();
+            if (!edits) {
+                return false;
+            }
+
+            for (var i = edits.length - 1; i >= 0; i -= 1) {
+                this._restoreFaces(edits[i].layer, edits[i].faceIndices, edits[i].before);
+            }
+            return true;
+        }
+
+        redo(): boolean {
+            this.useViewingTexture();
+
+            var edits = this._history.redo();
+            if (!edits) {
+                return false;
+            }
+
+            for (var i = 0; i < edits.length; i += 1) {
+                this._restoreFaces(edits[i].layer, edits[i].faceIndices, edits[i].after);
+            }
+            return true;
+        }
+
+        clearHistory() {
+            this._history.clear();
+        }
+
+        /**
+         * Makes the changes until endEditGroup a single step of the history
+         */
+        beginEditGroup() {
+            this._history.beginGroup();
+        }
+
+        endEditGroup() {
+            this._history.endGroup();
+        }
+
+        /**
+         * The paint layers, from bottom to top. Change them through the methods below, which keep the viewing texture
+         * up to date.
+         */
+        get layers(): PaintLayer[] {
+            return this._layers.slice();
+        }
+
+        get activeLayer(): PaintLayer {
+            return this._layers[this._activeLayerIndex];
+        }
+
+        get activeLayerIndex(): number {
+            return this._activeLayerIndex;
+        }
+
+        /**
+         * Brush strokes go into the active layer
+         */
+        set activeLayerIndex(value: number) {
+            console.assert(0 <= value && value < this._layers.length);
+            if (this._activeLayerIndex !== value) {
+                // The drawing texture only holds the active layer
+                this.useViewingTexture();
+                this._activeLayerIndex = value;
+            }
+        }
+
+        /**
+         * Whether brush strokes can go into the active layer, which they cannot when it is hidden or locked
+         */
+        get canPaint(): boolean {
+            return this.activeLayer.visible && !this.activeLayer.locked;
+        }
+
+        /**
+         * Adds an empty layer above the active one, and makes it the active layer
+         * @returns the index of the new layer
+         */
+        addLayer(name?: string): number {
+            this.useViewingTexture();
+
+            var layer = new PaintLayer(
+                name || this._nextLayerName(), this.geometry.faces.length, this._transparentMaterial
+            );
+            this._activeLayerIndex += 1;
+            this._layers.splice(this._activeLayerIndex, 0, layer);
+            this._compositeFaces(this._allFaceIndices());
+
+            return this._activeLayerIndex;
+        }
+
+        /**
+         * Removes a layer, unless it is the only one. Edits of the removed layer could no longer be undone,
+         * so this clears the history.
+         */
+        removeLayer(index: number): boolean {
+            if (this._layers.length <= 1) {
+                return false;
+            }
+
+            this.useViewingTexture();
+
+            this._layers.splice(index, 1);
+            if (this._activeLayerIndex > index || (this._activeLayerIndex === index && index > 0)) {
+                this._activeLayerIndex -= 1;
+            }
+            this._history.clear();
+            this._compositeFaces(this._allFaceIndices());
+
+            return true;
+        }
+
+        /**
+         * Moves a layer up or down the stack. The active layer stays active.
+         */
+        moveLayer(index: number, newIndex: number) {
+            console.assert(0 <= newIndex && newIndex < this._layers.length);
+            if (index === newIndex) {
+                return;
+            }
+
+            this.useViewingTexture();
+
+            var activeLayer = this.activeLayer;
+            var layer = this._layers.splice(index, 1)[0];
+            this._layers.splice(newIndex, 0, layer);
+            this._activeLayerIndex = this._layers.indexOf(activeLayer);
+            this._compositeFaces(this._allFaceIndices());
+        }
+
+        updateLayer(index: number, properties: LayerProperties) {
+            this.useViewingTexture();
+
+            this._layers[index].setProperties(properties);
+            if (properties.visible !== undefined ||
+                properties.opacity !== undefined ||
+                properties.blendMode !== undefined) {
+                this._compositeFaces(this._allFaceIndices());
+            }
+        }
+
+        /**
+         * The paint layers in a form that can be saved, together with the patch images that they refer to
+         */
+        saveLayers(): {layers: SavedLayer[]; patches: HTMLCanvasElement[]} {
+            this.useViewingTexture();
+
+            var patches: HTMLCanvasElement[] = [];
+            var patchIndexOfMaterial: {[materialId: number]: number} = {};
+            var nFaces = this.geometry.faces.length;
+
+            var layers = this._layers.map((layer) => {
+                var patchIndices: number[] = new Array(nFaces),
+                    uvs: number[] = new Array(nFaces * 6);
+
+                for (var i = 0; i < nFaces; i += 1) {
+                    var material = <THREE.MeshLambertMaterial>layer.material.materials[i];
+                    if (material === this._transparentMaterial) {
+                        patchIndices[i] = -1;
+                    } else {
+                        if (!(material.id in patchIndexOfMaterial)) {
+                            patchIndexOfMaterial[material.id] = patches.length;
+                            patches.push(<HTMLCanvasElement>material.map.image);
+                        }
+                        patchIndices[i] = patchIndexOfMaterial[material.id];
+                    }
+
+                    for (var j = 0; j < 3; j += 1) {
+                        uvs[i * 6 + j * 2] = layer.uvs[i][j].x;
+                        uvs[i * 6 + j * 2 + 1] = layer.uvs[i][j].y;
+                    }
+                }
+
+                return {
+                    name: layer.name,
+                    visible: layer.visible,
+                    locked: layer.locked,
+                    opacity: layer.opacity,
+                    blendMode: layer.blendMode,
+                    patchIndices: patchIndices,
+                    uvs: uvs
+                };
+            });
+
+            return {layers: layers, patches: patches};
+        }
+
+        /**
+         * Replaces the paint layers with saved ones. This clears the history.
+         */
+        loadLayers(layers: SavedLayer[], patches: HTMLCanvasElement[], activeLayerIndex: number) {
+            this.useViewingTexture();
+
+            var materials = patches.map(createPatchMaterial);
+            var nFaces = this.geometry.faces.length;
+
+            this._layers = layers.map((savedLayer) => {
+                var layer = new PaintLayer(savedLayer.name, nFaces, this._transparentMaterial);
+                layer.setProperties(savedLayer);
+
+                for (var i = 0; i < nFaces; i += 1) {
+                    if (savedLayer.patchIndices[i] >= 0) {
+                        layer.material.materials[i] = materials[savedLayer.patchIndices[i]];
+                    }
+                    for (var j = 0; j < 3; j += 1) {
+                        layer.uvs[i][j].set(savedLayer.uvs[i * 6 + j * 2], savedLayer.uvs[i * 6 + j * 2 + 1]);
+                    }
+                }
+
+                return layer;
+            });
+            this._activeLayerIndex = activeLayerIndex;
+            this._nextLayerNumber = this._layers.length + 1;
+
+            this._history.clear();
+            this._compositeFaces(this._allFaceIndices());
+        }
+
+        private _nextLayerName(): string {
+            var name = 'Layer ' + this._nextLayerNumber;
+            this._nextLayerNumber += 1;
+            return name;
+        }
+
+        private _allFaceIndices(): number[] {
+            var faceIndices: number[] = new Array(this.geometry.faces.length);
+            for (var i = 0; i < faceIndices.length; i += 1) {
+                faceIndices[i] = i;
+            }
+            return faceIndices;
+        }
+
+        private _snapshotFaces(layer: PaintLayer, faceIndices: number[]): FacePatchSnapshot {
+            var snapshot = new FacePatchSnapshot(faceIndices.length);
+            for (var i = 0; i < faceIndices.length; i += 1) {
+                var faceIndex = faceIndices[i];
+                snapshot.materials[i] = layer.material.materials[faceIndex];
+
+                var layerUvs = layer.uvs[faceIndex];
+                for (var j = 0; j < 3; j += 1) {
+                    snapshot.uvs[i * 6 + j * 2] = layerUvs[j].x;
+                    snapshot.uvs[i * 6 + j * 2 + 1] = layerUvs[j].y;
+                }
+            }
+
+            return snapshot;
+        }
+
+        private _restoreFaces(layer: PaintLayer, faceIndices: number[], snapshot: FacePatchSnapshot) {
+            console.assert(this._textureInUse === TextureInUse.Viewing);
+
+            for (var i = 0; i < faceIndices.length; i += 1) {
+                var faceIndex = faceIndices[i];
+                layer.material.materials[faceIndex] = snapshot.materials[i];
+
+                var layerUvs = layer.uvs[faceIndex];
+                for (var j = 0; j < 3; j += 1) {
+                    layerUvs[j].set(snapshot.uvs[i * 6 + j * 2], snapshot.uvs[i * 6 + j * 2 + 1]);
                 }
             }
+
+            this._compositeFaces(faceIndices);
+        }
+
+        /**
+         * The face under a position on the drawing canvas, or -1. The drawing texture must be in use.
+         */
+        faceIndexAt(drawingPos: THREE.Vector2): number {
+            console.assert(this._textureInUse === TextureInUse.Drawing);
+            var intersections = this._castRayFromMouse(drawingPos);
+            return (intersections.length > 0) ? intersections[0].faceIndex : -1;
+        }
+
+        /**
+         * The color that the model shows at a position on the drawing canvas, as a CSS hex color, or null where there
+         * is no face or no paint. It is read from the patches of the viewing texture, so the drawing texture must be in
+         * use but not painted on.
+         */
+        colorAt(drawingPos: THREE.Vector2): string {
+            console.assert(this._textureInUse === TextureInUse.Drawing);
+            var intersections = this._castRayFromMouse(drawingPos);
+            if (intersections.length === 0) {
+                return null;
+            }
+
+            var faceIndex = intersections[0].faceIndex;
+            var face = this.geometry.faces[faceIndex], vertices = this.geometry.vertices;
+            var barycoord = THREE.Triangle.barycoordFromPoint(
+                intersections[0].point, vertices[face.a], vertices[face.b], vertices[face.c], new THREE.Vector3()
+            );
+
+            var material = <THREE.MeshLambertMaterial>this._viewingMaterial.materials[faceIndex];
+            var image = <HTMLCanvasElement>material.map.image;
+            var triangle = patchTriangle(image, this._viewingTextureUvs[faceIndex]);
+            var x = triangle[0] * barycoord.x + triangle[2] * barycoord.y + triangle[4] * barycoord.z,
+                y = triangle[1] * barycoord.x + triangle[3] * barycoord.y + triangle[5] * barycoord.z;
+            x = Math.min(Math.max(Math.floor(x), 0), image.width - 1);
+            y = Math.min(Math.max(Math.floor(y), 0), image.height - 1);
+
+            var pixel = image.getContext('2d').getImageData(x, y, 1, 1).data;
+            if (pixel[3] === 0) {
+                return null;
+            }
+            return '#' + new THREE.Color(pixel[0] / 255, pixel[1] / 255, pixel[2] / 255).getHexString();
         }
 
-        private _initializeViewingTexture(): TextureManager {
-            this._backgroundSinglePixelCanvas.width = this._backgroundSinglePixelCanvas.height = 1;
-            var context = this._backgroundSinglePixelCanvas.getContext('2d');
+        /**
+         * Fills a face and the faces connected to it in the active layer, as a single step of the history. Faces that
+         * face away from the camera or are off the screen are filled as well.
+         *
+         * @returns the number of faces filled
+         */
+        fill(faceIndex: number, options: FillOptions): number {
+            this.useViewingTexture();
+
+            var layer = this.activeLayer;
+            var faceIndices = this._findFillRegion(layer, faceIndex, options);
+            var before = this._snapshotFaces(layer, faceIndices);
+
+            if (options.pattern) {
+                this._fillWithPattern(layer, faceIndices, options.pattern, options.patternScale || 1);
+            } else {
+                var material = this._createSolidMaterial(options.color || '#000000');
+                faceIndices.forEach((faceIndex) => {
+                    layer.material.materials[faceIndex] = material;
+                    layer.uvs[faceIndex].forEach((uv) => uv.set(0.5, 0.5));
+                });
+            }
+
+            this._history.push([new PatchEdit(layer, faceIndices, before, this._snapshotFaces(layer, faceIndices))]);
+            this._compositeFaces(faceIndices);
+            return faceIndices.length;
+        }
+
+        // Until the adjacency of faces is known, only the clicked face is filled
+        private _findFillRegion(layer: PaintLayer, startFaceIndex: number, options: FillOptions): number[] {
+            var creaseCosine = (options.creaseAngle === undefined) ?
+                -Infinity : Math.cos(options.creaseAngle * Math.PI / 180);
+
+            var groupStart = 0, groupEnd = this.geometry.faces.length;
+            (options.faceGroups || []).forEach((faceGroup) => {
+                if (faceGroup.start <= startFaceIndex && startFaceIndex < faceGroup.start + faceGroup.count) {
+                    groupStart = faceGroup.start;
+                    groupEnd = faceGroup.start + faceGroup.count;
+                }
+            });
+
+            var isSimilar = (faceIndex: number) => true;
+            if (options.tolerance !== undefined) {
+                var faceColor = this._faceColorSampler(layer);
+                var startColor = faceColor(startFaceIndex);
+                isSimilar = (faceIndex: number) => {
+                    var color = faceColor(faceIndex);
+                    for (var c = 0; c < 4; c += 1) {
+                        if (Math.abs(color[c] - startColor[c]) > options.tolerance * 255) {
+                            return false;
+                        }
+                    }
+                    return true;
+                };
+            }
+
+            this._isFloodFill.set(this._isFloodFillEmpty);
+            this._isFloodFill[startFaceIndex] = 1;
+            var faceIndices = [startFaceIndex];
+            for (var i = 0; i < faceIndices.length; i += 1) {
+                var faceIndex = faceIndices[i];
+                var normal = this.geometry.faces[faceIndex].normal;
+                var adjacentFaces = this._AdjacentFacesList[faceIndex];
+                for (var j = 0; j < adjacentFaces.length; j += 1) {
+                    var adjacentFaceIndex = adjacentFaces[j];
+                    if (this._isFloodFill[adjacentFaceIndex] ||
+                        adjacentFaceIndex < groupStart || adjacentFaceIndex >= groupEnd ||
+                        normal.dot(this.geometry.faces[adjacentFaceIndex].normal) < creaseCosine ||
+                        !isSimilar(adjacentFaceIndex)) {
+                        continue;
+                    }
+                    this._isFloodFill[adjacentFaceIndex] = 1;
+                    faceIndices.push(adjacentFaceIndex);
+                }
+            }
+
+            return faceIndices;
+        }
+
+        /**
+         * Returns a function that gives the average RGBA color of a face in a layer, from a few points on its patch
+         */
+        private _faceColorSampler(layer: PaintLayer): (faceIndex: number) => Float32Array {
+            var imageData: {[materialId: number]: ImageData} = {};
+            var sample = new Float32Array(4);
+
+            return (faceIndex: number) => {
+                var material = <THREE.MeshLambertMaterial>layer.material.materials[faceIndex];
+                var image = <HTMLCanvasElement>material.map.image;
+                if (!imageData[material.id]) {
+                    imageData[material.id] = image.getContext('2d').getImageData(0, 0, image.width, image.height);
+                }
+
+                // The centroid, and the points halfway from it to each vertex
+                var triangle = patchTriangle(image, layer.uvs[faceIndex]);
+                var centerX = (triangle[0] + triangle[2] + triangle[4]) / 3,
+                    centerY = (triangle[1] + triangle[3] + triangle[5]) / 3;
+                var color = new Float32Array(4);
+                for (var j = 0; j < 4; j += 1) {
+                    var x = (j < 3) ? (centerX + triangle[j * 2]) / 2 : centerX,
+                        y = (j < 3) ? (centerY + triangle[j * 2 + 1]) / 2 : centerY;
+                    sampleBilinear(imageData[material.id], x, y, sample);
+                    for (var c = 0; c < 4; c += 1) {
+                        color[c] += sample[c] / 4;
+                    }
+                }
+                return color;
+            };
+        }
+
+        /**
+         * Gives the faces a patch of their own, with each face projected onto an axis-aligned plane and covered by the
+         * repeated pattern
+         */
+        private _fillWithPattern(layer: PaintLayer,
+                                 faceIndices: number[],
+                                 pattern: HTMLCanvasElement,
+                                 patternScale: number) {
+            var faces = this.geometry.faces, vertices = this.geometry.vertices;
+            var planeTriangles = faceIndices.map((faceIndex) => {
+                var face = faces[faceIndex];
+                var nx = Math.abs(face.normal.x), ny = Math.abs(face.normal.y), nz = Math.abs(face.normal.z);
+                var triangle: number[] = [];
+                [face.a, face.b, face.c].forEach((vertexIndex) => {
+                    var vertex = vertices[vertexIndex];
+                    if (nx >= ny && nx >= nz) {
+                        triangle.push(vertex.z, -vertex.y);
+                    } else if (ny >= nz) {
+                        triangle.push(vertex.x, vertex.z);
+                    } else {
+                        triangle.push(vertex.x, -vertex.y);
+                    }
+                });
+                return triangle;
+            });
+
+            // Pixels of the pattern per model unit, lowered until the patch fits into the largest size allowed.
+            // The margins around the faces do not shrink, so it may take a few tries, and after the last one the patch
+            // is used even if it is larger.
+            var pixelsPerUnit = pattern.width / patternScale;
+            for (var attempt = 0; attempt < 8; attempt += 1) {
+                var boxes = planeTriangles.map((triangle) => {
+                    var xs = [triangle[0], triangle[2], triangle[4]].map((x) => x * pixelsPerUnit),
+                        ys = [triangle[1], triangle[3], triangle[5]].map((y) => y * pixelsPerUnit);
+                    // With a pixel of margin, which filtering reaches into
+                    var x = Math.floor(Math.min.apply(Math, xs)) - 1, y = Math.floor(Math.min.apply(Math, ys)) - 1;
+                    return {
+                        x: x,
+                        y: y,
+                        width: Math.ceil(Math.max.apply(Math, xs)) + 1 - x,
+                        height: Math.ceil(Math.max.apply(Math, ys)) + 1 - y
+                    };
+                });
+                var packing = packRectsOnShelves(boxes);
+                if (packing.size <= this.maxDrawingTextureSize) {
+                    break;
+                }
+                pixelsPerUnit *= this.maxDrawingTextureSize / packing.size * 0.95;
+            }
+
+            var patchCanvas = <HTMLCanvasElement>document.createElement('canvas');
+            patchCanvas.width = patchCanvas.height = packing.size;
+            var patchContext = patchCanvas.getContext('2d');
+            patchContext.fillStyle = patchContext.createPattern(pattern, 'repeat');
+            // The pattern repeats from the origin of the plane, so faces on the same plane continue each other's pattern
+            var patternToPatch = pixelsPerUnit * patternScale / pattern.width;
+
+            var patchMaterial = createPatchMaterial(patchCanvas);
+            faceIndices.forEach((faceIndex, i) => {
+                var box = boxes[i], rect = packing.rects[i];
+                patchContext.save();
+                patchContext.translate(rect.x - box.x, rect.y - box.y);
+                patchContext.scale(patternToPatch, patternToPatch);
+                patchContext.fillRect(
+                    box.x / patternToPatch, box.y / patternToPatch, box.width / patternToPatch, box.height / patternToPatch
+                );
+                patchContext.restore();
+
+                layer.material.materials[faceIndex] = patchMaterial;
+                for (var j = 0; j < 3; j += 1) {
+                    layer.uvs[faceIndex][j].set(
+                        (rect.x - box.x + planeTriangles[i][j * 2] * pixelsPerUnit) / packing.size,
+                        1 - (rect.y - box.y + planeTriangles[i][j * 2 + 1] * pixelsPerUnit) / packing.size
+                    );
+                }
+            });
+        }
+
+        /**
+         * Paints an image laid over the screen onto the faces that show under it, in the active layer, as a single step
+         * of the history
+         *
+         * @param image of the same size as the screen canvas
+         * @returns the number of faces painted
+         */
+        projectImage(image: HTMLCanvasElement, options: ProjectionOptions = {}): number {
+            this.useViewingTexture();
+            this.useDrawingTexture();
+
+            var width = this._drawingCanvas.width, height = this._drawingCanvas.height;
+            var faceIds = this._renderFaceIds();
+            var minCosine = Math.cos((options.maxAngle === undefined ? 90 : options.maxAngle) * Math.PI / 180);
+            var isTowardCamera = new Int8Array(this.geometry.faces.length); // 0 while unknown, 1 if so, -1 if not
+
+            var projectedCanvas = <HTMLCanvasElement>document.createElement('canvas');
+            projectedCanvas.width = width;
+            projectedCanvas.height = height;
+            var projectedContext = projectedCanvas.getContext('2d');
+            projectedContext.drawImage(image, this._drawingScreenOffset.x, this._drawingScreenOffset.y);
+            var projected = projectedContext.getImageData(0, 0, width, height);
+
+            // Only the pixels of the faces that are painted are kept
+            for (var i = 0; i < faceIds.length; i += 1) {
+                var faceIndex = faceIds[i] - 1;
+                if (projected.data[i * 4 + 3] === 0) {
+                    continue;
+                }
+                if (faceIndex < 0 || faceIndex >= isTowardCamera.length ||
+                    !this._isFaceSeenAt(faceIndex, i % width, Math.floor(i / width))) {
+                    projected.data[i * 4 + 3] = 0;
+                    continue;
+                }
+
+                if (isTowardCamera[faceIndex] === 0) {
+                    isTowardCamera[faceIndex] = (this._cosineToCamera(faceIndex) >= minCosine) ? 1 : -1;
+                }
+                if (isTowardCamera[faceIndex] < 0) {
+                    projected.data[i * 4 + 3] = 0;
+                } else {
+                    this._affectedFaces.add(faceIndex);
+                }
+            }
+            projectedContext.putImageData(projected, 0, 0);
+
+            var context = this.drawingContext;
+            context.save();
+            context.globalAlpha = (options.opacity === undefined) ? 1 : options.opacity;
+            context.drawImage(projectedCanvas, 0, 0);
+            context.restore();
+
+            var nFaces = this._affectedFaces.length;
+            this.useViewingTexture();
+            return nFaces;
+        }
+
+        /**
+         * Whether a pixel of the drawing canvas is close to the triangle of a face, which rules out the faces that the
+         * mixed colors at the edges of faces in _renderFaceIds happen to stand for
+         */
+        private _isFaceSeenAt(faceIndex: number, x: number, y: number): boolean {
+            var uvs = this._drawingTextureUvs[faceIndex];
+            var width = this._drawingCanvas.width, height = this._drawingCanvas.height;
+            var xs = [uvs[0].x * width, uvs[1].x * width, uvs[2].x * width],
+                ys = [(1 - uvs[0].y) * height, (1 - uvs[1].y) * height, (1 - uvs[2].y) * height];
+            return Math.min(xs[0], xs[1], xs[2]) - 2 <= x && x <= Math.max(xs[0], xs[1], xs[2]) + 2 &&
+                Math.min(ys[0], ys[1], ys[2]) - 2 <= y && y <= Math.max(ys[0], ys[1], ys[2]) + 2;
+        }
+
+        /**
+         * Patches are compacted into pages of up to this many pixels across
+         */
+        compactionPageSize: number = 2048;
+
+        /**
+         * Patches are compacted automatically once there are more than this many that can be. 0 turns this off.
+         */
+        compactionThreshold: number = 64;
+
+        /**
+         * Redraws the patches that the layers, the viewing texture and the history refer to into a few large pages.
+         * This frees the many small canvases and materials that painting piles up. Patches larger than a quarter of a
+         * page are left as they are.
+         */
+        compact() {
+            this.useViewingTexture();
+
+            var materials = this._collectPatchMaterials(true);
+            if (materials.length < 2) {
+                return;
+            }
+
+            // Around each patch, filled with its edge pixels, so that filtering does not pick up the patches next to it
+            var padding = 2;
+            var images = materials.map((material) => <HTMLCanvasElement>material.map.image);
+            var packing = packRectsIntoPages(images.map((image) => ({
+                width: image.width + 2 * padding,
+                height: image.height + 2 * padding
+            })), this.compactionPageSize);
+
+            var pages = packing.pages.map((page) => {
+                var canvas = <HTMLCanvasElement>document.createElement('canvas');
+                canvas.width = page.width;
+                canvas.height = page.height;
+                return canvas;
+            });
+            var movedPatches: {[materialId: number]: {material: THREE.Material; x: number; y: number; width: number;
+                height: number; pageWidth: number; pageHeight: number}} = {};
+            var pageMaterials: THREE.Material[] = [];
+
+            materials.forEach((material, i) => {
+                var image = images[i], rect = packing.rects[i], page = pages[rect.page];
+                var x = rect.x + padding, y = rect.y + padding;
+
+                var context = page.getContext('2d');
+                context.save();
+                context.beginPath();
+                context.rect(rect.x, rect.y, image.width + 2 * padding, image.height + 2 * padding);
+                context.clip();
+                // Copies shifted outwards, the nearest last, extend the edge pixels into the gutter
+                for (var d = padding; d > 0; d -= 1) {
+                    for (var dx = -d; dx <= d; dx += d) {
+                        for (var dy = -d; dy <= d; dy += d) {
+                            context.drawImage(image, x + dx, y + dy);
+                        }
+                    }
+                }
+                context.clearRect(x, y, image.width, image.height);
+                context.drawImage(image, x, y);
+                context.restore();
+
+                if (!pageMaterials[rect.page]) {
+                    pageMaterials[rect.page] = createPatchMaterial(page);
+                }
+                movedPatches[material.id] = {
+                    material: pageMaterials[rect.page],
+                    x: x,
+                    y: y,
+                    width: image.width,
+                    height: image.height,
+                    pageWidth: page.width,
+                    pageHeight: page.height
+                };
+            });
+
+            // Patches are clamped to their edges, so UVs beyond them are too
+            var moveUv = (materialId: number, uv: THREE.Vector2) => {
+                var moved = movedPatches[materialId];
+                var u = Math.min(Math.max(uv.x, 0), 1),
+                    v = Math.min(Math.max(uv.y, 0), 1);
+                uv.set(
+                    (moved.x + u * moved.width) / moved.pageWidth,
+                    1 - (moved.y + (1 - v) * moved.height) / moved.pageHeight
+                );
+            };
+
+            var faceMaterialsAndUvs = this._layers.map((layer) => ({materials: layer.material.materials, uvs: layer.uvs}));
+            faceMaterialsAndUvs.push({materials: this._viewingMaterial.materials, uvs: this._viewingTextureUvs});
+            faceMaterialsAndUvs.forEach((faces) => {
+                for (var faceIndex = 0; faceIndex < faces.materials.length; faceIndex += 1) {
+                    var materialId = faces.materials[faceIndex].id;
+                    if (materialId in movedPatches) {
+                        faces.materials[faceIndex] = movedPatches[materialId].material;
+                        faces.uvs[faceIndex].forEach((uv) => moveUv(materialId, uv));
+                    }
+                }
+            });
+
+            var uv = new THREE.Vector2();
+            this._history.forEachEdit((edit) => [edit.before, edit.after].forEach((snapshot) => {
+                for (var i = 0; i < snapshot.materials.length; i += 1) {
+                    var materialId = snapshot.materials[i].id;
+                    if (materialId in movedPatches) {
+                        snapshot.materials[i] = movedPatches[materialId].material;
+                        for (var k = i * 6; k < i * 6 + 6; k += 2) {
+                            moveUv(materialId, uv.set(snapshot.uvs[k], snapshot.uvs[k + 1]));
+                            snapshot.uvs[k] = uv.x;
+                            snapshot.uvs[k + 1] = uv.y;
+                        }
+                    }
+                }
+            }));
+
+            if (this._viewingBackgroundMaterial.id in movedPatches) {
+                this._viewingBackgroundMaterial = <THREE.MeshLambertMaterial>(
+                    movedPatches[this._viewingBackgroundMaterial.id].material
+                );
+            }
+
+            // Nothing refers to the old patches any more
+            materials.forEach((material) => {
+                material.map.dispose();
+                material.dispose();
+            });
+            this.geometry.uvsNeedUpdate = true;
+            this._updateRenderGroups();
+        }
+
+        /**
+         * The distinct patch materials that the layers, the viewing texture and the history refer to
+         * @param compactibleOnly leave out the patches that compact leaves as they are
+         */
+        private _collectPatchMaterials(compactibleOnly: boolean = false): THREE.MeshLambertMaterial[] {
+            var materials: THREE.MeshLambertMaterial[] = [];
+            var isCollected: {[materialId: number]: boolean} = {};
+            isCollected[this._transparentMaterial.id] = true;
+
+            var collect = (material: THREE.Material) => {
+                if (isCollected[material.id]) {
+                    return;
+                }
+                isCollected[material.id] = true;
+
+                var image = <HTMLCanvasElement>(<THREE.MeshLambertMaterial>material).map.image;
+                if (!compactibleOnly ||
+                    (image.width <= this.compactionPageSize / 2 && image.height <= this.compactionPageSize / 2)) {
+                    materials.push(<THREE.MeshLambertMaterial>material);
+                }
+            };
+
+            this._layers.forEach((layer) => layer.material.materials.forEach(collect));
+            this._viewingMaterial.materials.forEach(collect);
+            this._history.forEachEdit((edit) => {
+                edit.before.materials.forEach(collect);
+                edit.after.materials.forEach(collect);
+            });
+
+            return materials;
+        }
+
+        /**
+         * Updates the viewing texture of the given faces to show the composite of the visible layers over the
+         * background color
+         */
+        private _compositeFaces(faceIndices: number[]) {
+            var visibleLayers = this._layers.filter((layer) => layer.visible && layer.opacity > 0);
+
+            // Faces whose patches come from the same materials in every layer are composited together
+            var groups: {[key: string]: number[]} = Object.create(null);
+            for (var i = 0; i < faceIndices.length; i += 1) {
+                var faceIndex = faceIndices[i];
+                var key = visibleLayers.map((layer) => layer.material.materials[faceIndex].id).join(',');
+                if (!groups[key]) {
+                    groups[key] = [];
+                }
+                groups[key].push(faceIndex);
+            }
+
+            for (var groupKey in groups) {
+                var groupFaceIndices = groups[groupKey];
+                var groupLayers = visibleLayers.filter(
+                    (layer) => layer.material.materials[groupFaceIndices[0]] !== this._transparentMaterial
+                );
+
+                if (groupLayers.length === 1 && groupLayers[0] === this._layers[0] && groupLayers[0].isPlain) {
+                    // Only the bottom layer, which is opaque, shows on these faces, so its patch can be used as is
+                    this._copyFacesFromLayer(groupLayers[0], groupFaceIndices);
+                } else {
+                    this._compositeFaceGroup(groupLayers, groupFaceIndices);
+                }
+            }
+
+            this.geometry.uvsNeedUpdate = true;
+            this._updateRenderGroups();
+        }
+
+        /**
+         * Groups the faces by their materials in the viewing texture and in every layer, and gives the viewing texture
+         * and each layer a material per group to render with
+         */
+        private _updateRenderGroups() {
+            var faces = this.geometry.faces;
+            var groupOfKey: {[key: string]: number} = Object.create(null);
+            var viewingMaterials: THREE.Material[] = [];
+            var layerMaterials: THREE.Material[][] = this._layers.map(() => []);
+            var isRegrouped = false;
+
+            for (var faceIndex = 0; faceIndex < faces.length; faceIndex += 1) {
+                var key = String(this._viewingMaterial.materials[faceIndex].id);
+                for (var i = 0; i < this._layers.length; i += 1) {
+                    key += ',' + this._layers[i].material.materials[faceIndex].id;
+                }
+
+                var group = groupOfKey[key];
+                if (group === undefined) {
+                    group = groupOfKey[key] = viewingMaterials.length;
+                    viewingMaterials.push(this._viewingMaterial.materials[faceIndex]);
+                    for (var i = 0; i < this._layers.length; i += 1) {
+                        layerMaterials[i].push(this._layers[i].material.materials[faceIndex]);
+                    }
+                }
+
+                if (faces[faceIndex].materialIndex !== group) {
+                    faces[faceIndex].materialIndex = group;
+                    isRegrouped = true;
+                }
+            }
+
+            this._viewingRenderMaterial.materials = viewingMaterials;
+            this._layers.forEach((layer, i) => layer.renderMaterial.materials = layerMaterials[i]);
+
+            if (isRegrouped) {
+                this._isMeshRegroupNeeded = this._isDrawingRegroupNeeded = true;
+                this._regroupMeshIfNeeded();
+            }
+        }
+
+        // WebGLRenderer groups the faces again once the geometry is disposed of, which also frees the buffers of the old
+        // groups. The groups only follow the materialIndex of the faces while a MeshFaceMaterial is in use.
+        private _regroupMeshIfNeeded() {
+            if (this._isMeshRegroupNeeded && this._mesh.material === this._viewingRenderMaterial) {
+                this.geometry.dispose();
+                this._isMeshRegroupNeeded = false;
+            }
+        }
+
+        private _copyFacesFromLayer(layer: PaintLayer, faceIndices: number[]) {
+            for (var i = 0; i < faceIndices.length; i += 1) {
+                var faceIndex = faceIndices[i];
+                this._viewingMaterial.materials[faceIndex] = layer.material.materials[faceIndex];
+                for (var j = 0; j < 3; j += 1) {
+                    this._viewingTextureUvs[faceIndex][j].copy(layer.uvs[faceIndex][j]);
+                }
+            }
+        }
+
+        // Assumption: each of the layers uses the same patch for all of the faces
+        private _compositeFaceGroup(layers: PaintLayer[], faceIndices: number[]) {
+            var images = layers.map((layer) => <HTMLCanvasElement>(
+                <THREE.MeshLambertMaterial>layer.material.materials[faceIndices[0]]
+            ).map.image);
+
+            // The composite is laid out like the largest of the patches, so that none of them loses detail
+            var referenceIndex = -1, referenceArea = 1;
+            for (var i = 0; i < images.length; i += 1) {
+                if (images[i].width * images[i].height > referenceArea) {
+                    referenceIndex = i;
+                    referenceArea = images[i].width * images[i].height;
+                }
+            }
+
+            // It only covers the faces, as a patch may also hold other faces, e.g. when it is a page of compacted patches
+            var cropX = 0, cropY = 0, compositeWidth = 1, compositeHeight = 1;
+            var compositeUvs: THREE.Vector2[][];
+            if (referenceIndex >= 0) {
+                var reference = images[referenceIndex],
+                    referenceUvs = layers[referenceIndex].uvs;
+                var xMin = Infinity, yMin = Infinity, xMax = -Infinity, yMax = -Infinity;
+                faceIndices.forEach((faceIndex) => {
+                    var triangle = patchTriangle(reference, referenceUvs[faceIndex]);
+                    for (var j = 0; j < 6; j += 2) {
+                        xMin = Math.min(xMin, triangle[j]);
+                        xMax = Math.max(xMax, triangle[j]);
+                        yMin = Math.min(yMin, triangle[j + 1]);
+                        yMax = Math.max(yMax, triangle[j + 1]);
+                    }
+                });
+
+                // With a pixel of margin, which filtering reaches into
+                cropX = Math.min(Math.max(Math.floor(xMin) - 1, 0), reference.width - 1);
+                cropY = Math.min(Math.max(Math.floor(yMin) - 1, 0), reference.height - 1);
+                compositeWidth = Math.max(Math.min(Math.ceil(xMax) + 1, reference.width) - cropX, 1);
+                compositeHeight = Math.max(Math.min(Math.ceil(yMax) + 1, reference.height) - cropY, 1);
+
+                compositeUvs = faceIndices.map((faceIndex) => referenceUvs[faceIndex].map((uv) => new THREE.Vector2(
+                    (uv.x * reference.width - cropX) / compositeWidth,
+                    1 - ((1 - uv.y) * reference.height - cropY) / compositeHeight
+                )));
+            } else {
+                compositeUvs = faceIndices.map(() => [
+                    new THREE.Vector2(0.5, 0.5),
+                    new THREE.Vector2(0.5, 0.5),
+                    new THREE.Vector2(0.5, 0.5)
+                ]);
+            }
+
+            var compositeCanvas = <HTMLCanvasElement>document.createElement('canvas');
+            compositeCanvas.width = compositeWidth;
+            compositeCanvas.height = compositeHeight;
+            var compositeContext = compositeCanvas.getContext('2d');
+            compositeContext.fillStyle = this.backgroundColor;
+            compositeContext.fillRect(0, 0, compositeCanvas.width, compositeCanvas.height);
+
+            var layerCanvas = <HTMLCanvasElement>document.createElement('canvas');
+            layerCanvas.width = compositeCanvas.width;
+            layerCanvas.height = compositeCanvas.height;
+            var layerContext = layerCanvas.getContext('2d');
+
+            for (var i = 0; i < layers.length; i += 1) {
+                var image = images[i];
+                if (referenceIndex >= 0 && i !== referenceIndex) {
+                    // Lay out the patch like the composite, one face at a time
+                    layerContext.clearRect(0, 0, layerCanvas.width, layerCanvas.height);
+                    for (var j = 0; j < faceIndices.length; j += 1) {
+                        drawTriangle(
+                            layerContext,
+                            image,
+                            patchTriangle(image, layers[i].uvs[faceIndices[j]]),
+                            patchTriangle(compositeCanvas, compositeUvs[j])
+                        );
+                    }
+                    image = layerCanvas;
+                }
+
+                compositeContext.globalAlpha = layers[i].opacity;
+                compositeContext.globalCompositeOperation = layers[i].blendMode;
+                if (i === referenceIndex) {
+                    compositeContext.drawImage(image, -cropX, -cropY);
+                } else {
+                    compositeContext.drawImage(image, 0, 0);
+                }
+            }
+
+            var compositeMaterial = createPatchMaterial(compositeCanvas);
+
+            for (var i = 0; i < faceIndices.length; i += 1) {
+                var faceIndex = faceIndices[i];
+                this._viewingMaterial.materials[faceIndex] = compositeMaterial;
+                for (var j = 0; j < 3; j += 1) {
+                    this._viewingTextureUvs[faceIndex][j].copy(compositeUvs[i][j]);
+                }
+            }
+        }
+
+        /**
+         * Draws a layer on its own, laid out like the packed texture. The packed texture must be in use.
+         */
+        packLayer(index: number): HTMLCanvasElement {
+            console.assert(this._textureInUse === TextureInUse.Packed);
+
+            var layer = this._layers[index];
+            var canvas = <HTMLCanvasElement>document.createElement('canvas');
+            canvas.width = this._packedTextureCanvas.width;
+            canvas.height = this._packedTextureCanvas.height;
+            var context = canvas.getContext('2d');
+
+            for (var faceIndex = 0; faceIndex < this.geometry.faces.length; faceIndex += 1) {
+                var material = <THREE.MeshLambertMaterial>layer.material.materials[faceIndex];
+                if (material === this._transparentMaterial) {
+                    continue;
+                }
+
+                var image = <HTMLCanvasElement>material.map.image;
+                drawTriangle(
+                    context,
+                    image,
+                    patchTriangle(image, layer.uvs[faceIndex]),
+                    patchTriangle(canvas, this._packedTextureUvs[faceIndex])
+                );
+            }
+
+            return canvas;
+        }
+
+        /**
+         * Draws the viewing texture, or a single layer, laid out by the UVs that the model came with.
+         * Each face is moved into the [0, 1] UV square by whole units, so tiled UVs are baked into a single tile.
+         */
+        bakeToOriginalUvs(width: number, height: number, layerIndex?: number): HTMLCanvasElement {
+            console.assert(this._originalUvs !== null);
+            this.useViewingTexture();
+
+            var materials = (layerIndex === undefined) ?
+                this._viewingMaterial.materials : this._layers[layerIndex].material.materials;
+            var uvs = (layerIndex === undefined) ? this._viewingTextureUvs : this._layers[layerIndex].uvs;
+
+            var canvas = <HTMLCanvasElement>document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+            var context = canvas.getContext('2d');
+
+            for (var faceIndex = 0; faceIndex < this.geometry.faces.length; faceIndex += 1) {
+                var material = <THREE.MeshLambertMaterial>materials[faceIndex];
+                if (material === this._transparentMaterial) {
+                    continue;
+                }
+
+                var image = <HTMLCanvasElement>material.map.image;
+                drawTriangle(
+                    context,
+                    image,
+                    patchTriangle(image, uvs[faceIndex]),
+                    patchTriangle(canvas, this._originalUvsInUnitSquare(faceIndex))
+                );
+            }
+
+            return canvas;
+        }
+
+        /**
+         * The original UVs of a face, moved by whole units so that the face starts in the [0, 1] UV square
+         */
+        private _originalUvsInUnitSquare(faceIndex: number): THREE.Vector2[] {
+            var uvs = this._originalUvs[faceIndex];
+            var offset = new THREE.Vector2(
+                Math.floor(Math.min(uvs[0].x, uvs[1].x, uvs[2].x)),
+                Math.floor(Math.min(uvs[0].y, uvs[1].y, uvs[2].y))
+            );
+            return uvs.map((uv) => uv.clone().sub(offset));
+        }
+
+        private _createBackgroundMaterial(): THREE.MeshLambertMaterial {
+            return this._createSolidMaterial(this.backgroundColor);
+        }
+
+        private _createSolidMaterial(color: string): THREE.MeshLambertMaterial {
+            var canvas = <HTMLCanvasElement>document.createElement('canvas');
+            canvas.width = canvas.height = 1;
+            var context = canvas.getContext('2d');
             context.beginPath();
-            context.fillStyle = this.backgroundColor;
+            context.fillStyle = color;
             context.fillRect(0, 0, 1, 1);
 
+            return createPatchMaterial(canvas);
+        }
+
+        /**
+         * @param initialTexture image that the bottom layer starts with, mapped by the original UVs
+         */
+        private _initializeViewingTexture(initialTexture?: HTMLImageElement | HTMLCanvasElement): TextureManager {
             this._viewingTextureUvs = [];
             this._viewingMaterial = new THREE.MeshFaceMaterial();
-
-            this._viewingBackgroundMaterial = new THREE.MeshLambertMaterial({
-                map: new THREE.Texture(this._backgroundSinglePixelCanvas),
-                transparent: true
-            });
-            this._viewingBackgroundMaterial.map.needsUpdate = true;
+            this._viewingBackgroundMaterial = this._createBackgroundMaterial();
+            this._transparentMaterial = this._createSolidMaterial('rgba(0, 0, 0, 0)');
 
             var faces = this.geometry.faces;
             for (var i = 0; i < faces.length; i += 1) {
-                // Set the materialIndex to be the face index
-                // TextureManager requires this special treatment to work
-                faces[i].materialIndex = i;
+                faces[i].materialIndex = 0;
                 this._viewingTextureUvs.push([
                     new THREE.Vector2(0.5, 0.5),
                     new THREE.Vector2(0.5, 0.5),
@@ -173,6 +1449,33 @@ module Chameleon {
                 this._viewingMaterial.materials.push(this._viewingBackgroundMaterial);
             }
 
+            this._layers = [
+                new PaintLayer(this._nextLayerName(), faces.length, this._viewingBackgroundMaterial)
+            ];
+
+            if (initialTexture && !this._originalUvs) {
+                console.warn('The model has no UVs to map the texture with, so it starts blank');
+            } else if (initialTexture) {
+                // The whole image becomes a single patch. UVs that cross the edge of the image are clamped to it.
+                var textureCanvas = <HTMLCanvasElement>document.createElement('canvas');
+                textureCanvas.width = initialTexture.width;
+                textureCanvas.height = initialTexture.height;
+                textureCanvas.getContext('2d').drawImage(initialTexture, 0, 0);
+
+                var textureMaterial = createPatchMaterial(textureCanvas);
+
+                var baseLayer = this._layers[0];
+                for (var i = 0; i < faces.length; i += 1) {
+                    baseLayer.material.materials[i] = textureMaterial;
+                    var uvs = this._originalUvsInUnitSquare(i);
+                    for (var j = 0; j < 3; j += 1) {
+                        baseLayer.uvs[i][j].copy(uvs[j]);
+                    }
+                }
+                this._compositeFaces(this._allFaceIndices());
+            }
+            this._updateRenderGroups();
+
             return this;
         }
 
@@ -193,12 +1496,19 @@ module Chameleon {
                 ]);
             }
 
+            this._drawingVertexWs = new Float32Array(this.geometry.vertices.length);
+
             this._drawingCanvas = document.createElement('canvas');
-            this._drawingMaterial = new THREE.MeshLambertMaterial({
-                map: new THREE.Texture(this._drawingCanvas),
-                transparent: true
-            });
-            this._drawingTextureMesh = new THREE.Mesh(this.geometry, this._viewingMaterial);
+            this._drawingDisplayCanvas = document.createElement('canvas');
+            this._drawingBelowCanvas = document.createElement('canvas');
+            this._drawingTexture = new THREE.Texture(this._drawingCanvas);
+            this._drawingMaterial = createScreenSpaceMaterial(this._drawingTexture, this._drawingScreenToUv);
+            // The faces are the same, but WebGLRenderer only regroups them properly for a geometry with a single mesh
+            this._drawingGeometry = new THREE.Geometry();
+            this._drawingGeometry.vertices = this.geometry.vertices;
+            this._drawingGeometry.faces = this.geometry.faces;
+            this._drawingGeometry.faceVertexUvs = [this._viewingTextureUvs];
+            this._drawingTextureMesh = new THREE.Mesh(this._drawingGeometry, this._viewingRenderMaterial);
 
             this._drawingTextureScene = new THREE.Scene();
             this._drawingTextureScene.add(new THREE.AmbientLight(0xFFFFFF));
@@ -256,21 +1566,24 @@ module Chameleon {
                     xMin, yMin, patchCanvas.width, patchCanvas.height,
                     0, 0, patchCanvas.width, patchCanvas.height
                 );
+                if (this._camera instanceof THREE.PerspectiveCamera) {
+                    this._rectifyPerspectivePatch(patchCanvas, xMin, yMin);
+                }
 
-                var patchMaterial = new THREE.MeshLambertMaterial({
-                    map: new THREE.Texture(patchCanvas),
-                    transparent: true
-                });
-                patchMaterial.map.needsUpdate = true;
+                var patchMaterial = createPatchMaterial(patchCanvas);
+
+                var layer = this.activeLayer;
+                var faceIndices = this._affectedFaces.toArray();
+                var before = this._snapshotFaces(layer, faceIndices);
 
                 this._affectedFaces.forEach((faceIndex) => {
-                    this._viewingMaterial.materials[faceIndex] = patchMaterial;
+                    layer.material.materials[faceIndex] = patchMaterial;
 
                     var drawingUvs = this._drawingTextureUvs[faceIndex];
-                    var viewingUvs = this._viewingTextureUvs[faceIndex];
+                    var layerUvs = layer.uvs[faceIndex];
                     for (var j = 0; j < 3; j += 1) {
                         var drawingUV = drawingUvs[j];
-                        viewingUvs[j].setX(
+                        layerUvs[j].setX(
                             (drawingUV.x - uMin) * (this._drawingCanvas.width) / patchCanvas.width
                         ).setY(
                             (drawingUV.y - vMin) * (this._drawingCanvas.height) / patchCanvas.height
@@ -278,14 +1591,93 @@ module Chameleon {
                     }
                 });
 
+                this._history.push([new PatchEdit(layer, faceIndices, before, this._snapshotFaces(layer, faceIndices))]);
+                this._compositeFaces(faceIndices);
                 this._affectedFaces.reset();
             }
 
             return this;
         }
 
+        /**
+         * Viewing textures are mapped with ordinary UVs, which the GPU interpolates perspective-correctly across each face.
+         * Under a perspective camera, the patch cut from the drawing texture is instead a perspective projection of the
+         * face, so each face's triangle is resampled to the image that it will be mapped with.
+         */
+        private _rectifyPerspectivePatch(patchCanvas: HTMLCanvasElement, xMin: number, yMin: number) {
+            var patchContext = patchCanvas.getContext('2d');
+            var source = patchContext.getImageData(0, 0, patchCanvas.width, patchCanvas.height);
+            var target = patchContext.getImageData(0, 0, patchCanvas.width, patchCanvas.height);
+            var color = new Float32Array(4);
+
+            var px = new Float32Array(3), py = new Float32Array(3), pw = new Float32Array(3);
+            this._affectedFaces.forEach((faceIndex) => {
+                var face = this.geometry.faces[faceIndex];
+                var drawingUvs = this._drawingTextureUvs[faceIndex];
+                var vertexIndices = [face.a, face.b, face.c];
+                for (var j = 0; j < 3; j += 1) {
+                    px[j] = drawingUvs[j].x * this._drawingCanvas.width - xMin;
+                    py[j] = (1 - drawingUvs[j].y) * this._drawingCanvas.height - yMin;
+                    pw[j] = this._drawingVertexWs[vertexIndices[j]];
+                }
+
+                var area = (px[1] - px[0]) * (py[2] - py[0]) - (px[2] - px[0]) * (py[1] - py[0]);
+                if (pw[0] <= 0 || pw[1] <= 0 || pw[2] <= 0 || Math.abs(area) < EPSILON) {
+                    return; // Behind the camera, or seen edge-on
+                }
+
+                // Distance (in pixels) from each vertex to its opposite edge, used to grow the triangle by one pixel,
+                // so that no seams appear between neighbouring faces
+                var heights = new Float32Array(3);
+                for (var j = 0; j < 3; j += 1) {
+                    var k = (j + 1) % 3, l = (j + 2) % 3;
+                    heights[j] = Math.abs(area) / Math.sqrt(
+                            (px[l] - px[k]) * (px[l] - px[k]) + (py[l] - py[k]) * (py[l] - py[k])
+                        );
+                }
+
+                var xStart = Math.max(Math.floor(Math.min(px[0], px[1], px[2])) - 1, 0),
+                    xEnd = Math.min(Math.ceil(Math.max(px[0], px[1], px[2])) + 1, patchCanvas.width),
+                    yStart = Math.max(Math.floor(Math.min(py[0], py[1], py[2])) - 1, 0),
+                    yEnd = Math.min(Math.ceil(Math.max(py[0], py[1], py[2])) + 1, patchCanvas.height);
+
+                for (var y = yStart; y < yEnd; y += 1) {
+                    for (var x = xStart; x < xEnd; x += 1) {
+                        var cx = x + 0.5, cy = y + 0.5;
+                        var b0 = ((px[1] - cx) * (py[2] - cy) - (px[2] - cx) * (py[1] - cy)) / area,
+                            b1 = ((px[2] - cx) * (py[0] - cy) - (px[0] - cx) * (py[2] - cy)) / area,
+                            b2 = 1 - b0 - b1;
+                        if (b0 * heights[0] < -1 || b1 * heights[1] < -1 || b2 * heights[2] < -1) {
+                            continue;
+                        }
+
+                        // The viewing texture maps barycentric coordinates of the face linearly into this patch, while
+                        // the drawing texture saw the same point at its perspective-projected position
+                        var w0 = b0 * pw[0], w1 = b1 * pw[1], w2 = b2 * pw[2], wSum = w0 + w1 + w2;
+                        if (wSum <= 0) {
+                            continue;
+                        }
+                        sampleBilinear(
+                            source,
+                            (w0 * px[0] + w1 * px[1] + w2 * px[2]) / wSum,
+                            (w0 * py[0] + w1 * py[1] + w2 * py[2]) / wSum,
+                            color
+                        );
+
+                        var index = (y * target.width + x) * 4;
+                        for (var c = 0; c < 4; c += 1) {
+                            target.data[index + c] = color[c];
+                        }
+                    }
+                }
+            });
+
+            patchContext.putImageData(target, 0, 0);
+        }
+
         private _applyViewingTexture(): TextureManager {
-            this._mesh.material = this._viewingMaterial;
+            this._mesh.material = this._viewingRenderMaterial;
+            this._regroupMeshIfNeeded();
             this._mesh.geometry.faceVertexUvs[0] = this._viewingTextureUvs;
             this._mesh.geometry.uvsNeedUpdate = true;
 
@@ -293,7 +1685,7 @@ module Chameleon {
         }
 
         private _generatePackedFromViewingTexture(): TextureManager {
-            var patches: {canvas: HTMLCanvasElement; isRotated: boolean; faceIndices: number[]}[] = [];
+            var patches: {canvas: HTMLCanvasElement; faceIndices: number[]}[] = [];
 
             // Collect all unique texture patches to be packed
             for (var faceIndex = 0; faceIndex < this.geometry.faces.length; faceIndex += 1) {
@@ -312,112 +1704,66 @@ module Chameleon {
                 if (patchIndex === patches.length) {
                     patches.push({
                         canvas: faceCanvas,
-                        isRotated: false, // we will do the rotation after all patches are collected
                         faceIndices: [faceIndex]
                     });
                 }
             }
 
-            var patchTotalArea = 0;
-            // Rotate patches so that all of them are taller than they are wide
-            for (var patchIndex = 0; patchIndex < patches.length; patchIndex += 1) {
-                var patch = patches[patchIndex];
-                patchTotalArea += patch.canvas.width * patch.canvas.height;
-
-                if (patch.canvas.width > patch.canvas.height) {
-                    var rotatedCanvas = <HTMLCanvasElement>document.createElement('canvas');
-                    rotatedCanvas.width = patch.canvas.height;
-                    rotatedCanvas.height = patch.canvas.width;
-
-                    var rotatedCtx = rotatedCanvas.getContext("2d");
-                    rotatedCtx.translate(rotatedCanvas.width, 0);
-                    rotatedCtx.rotate(90 * Math.PI / 180);
-                    rotatedCtx.drawImage(patch.canvas, 0, 0);
-
-                    patch.canvas = rotatedCanvas;
-                    patch.isRotated = true;
-                }
-            }
-
-            // Sort patches by height
-            patches.sort((l, r) => r.canvas.height - l.canvas.height);
-
-            var packedTextureSideLength = Math.max(
-                Math.floor(Math.sqrt(patchTotalArea) * 1.5),
-                patches[0].canvas.height
-            );
+            // Each patch takes up its size plus the padding on both sides
+            var padding = this._packingPadding;
+            var packing = packRects(patches.map((patch) => ({
+                width: patch.canvas.width + 2 * padding,
+                height: patch.canvas.height + 2 * padding
+            })));
+            this._packingEfficiency = packing.efficiency;
 
             // Prepare the one big canvas to hold all patches
+            var packedTextureSideLength = packing.size;
             this._packedTextureCanvas.width = this._packedTextureCanvas.height = packedTextureSideLength;
             var packedTextureCtx = this._packedTextureCanvas.getContext("2d");
 
-            // Finally iterate through each patch and put them on the packed texture, while updating UV values
-
-            // Keep track of the current maximum y value (+1) for each column in the packed texture
-            // The is used to implement the 'push upwards' operation described in Igarashi's paper
-            var yBuffer = new Int32Array(packedTextureSideLength);
-
-            var currPatchRow = 0,
-                patchIndex = 0,
-                remainingHeight = packedTextureSideLength;
-
-            while (remainingHeight > 0 && patchIndex < patches.length) {
-                remainingHeight -= patches[patchIndex].canvas.height;
-
-                var remainingWidth = packedTextureSideLength;
-                var isEvenRow = (currPatchRow % 2 == 0);
-
-                while (remainingWidth > 0 && patchIndex < patches.length && patches[patchIndex].canvas.width <= remainingWidth) {
-                    var currentPatch = patches[patchIndex];
-
-                    // Draw the current patch on packed texture canvas
-
-                    // Folding--pack left to right in even rows (starting from 0), right to left in odd rows
-                    var x = isEvenRow ? packedTextureSideLength - remainingWidth : remainingWidth - currentPatch.canvas.width;
-                    // 'Push each patch upward until it hits another patch to minimize the gap'
-                    var y = yBuffer[x];
-                    for (var i = x; i < (x + currentPatch.canvas.width); i += 1) {
-                        y = Math.max(yBuffer[i], y);
-                    }
-                    packedTextureCtx.drawImage(currentPatch.canvas, x, y);
+            // Put each patch on the packed texture, while updating UV values
+            patches.forEach((patch, patchIndex) => {
+                var rect = packing.rects[patchIndex];
+                // Where the patch itself goes, and its size as placed
+                var x = rect.x + padding,
+                    y = rect.y + padding,
+                    width = rect.isRotated ? patch.canvas.height : patch.canvas.width,
+                    height = rect.isRotated ? patch.canvas.width : patch.canvas.height;
+
+                packedTextureCtx.save();
+                if (rect.isRotated) {
+                    // Turned clockwise, so that the left edge of the patch becomes its top edge
+                    packedTextureCtx.translate(x + width, y);
+                    packedTextureCtx.rotate(90 * Math.PI / 180);
+                    packedTextureCtx.drawImage(patch.canvas, 0, 0);
+                } else {
+                    packedTextureCtx.drawImage(patch.canvas, x, y);
+                }
+                packedTextureCtx.restore();
 
-                    // Update y buffer accordingly
-                    for (var i = x; i < (x + currentPatch.canvas.width); i += 1) {
-                        yBuffer[i] = y + currentPatch.canvas.height;
-                    }
+                // Enumerate all faces that uses the patch as their texture, and compute their packed texture UVs
+                patch.faceIndices.forEach((faceIndex) => {
+                    var packingUvs = this._packedTextureUvs[faceIndex];
+                    var viewingUvs = this._viewingTextureUvs[faceIndex];
 
-                    // Enumerate all faces that uses the current patch as their texture, and compute their packed texture UVs
-                    for (var i = 0; i < currentPatch.faceIndices.length; i += 1) {
-                        var faceIndex = currentPatch.faceIndices[i];
-                        var packingUvs = this._packedTextureUvs[faceIndex];
-                        var viewingUvs = this._viewingTextureUvs[faceIndex];
-
-                        if (currentPatch.isRotated) {
-                            for (var j = 0; j < 3; j += 1) {
-                                packingUvs[j].setX(
-                                    (viewingUvs[j].y * currentPatch.canvas.width + x) / packedTextureSideLength
-                                ).setY(
-                                    (packedTextureSideLength - y - viewingUvs[j].x * currentPatch.canvas.height) / packedTextureSideLength
-                                );
-                            }
+                    for (var j = 0; j < 3; j += 1) {
+                        if (rect.isRotated) {
+                            packingUvs[j].setX(
+                                (viewingUvs[j].y * width + x) / packedTextureSideLength
+                            ).setY(
+                                (packedTextureSideLength - y - viewingUvs[j].x * height) / packedTextureSideLength
+                            );
                         } else {
-                            for (var j = 0; j < 3; j += 1) {
-                                packingUvs[j].setX(
-                                    (viewingUvs[j].x * currentPatch.canvas.width + x) / packedTextureSideLength
-                                ).setY(
-                                    (packedTextureSideLength - y - (1 - viewingUvs[j].y) * currentPatch.canvas.height) / packedTextureSideLength
-                                );
-                            }
-
+                            packingUvs[j].setX(
+                                (viewingUvs[j].x * width + x) / packedTextureSideLength
+                            ).setY(
+                                (packedTextureSideLength - y - (1 - viewingUvs[j].y) * height) / packedTextureSideLength
+                            );
                         }
                     }
-
-                    remainingWidth -= currentPatch.canvas.width;
-                    patchIndex += 1;
-                }
-
-                currPatchRow += 1;
-            }
+                });
+            });
 
             this._packedTextureMaterial.map.needsUpdate = true;
             this.geometry.uvsNeedUpdate = true;
@@ -433,33 +1779,104 @@ module Chameleon {
             return this;
         }
 
+        /**
+         * Finds the area (in NDC) that the drawing texture should cover: the screen, enlarged to include every face that
+         * is at least partly on the screen, but limited by maxDrawingTextureSize
+         */
+        private _computeDrawingRegion(clipPositions: THREE.Vector4[], screenWidth: number, screenHeight: number) {
+            var min = this._drawingRegion.min.set(-1, -1),
+                max = this._drawingRegion.max.set(1, 1);
+
+            var faces = this.geometry.faces;
+            for (var i = 0; i < faces.length; i += 1) {
+                var p0 = clipPositions[faces[i].a], p1 = clipPositions[faces[i].b], p2 = clipPositions[faces[i].c];
+                if (p0.w <= 0 || p1.w <= 0 || p2.w <= 0) {
+                    continue; // Not (entirely) in front of the camera
+                }
+
+                var x0 = p0.x / p0.w, x1 = p1.x / p1.w, x2 = p2.x / p2.w,
+                    y0 = p0.y / p0.w, y1 = p1.y / p1.w, y2 = p2.y / p2.w;
+                var faceMinX = Math.min(x0, x1, x2), faceMaxX = Math.max(x0, x1, x2),
+                    faceMinY = Math.min(y0, y1, y2), faceMaxY = Math.max(y0, y1, y2);
+                if (faceMaxX < -1 || faceMinX > 1 || faceMaxY < -1 || faceMinY > 1) {
+                    continue; // Entirely off the screen
+                }
+
+                min.x = Math.min(min.x, faceMinX);
+                min.y = Math.min(min.y, faceMinY);
+                max.x = Math.max(max.x, faceMaxX);
+                max.y = Math.max(max.y, faceMaxY);
+            }
+
+            // Shrink the margins around the screen proportionally when they would make the texture too large,
+            // and snap them to whole pixels, so that drawing canvas pixels line up with screen pixels
+            var fitMargins = (low: number, high: number, screenSize: number): number[] => {
+                var maxMargins = Math.max(this.maxDrawingTextureSize - screenSize, 0) / screenSize * 2;
+                var margins = (-1 - low) + (high - 1);
+                var scale = margins > maxMargins ? maxMargins / margins : 1;
+                return [
+                    Math.floor((-1 - low) * scale * screenSize / 2),
+                    Math.floor((high - 1) * scale * screenSize / 2)
+                ];
+            };
+
+            var xMargins = fitMargins(min.x, max.x, screenWidth),
+                yMargins = fitMargins(min.y, max.y, screenHeight);
+            min.set(-1 - xMargins[0] * 2 / screenWidth, -1 - yMargins[0] * 2 / screenHeight);
+            max.set(1 + xMargins[1] * 2 / screenWidth, 1 + yMargins[1] * 2 / screenHeight);
+
+            this._drawingScreenOffset.set(xMargins[0], yMargins[1]);
+            this._drawingScreenToUv.set(
+                1 / (max.x - min.x),
+                1 / (max.y - min.y),
+                -min.x / (max.x - min.x),
+                -min.y / (max.y - min.y)
+            );
+        }
+
         private _generateDrawingFromViewingTexture(): TextureManager {
             console.assert(this._textureInUse === TextureInUse.Viewing);
+            // Layers may have been added since the materials were last grouped
+            this._updateRenderGroups();
 
-            // Assumption: when _renderer is created, 'alpha' must be set to true
-            var originalClearAlpha = this._renderer.getClearAlpha();
-            var originalClearColor = this._renderer.getClearColor().clone();
-            this._renderer.setClearColor(0, 0);
+            var screenWidth = this._renderer.domElement.width,
+                screenHeight = this._renderer.domElement.height;
 
-            this._renderer.render(this._drawingTextureScene, this._camera);
-            this._drawingCanvas.width = this._renderer.domElement.width;
-            this._drawingCanvas.height = this._renderer.domElement.height;
+            var viewProjection = new THREE.Matrix4().multiplyMatrices(
+                this._camera.projectionMatrix,
+                this._camera.matrixWorldInverse
+            );
+            var clipPositions: THREE.Vector4[] = [];
+            for (var i = 0; i < this.geometry.vertices.length; i += 1) {
+                var vertex = this.geometry.vertices[i];
+                clipPositions.push(new THREE.Vector4(vertex.x, vertex.y, vertex.z, 1).applyMatrix4(viewProjection));
+            }
+
+            this._computeDrawingRegion(clipPositions, screenWidth, screenHeight);
+            var min = this._drawingRegion.min, max = this._drawingRegion.max;
 
-            this.drawingContext.drawImage(this._renderer.domElement, -2, 0);
-            this.drawingContext.drawImage(this._renderer.domElement, 2, 0);
-            this.drawingContext.drawImage(this._renderer.domElement, 0, -2);
-            this.drawingContext.drawImage(this._renderer.domElement, 0, 2);
-            this.drawingContext.drawImage(this._renderer.domElement, 0, 0);
+            this._drawingCanvas.width = Math.round(screenWidth * (max.x - min.x) / 2);
+            this._drawingCanvas.height = Math.round(screenHeight * (max.y - min.y) / 2);
+            this._isDrawingLayered = this._layers.length > 1 || !this.activeLayer.isPlain;
 
-            this._drawingMaterial.map.needsUpdate = true;
+            this._renderInDrawingRegion(() => {
+                if (this._isDrawingLayered) {
+                    this._renderLayersForDrawing();
+                } else {
+                    this._renderForDrawing(this._viewingRenderMaterial, this._viewingTextureUvs, this._drawingCanvas, true);
+                    this._drawingTexture.image = this._drawingCanvas;
+                }
+            });
+
+            this._drawingTexture.needsUpdate = true;
 
-            var projectedPosition = new THREE.Vector3();
             for (var i = 0; i < this.geometry.vertices.length; i += 1) {
-                projectedPosition.copy(this.geometry.vertices[i]).project(this._camera);
+                var clipPosition = clipPositions[i];
+                this._drawingVertexWs[i] = clipPosition.w;
                 this._drawingVertexUvs[i].setX(
-                    (projectedPosition.x + 1) / 2
+                    (clipPosition.x / clipPosition.w - min.x) / (max.x - min.x)
                 ).setY(
-                    (projectedPosition.y + 1) / 2
+                    (clipPosition.y / clipPosition.w - min.y) / (max.y - min.y)
                 );
             }
             for (var i = 0; i < this.geometry.faces.length; i += 1) {
@@ -468,10 +1885,189 @@ module Chameleon {
                 this._drawingTextureUvs[i][2].copy(this._drawingVertexUvs[this.geometry.faces[i].c]);
             }
 
-            this._renderer.setClearColor(originalClearColor, originalClearAlpha);
             return this;
         }
 
+        /**
+         * Lets render draw the drawing region onto the renderer's canvas, which has the size of the drawing canvas and a
+         * transparent background meanwhile
+         */
+        private _renderInDrawingRegion(render: () => any) {
+            var min = this._drawingRegion.min, max = this._drawingRegion.max;
+            var screenWidth = this._renderer.domElement.width,
+                screenHeight = this._renderer.domElement.height;
+
+            // Render the enlarged region by mapping it onto the NDC cube, at a one-to-one scale with the screen.
+            // The renderer's canvas is never shown directly (Controls copies it to the screen), so it can be resized.
+            var regionToNdc = new THREE.Matrix4().set(
+                2 / (max.x - min.x), 0, 0, -(max.x + min.x) / (max.x - min.x),
+                0, 2 / (max.y - min.y), 0, -(max.y + min.y) / (max.y - min.y),
+                0, 0, 1, 0,
+                0, 0, 0, 1
+            );
+            var originalProjectionMatrix = this._camera.projectionMatrix.clone();
+            this._camera.projectionMatrix.multiplyMatrices(regionToNdc, originalProjectionMatrix);
+
+            var originalDevicePixelRatio = this._renderer.devicePixelRatio;
+            this._renderer.devicePixelRatio = 1;
+            this._renderer.setSize(this._drawingCanvas.width, this._drawingCanvas.height, false);
+
+            // Assumption: when _renderer is created, 'alpha' must be set to true
+            var originalClearAlpha = this._renderer.getClearAlpha();
+            var originalClearColor = this._renderer.getClearColor().clone();
+            this._renderer.setClearColor(0, 0);
+
+            render();
+
+            this._renderer.setClearColor(originalClearColor, originalClearAlpha);
+            this._renderer.setSize(screenWidth, screenHeight, false);
+            this._renderer.devicePixelRatio = originalDevicePixelRatio;
+            this._camera.projectionMatrix.copy(originalProjectionMatrix);
+        }
+
+        private _faceIdScene: THREE.Scene = null;
+
+        /**
+         * Renders which face shows at each pixel of the drawing canvas, as the index of the face plus one, or 0 where
+         * there is none. The drawing texture must be in use.
+         */
+        private _renderFaceIds(): Uint32Array {
+            if (!this._faceIdScene) {
+                var faceIdGeometry = new THREE.Geometry();
+                faceIdGeometry.vertices = this.geometry.vertices;
+                faceIdGeometry.faces = this.geometry.faces.map((face, faceIndex) => {
+                    var faceIdFace = face.clone();
+                    faceIdFace.materialIndex = 0;
+                    faceIdFace.color.setHex(faceIndex + 1);
+                    return faceIdFace;
+                });
+                this._faceIdScene = new THREE.Scene();
+                this._faceIdScene.add(new THREE.Mesh(
+                    faceIdGeometry, new THREE.MeshBasicMaterial({vertexColors: THREE.FaceColors})
+                ));
+            }
+
+            var width = this._drawingCanvas.width, height = this._drawingCanvas.height;
+            var faceIdCanvas = <HTMLCanvasElement>document.createElement('canvas');
+            faceIdCanvas.width = width;
+            faceIdCanvas.height = height;
+            this._renderInDrawingRegion(() => {
+                this._renderer.render(this._faceIdScene, this._camera);
+                faceIdCanvas.getContext('2d').drawImage(this._renderer.domElement, 0, 0);
+            });
+
+            var pixels = faceIdCanvas.getContext('2d').getImageData(0, 0, width, height).data;
+            var faceIds = new Uint32Array(width * height);
+            for (var i = 0; i < faceIds.length; i += 1) {
+                // Antialiased edges mix the colors of faces, and are left out
+                if (pixels[i * 4 + 3] === 255) {
+                    faceIds[i] = (pixels[i * 4] << 16) | (pixels[i * 4 + 1] << 8) | pixels[i * 4 + 2];
+                }
+            }
+            return faceIds;
+        }
+
+        /**
+         * Renders the mesh with the given material and UVs onto a canvas of the drawing texture's size.
+         * Dilating spreads the outermost pixels of the mesh a little, so that faces seen nearly edge-on, whose patches
+         * are cut from there, are not mixed with the empty pixels around the mesh.
+         */
+        private _renderForDrawing(material: THREE.Material,
+                                  uvs: THREE.Vector2[][],
+                                  canvas: HTMLCanvasElement,
+                                  dilate: boolean) {
+            this._drawingTextureMesh.material = material;
+            this._drawingGeometry.faceVertexUvs[0] = uvs;
+            this._drawingGeometry.uvsNeedUpdate = true;
+            if (this._isDrawingRegroupNeeded) {
+                this._drawingGeometry.dispose();
+                this._isDrawingRegroupNeeded = false;
+            }
+
+            this._renderer.render(this._drawingTextureScene, this._camera);
+
+            var context = canvas.getContext('2d');
+            if (dilate) {
+                context.drawImage(this._renderer.domElement, -2, 0);
+                context.drawImage(this._renderer.domElement, 2, 0);
+                context.drawImage(this._renderer.domElement, 0, -2);
+                context.drawImage(this._renderer.domElement, 0, 2);
+            }
+            context.drawImage(this._renderer.domElement, 0, 0);
+        }
+
+        /**
+         * Renders the active layer onto the drawing canvas, and the other layers onto the canvases it is shown between
+         */
+        private _renderLayersForDrawing() {
+            var width = this._drawingCanvas.width, height = this._drawingCanvas.height;
+            var activeLayer = this.activeLayer;
+
+            // Only the bottom layer is opaque. Dilating the others would smear their paint.
+            this._renderForDrawing(activeLayer.renderMaterial, activeLayer.uvs, this._drawingCanvas, this._activeLayerIndex === 0);
+
+            var layerCanvas = <HTMLCanvasElement>document.createElement('canvas');
+            layerCanvas.width = width;
+            layerCanvas.height = height;
+
+            this._drawingBelowCanvas.width = width;
+            this._drawingBelowCanvas.height = height;
+            var belowContext = this._drawingBelowCanvas.getContext('2d');
+            belowContext.fillStyle = this.backgroundColor;
+            belowContext.fillRect(0, 0, width, height);
+            for (var i = 0; i < this._activeLayerIndex; i += 1) {
+                var layer = this._layers[i];
+                if (!layer.visible) {
+                    continue;
+                }
+                layerCanvas.getContext('2d').clearRect(0, 0, width, height);
+                this._renderForDrawing(layer.renderMaterial, layer.uvs, layerCanvas, i === 0);
+                belowContext.globalAlpha = layer.opacity;
+                belowContext.globalCompositeOperation = layer.blendMode;
+                belowContext.drawImage(layerCanvas, 0, 0);
+            }
+
+            this._drawingAboveCanvases = [];
+            this._drawingAboveLayers = [];
+            for (var i = this._activeLayerIndex + 1; i < this._layers.length; i += 1) {
+                var layer = this._layers[i];
+                if (!layer.visible) {
+                    continue;
+                }
+                var aboveCanvas = <HTMLCanvasElement>document.createElement('canvas');
+                aboveCanvas.width = width;
+                aboveCanvas.height = height;
+                this._renderForDrawing(layer.renderMaterial, layer.uvs, aboveCanvas, false);
+                this._drawingAboveCanvases.push(aboveCanvas);
+                this._drawingAboveLayers.push(layer);
+            }
+
+            this._drawingDisplayCanvas.width = width;
+            this._drawingDisplayCanvas.height = height;
+            this._drawingTexture.image = this._drawingDisplayCanvas;
+            this._updateDrawingDisplay();
+        }
+
+        private _updateDrawingDisplay() {
+            var context = this._drawingDisplayCanvas.getContext('2d');
+            context.globalAlpha = 1;
+            context.globalCompositeOperation = 'source-over';
+            context.clearRect(0, 0, this._drawingDisplayCanvas.width, this._drawingDisplayCanvas.height);
+            context.drawImage(this._drawingBelowCanvas, 0, 0);
+
+            if (this.activeLayer.visible) {
+                context.globalAlpha = this.activeLayer.opacity;
+                context.globalCompositeOperation = this.activeLayer.blendMode;
+                context.drawImage(this._drawingCanvas, 0, 0);
+            }
+
+            for (var i = 0; i < this._drawingAboveCanvases.length; i += 1) {
+                context.globalAlpha = this._drawingAboveLayers[i].opacity;
+                context.globalCompositeOperation = this._drawingAboveLayers[i].blendMode;
+                context.drawImage(this._drawingAboveCanvases[i], 0, 0);
+            }
+        }
+
         private _applyDrawingTexture(): TextureManager {
             this._mesh.material = this._drawingMaterial;
             this._mesh.geometry.faceVertexUvs[0] = this._drawingTextureUvs;
@@ -480,10 +2076,11 @@ module Chameleon {
             return this;
         }
 
-        private _castRayFromMouse(canvasPos: THREE.Vector2): THREE.Intersection[] {
+        private _castRayFromMouse(drawingPos: THREE.Vector2): THREE.Intersection[] {
+            var min = this._drawingRegion.min, max = this._drawingRegion.max;
             var mouse3d = new THREE.Vector3(
-                canvasPos.x / this._drawingCanvas.width * 2 - 1,
-                -canvasPos.y / this._drawingCanvas.height * 2 + 1,
+                min.x + drawingPos.x / this._drawingCanvas.width * (max.x - min.x),
+                max.y - drawingPos.y / this._drawingCanvas.height * (max.y - min.y),
                 -1.0
             );
             var direction = new THREE.Vector3(mouse3d.x, mouse3d.y, 1.0);
@@ -629,12 +2226,9 @@ module Chameleon {
                 if (inside || collide1 || collide2 || collide3 || insidepre) {
                     this._isFloodFill[faceIndex] = 1;
                     this._affectedFaces.add(faceIndex);
-                    for (var i = 0; i < this._nAdjacentFaces[faceIndex]; i += 1) {
+                    for (var i = 0; i < this._AdjacentFacesList[faceIndex].length; i += 1) {
                         var newfaceIndex = this._AdjacentFacesList[faceIndex][i];
-                        var cameradirection = new THREE.Vector3();
-                        cameradirection.copy(this._camera.position);
-                        cameradirection.normalize();
-                        if (this.geometry.faces[newfaceIndex].normal.dot(cameradirection) > 0) {
+                        if (this._isFacingCamera(newfaceIndex) && !this._isCrease(faceIndex, newfaceIndex)) {
                             this._add_recursive(newfaceIndex, center, radius, start, prePos);
                         }
                     }
@@ -642,34 +2236,105 @@ module Chameleon {
             }
         }
 
-        public onStrokePainted(canvasPos: THREE.Vector2, radius: number, start: boolean): TextureManager {
-            var intersections = this._castRayFromMouse(canvasPos);
+        private _isCrease(faceIndex1: number, faceIndex2: number): boolean {
+            // Face normals are unit vectors, so their dot product is the cosine of the angle between them
+            return this.geometry.faces[faceIndex1].normal.dot(this.geometry.faces[faceIndex2].normal) < this._creaseCosine;
+        }
+
+        private _findStrokeSurface(startFaceIndex: number) {
+            this._isOnStrokeSurface.set(this._isFloodFillEmpty);
+            this._isOnStrokeSurface[startFaceIndex] = 1;
+
+            var stack = [startFaceIndex];
+            while (stack.length > 0) {
+                var faceIndex = stack.pop();
+                for (var i = 0; i < this._AdjacentFacesList[faceIndex].length; i += 1) {
+                    var adjacentFaceIndex = this._AdjacentFacesList[faceIndex][i];
+                    if (!this._isOnStrokeSurface[adjacentFaceIndex] && !this._isCrease(faceIndex, adjacentFaceIndex)) {
+                        this._isOnStrokeSurface[adjacentFaceIndex] = 1;
+                        stack.push(adjacentFaceIndex);
+                    }
+                }
+            }
+        }
+
+        private _isFacingCamera(faceIndex: number): boolean {
+            return this._cosineToCamera(faceIndex) > 0;
+        }
+
+        // The cosine of the angle between the normal of a face and the direction from it to the camera
+        private _cosineToCamera = (() => {
+            var toCamera = new THREE.Vector3();
+
+            return (faceIndex: number): number => {
+                var face = this.geometry.faces[faceIndex];
+                if (this._camera instanceof THREE.PerspectiveCamera) {
+                    toCamera.subVectors(this._camera.position, this.geometry.vertices[face.a]);
+                } else {
+                    // An orthographic camera looks along its negative z axis
+                    toCamera.set(0, 0, 1).applyQuaternion(this._camera.quaternion);
+                }
+                return face.normal.dot(toCamera.normalize());
+            };
+        })();
+
+        /**
+         * @param drawingPos position on the drawing canvas, as returned by toDrawingPosition
+         */
+        public onStrokePainted(drawingPos: THREE.Vector2, radius: number, start: boolean): TextureManager {
+            var intersections = this._castRayFromMouse(drawingPos);
+            if (this.stayOnSurface && intersections.length > 0) {
+                if (start) {
+                    this._findStrokeSurface(intersections[0].faceIndex);
+                } else if (!this._isOnStrokeSurface[intersections[0].faceIndex]) {
+                    // Another surface is in front here. The drawing canvas only shows the front-most surface, so
+                    // painting the stroke surface behind it would copy the other surface onto it.
+                    intersections = [];
+                }
+            }
+
             if (intersections.length > 0) {
-                this._drawingMaterial.map.needsUpdate = true;
-                var faceIndex = intersections[0].face.materialIndex;
+                if (this._isDrawingLayered) {
+                    this._updateDrawingDisplay();
+                }
+                this._drawingTexture.needsUpdate = true;
+                var faceIndex = intersections[0].faceIndex;
                 this._isFloodFill.set(this._isFloodFillEmpty);
-                this._add_recursive(faceIndex, canvasPos, radius, start, this._prePos);
+                this._add_recursive(faceIndex, drawingPos, radius, start, this._prePos);
                 if (start == false)
-                    this._add_recursive(this._preIndex, canvasPos, radius, start, this._prePos);
-                this._prePos = canvasPos;
+                    this._add_recursive(this._preIndex, drawingPos, radius, start, this._prePos);
+                this._prePos = drawingPos;
                 this._preIndex = faceIndex;
             }
 
             return this;
         }
 
-        // Assumption on geometry: material indices are same to face indices.
-        // This special treatment is implemented in the constructor of Controls
+        // The materialIndex of each face of the geometry is taken over: it is set to the render group of the face,
+        // as _updateRenderGroups assigns them
+        /**
+         * @param onProgress called with the fraction of preparation work done, which finishes asynchronously
+         * @param initialTexture image to start painting over, mapped by the UVs of the mesh's geometry
+         */
         constructor(mesh: THREE.Mesh,
                     renderer: THREE.WebGLRenderer,
-                    camera: THREE.OrthographicCamera) {
+                    camera: THREE.Camera,
+                    onProgress?: (progress: number) => any,
+                    initialTexture?: HTMLImageElement | HTMLCanvasElement) {
             this._mesh = mesh;
             this._renderer = renderer;
             this._camera = camera;
 
             this._affectedFaces = new AffectedFacesRecorder(this.geometry.faces.length);
 
-            this._initializeViewingTexture().
+            // The geometry's UVs are replaced by those of the texture in use, so keep the ones it came with
+            var uvs = this.geometry.faceVertexUvs[0];
+            if (uvs && uvs.length === this.geometry.faces.length &&
+                uvs.every((faceUvs) => faceUvs && faceUvs.length === 3)) {
+                this._originalUvs = uvs.map((faceUvs) => faceUvs.map((uv) => uv.clone()));
+            }
+
+            this._initializeViewingTexture(initialTexture).
                 _initializePackedTexture().
                 _initializeDrawingTexture().
                 _applyViewingTexture();
@@ -677,34 +2342,17 @@ module Chameleon {
 
             this._isFloodFillEmpty = new Uint8Array(this.geometry.faces.length);
             this._isFloodFill = new Uint8Array(this.geometry.faces.length);
-            this._nAdjacentFaces = new Uint8Array(this.geometry.faces.length);
+            this._isOnStrokeSurface = new Uint8Array(this.geometry.faces.length);
+
+            var noAdjacentFaces = new Uint32Array(0);
             this._AdjacentFacesList = new Array(this.geometry.faces.length);
             for (var i = 0; i < this.geometry.faces.length; i += 1) {
-                this._AdjacentFacesList[i] = new Uint32Array(10);
-            }
-            for (var i = 0; i < this.geometry.faces.length - 1; i += 1) {
-                for (var j = i + 1; j < this.geometry.faces.length; j += 1) {
-                    var vi = [this.geometry.faces[i].a, this.geometry.faces[i].b, this.geometry.faces[i].c];
-                    var vj = [this.geometry.faces[j].a, this.geometry.faces[j].b, this.geometry.faces[j].c];
-                    var count = 0;
-                    for (var k = 0; k < 3; k++)
-                        for (var l = 0; l < 3; l++)
-                            if (this.geometry.vertices[vi[k]].x - this.geometry.vertices[vj[l]].x < EPSILON &&
-                                this.geometry.vertices[vi[k]].x - this.geometry.vertices[vj[l]].x > -EPSILON &&
-                                this.geometry.vertices[vi[k]].y - this.geometry.vertices[vj[l]].y < EPSILON &&
-                                this.geometry.vertices[vi[k]].y - this.geometry.vertices[vj[l]].y > -EPSILON &&
-                                this.geometry.vertices[vi[k]].z - this.geometry.vertices[vj[l]].z < EPSILON &&
-                                this.geometry.vertices[vi[k]].z - this.geometry.vertices[vj[l]].z > -EPSILON &&
-                                this.geometry.faces[i].normal.dot(this.geometry.faces[j].normal) > EPSILON)
-                                count++;
-                    if (count == 2) {
-                        this._AdjacentFacesList[i][this._nAdjacentFaces[i]] = j;
-                        this._AdjacentFacesList[j][this._nAdjacentFaces[j]] = i;
-                        this._nAdjacentFaces[i] += 1;
-                        this._nAdjacentFaces[j] += 1;
-                    }
-                }
+                this._AdjacentFacesList[i] = noAdjacentFaces;
             }
+            this._cancelAdjacency = buildFaceAdjacency(this.geometry, EPSILON, onProgress, (adjacentFacesList) => {
+                this._AdjacentFacesList = adjacentFacesList;
+                this._isAdjacencyReady = true;
+            });
         }
     }
 }
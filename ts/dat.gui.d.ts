@@ -49,6 +49,8 @@ declare module dat {
         isModified(): boolean;
         listen(): GUIController;
         min(n: number): GUIController;
+        options(items: string[]): GUIController;
+        options(items: Object): GUIController;
         remove(target: GUIController): void;
         setValue(value: any): GUIController;
         step(n: number): GUIController;
@@ -1264,6 +1264,7 @@ declare module THREE {
         distance: number;
         point: Vector3;
         face: Face3;
+        faceIndex: number;
         object: Object3D;
     }
 